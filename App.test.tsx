@@ -0,0 +1,295 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { render, screen, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { ApiError } from '@google/genai';
+import App from './App';
+import { RiskLevel } from './types';
+import { grantRemoteConsent, savePrivacyPolicy } from './services/privacy';
+import { createStubModelClient } from './test/modelClient';
+import { geminiResponse } from './test/fixtures/geminiResponses';
+import { expectNoAxeViolations } from './test/axe';
+
+// The app's Gemini predictor answers from a script; tests set the replies with `reply`.
+const gemini = vi.hoisted(() => ({ client: null as ReturnType<typeof createStubModelClient> | null }));
+
+vi.mock('./services/predictors', async importOriginal => {
+  const actual = await importOriginal<typeof import('./services/predictors')>();
+  const PREDICTORS = actual.createPredictors({ getModelClient: () => gemini.client! });
+  return {
+    ...actual,
+    PREDICTORS,
+    getPredictor: (id: keyof typeof PREDICTORS) => PREDICTORS[id],
+    getDefaultPredictorId: () => 'gemini',
+  };
+});
+
+// The patient store works as usual until a test sets `store.failing`.
+const store = vi.hoisted(() => ({ failing: false }));
+
+vi.mock('./services/patientStore', async importOriginal => {
+  const actual = await importOriginal<typeof import('./services/patientStore')>();
+  const failable = <Args extends unknown[], Result>(fn: (...args: Args) => Promise<Result>) =>
+    (...args: Args): Promise<Result> => (store.failing ? Promise.reject(new Error('IndexedDB unavailable')) : fn(...args));
+  return { ...actual, listPatients: failable(actual.listPatients), createPatient: failable(actual.createPatient) };
+});
+
+const reply = (...replies: Parameters<typeof createStubModelClient>) => {
+  gemini.client = createStubModelClient(...replies);
+  return gemini.client;
+};
+
+const fillRequiredFields = async (user: ReturnType<typeof userEvent.setup>, values = { age: '58', glucose: '140', bmi: '31' }) => {
+  await user.type(screen.getByPlaceholderText('e.g. 45'), values.age);
+  await user.type(screen.getByPlaceholderText('e.g. 105.5'), values.glucose);
+  await user.type(screen.getByPlaceholderText('e.g. 28.4'), values.bmi);
+};
+
+// The card around the result heading.
+const resultCard = (heading: HTMLElement) => heading.closest('div')!.parentElement!;
+
+describe('App', () => {
+  beforeEach(() => {
+    store.failing = false;
+    grantRemoteConsent();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  it.each<[RiskLevel, string]>([
+    ['Low Risk', 'Stroke: NO'],
+    ['Moderate Risk', 'Stroke: NO'],
+    ['High Risk', 'Stroke: YES'],
+  ])('renders a %s result', async (riskLevel, verdict) => {
+    const user = userEvent.setup();
+    reply(geminiResponse(riskLevel));
+    render(<App />);
+
+    await fillRequiredFields(user);
+    await user.click(screen.getByRole('button', { name: 'Predict Stroke Risk' }));
+
+    const card = await screen.findByText('Prediction Result').then(resultCard);
+    expect(within(card).getByText(verdict)).toBeInTheDocument();
+    expect(within(card).getByText(riskLevel)).toBeInTheDocument();
+    expect(within(card).getByText('Predicted with:')).toHaveTextContent('Gemini AI');
+  });
+
+  it('shows the probability, range and factors', async () => {
+    const user = userEvent.setup();
+    reply(geminiResponse('Moderate Risk'));
+    render(<App />);
+
+    await fillRequiredFields(user);
+    await user.click(screen.getByRole('button', { name: 'Predict Stroke Risk' }));
+
+    const card = await screen.findByText('Prediction Result').then(resultCard);
+    expect(within(card).getByText('15%')).toBeInTheDocument();
+    expect(within(card).getByText('Likely range 11–19%, moderate confidence.')).toBeInTheDocument();
+    expect(within(card).getByText('Contributing Factors')).toBeInTheDocument();
+    expect(within(card).getByText('+6 pts')).toBeInTheDocument();
+  });
+
+  it('flags out-of-range values without calling the model', async () => {
+    const user = userEvent.setup();
+    const client = reply(geminiResponse('Low Risk'));
+    render(<App />);
+
+    await fillRequiredFields(user, { age: '121', glucose: '29', bmi: '100' });
+    await user.click(screen.getByRole('button', { name: 'Predict Stroke Risk' }));
+
+    expect(screen.getByText('Please correct the errors in the highlighted fields.')).toBeInTheDocument();
+    expect(screen.getByText('Please enter a valid age (0-120).')).toBeInTheDocument();
+    expect(screen.getByText('Value must be between 30 and 600 mg/dL.')).toBeInTheDocument();
+    expect(screen.queryByText('Value must be between 10 and 100.')).not.toBeInTheDocument();
+    expect(client.generateContent).not.toHaveBeenCalled();
+  });
+
+  it('shows an actionable message when the model fails', async () => {
+    const user = userEvent.setup();
+    reply(new ApiError({ status: 401, message: 'API key not valid' }));
+    render(<App />);
+
+    await fillRequiredFields(user);
+    await user.click(screen.getByRole('button', { name: 'Predict Stroke Risk' }));
+
+    expect(
+      await screen.findByText('The Gemini API key is missing or was rejected. Check GEMINI_API_KEY, or switch to the Local Model.')
+    ).toBeInTheDocument();
+    expect(screen.queryByText('Prediction Result')).not.toBeInTheDocument();
+  });
+
+  it('scores with the local model in local-only mode', async () => {
+    const user = userEvent.setup();
+    savePrivacyPolicy({ localOnly: true, ageBandYears: 0 });
+    const client = reply(geminiResponse('High Risk'));
+    render(<App />);
+
+    await fillRequiredFields(user);
+    await user.click(screen.getByRole('button', { name: 'Predict Stroke Risk' }));
+
+    const card = await screen.findByText('Prediction Result').then(resultCard);
+    expect(within(card).getByText('Predicted with:')).toHaveTextContent('Local Model');
+    expect(within(card).getByText('6.1%')).toBeInTheDocument();
+    expect(within(card).getByText('Low Risk')).toBeInTheDocument();
+    expect(client.generateContent).not.toHaveBeenCalled();
+  });
+
+  it('reports patient store failures', async () => {
+    const user = userEvent.setup();
+    store.failing = true;
+    render(<App />);
+
+    expect(await screen.findByText('Could not open the local patient store. Assessments will not be saved.')).toBeInTheDocument();
+
+    await user.type(screen.getByLabelText('New Patient'), 'Ana Ruiz');
+    await user.click(screen.getByRole('button', { name: 'Add patient' }));
+    expect(await screen.findByText('Could not add Ana Ruiz to the local patient store.')).toBeInTheDocument();
+    expect(screen.getByLabelText('New Patient')).toHaveValue('Ana Ruiz');
+  });
+
+  it('reads decimal commas and answers in the selected language', async () => {
+    const user = userEvent.setup();
+    savePrivacyPolicy({ localOnly: true, ageBandYears: 0 });
+    render(<App />);
+
+    await user.selectOptions(screen.getByRole('combobox', { name: 'Language' }), 'de');
+    await user.type(screen.getByPlaceholderText('z. B. 45'), '70');
+    await user.type(screen.getByPlaceholderText('z. B. 105,5'), '140,5');
+    await user.type(screen.getByPlaceholderText('z. B. 28,4'), '31,2');
+    await user.click(screen.getByRole('button', { name: 'Schlaganfallrisiko vorhersagen' }));
+
+    const card = await screen.findByText('Vorhersageergebnis').then(resultCard);
+    expect(within(card).getByText(/^13,4\s%$/)).toBeInTheDocument();
+    expect(within(card).getByText('Mittleres Risiko')).toBeInTheDocument();
+    expect(within(card).getByText(/Glukosewert von 140,5 mg\/dL/)).toBeInTheDocument();
+    expect(within(card).getByText('Vorhergesagt mit:')).toHaveTextContent('Lokales Modell');
+    expect(screen.getByRole('heading', { name: 'Klinische Risikoscores' })).toBeInTheDocument();
+    expect(screen.getByRole('heading', { name: 'Was-wäre-wenn-Szenarien' })).toBeInTheDocument();
+  });
+
+  it('shows scenarios in the selected glucose unit and language', async () => {
+    const user = userEvent.setup();
+    savePrivacyPolicy({ localOnly: true, ageBandYears: 0 });
+    render(<App />);
+
+    await user.click(screen.getByRole('button', { name: 'mmol/L' }));
+    await user.type(screen.getByPlaceholderText('e.g. 45'), '58');
+    await user.type(screen.getByPlaceholderText('e.g. 5.9'), '7.8');
+    await user.type(screen.getByPlaceholderText('e.g. 28.4'), '31');
+    await user.click(screen.getByRole('button', { name: 'Predict Stroke Risk' }));
+    await screen.findByText('Prediction Result');
+
+    expect(screen.getByText('7.8 mmol/L')).toBeInTheDocument();
+    expect(screen.getByRole('textbox', { name: 'Average Glucose Level (mmol/L), Glucose under control' })).toHaveValue('5.6');
+
+    await user.selectOptions(screen.getByRole('combobox', { name: 'Language' }), 'es');
+    expect(screen.getByRole('columnheader', { name: /IMC reducido a 25/ })).toBeInTheDocument();
+    expect(screen.getByRole('textbox', { name: 'Nivel medio de glucosa (mmol/L), Glucosa controlada' })).toHaveValue('5,6');
+  });
+
+  it('translates the other tabs', async () => {
+    const user = userEvent.setup();
+    render(<App />);
+
+    await user.selectOptions(screen.getByRole('combobox', { name: 'Language' }), 'de');
+    await user.click(screen.getByRole('button', { name: 'Risikorichtlinie' }));
+    const moderate = screen.getByRole('textbox', { name: 'Mittleres Risiko ab' });
+    expect(moderate).toHaveValue('10');
+    await user.clear(moderate);
+    await user.type(moderate, '30,5');
+    await user.click(screen.getByRole('button', { name: 'Richtlinie speichern' }));
+    expect(screen.getByText('Der Schwellenwert für hohes Risiko muss über dem für mittleres Risiko liegen.')).toBeInTheDocument();
+
+    await user.click(screen.getByRole('button', { name: 'Kohorten-Dashboard' }));
+    const riskFilter = screen.getByRole('combobox', { name: 'Risikostufe' });
+    expect(within(riskFilter).getByRole('option', { name: 'Alle' })).toBeInTheDocument();
+    expect(within(riskFilter).getByRole('option', { name: 'Hohes Risiko' })).toHaveValue('High Risk');
+  });
+
+  describe('accessibility', () => {
+    it('has no axe violations on the form, its errors or a result', async () => {
+      const user = userEvent.setup();
+      reply(geminiResponse('High Risk'));
+      const { container } = render(<App />);
+      await expectNoAxeViolations(container);
+
+      await user.click(screen.getByRole('button', { name: 'Predict Stroke Risk' }));
+      await expectNoAxeViolations(container);
+
+      await fillRequiredFields(user);
+      await user.click(screen.getByRole('button', { name: 'Predict Stroke Risk' }));
+      await screen.findByText('Prediction Result');
+      await expectNoAxeViolations(container);
+    });
+
+    it('labels every field', () => {
+      render(<App />);
+
+      expect(screen.getByLabelText('Age')).toHaveAttribute('aria-required', 'true');
+      expect(screen.getByLabelText('Systolic Blood Pressure')).toHaveAccessibleDescription('Needed for the Framingham stroke risk score.');
+      expect(screen.getByRole('switch', { name: 'Hypertension' })).toHaveAccessibleDescription('Diagnosed high blood pressure, treated or untreated.');
+      expect(screen.getByRole('combobox', { name: 'Smoking Status' })).toBeInTheDocument();
+      expect(screen.getByRole('group', { name: 'Unit of Average Glucose Level' })).toBeInTheDocument();
+      expect(screen.getByRole('button', { name: 'mg/dL' })).toHaveAttribute('aria-pressed', 'true');
+    });
+
+    it('toggles the condition switches from the keyboard', async () => {
+      const user = userEvent.setup();
+      render(<App />);
+
+      const hypertension = screen.getByRole('switch', { name: 'Hypertension' });
+      expect(hypertension).not.toBeChecked();
+      hypertension.focus();
+      await user.keyboard(' ');
+      expect(hypertension).toBeChecked();
+      await user.keyboard('{Enter}');
+      expect(hypertension).not.toBeChecked();
+
+      await user.tab();
+      expect(screen.getByRole('switch', { name: 'Heart Disease' })).toHaveFocus();
+    });
+
+    it('moves focus to the first invalid field and describes it with its error', async () => {
+      const user = userEvent.setup();
+      reply(geminiResponse('Low Risk'));
+      render(<App />);
+
+      await user.type(screen.getByLabelText(/^Average Glucose Level/), '29');
+      await user.click(screen.getByRole('button', { name: 'Predict Stroke Risk' }));
+
+      const age = screen.getByLabelText('Age');
+      expect(age).toHaveFocus();
+      expect(age).toHaveAttribute('aria-invalid', 'true');
+      expect(age).toHaveAccessibleDescription('Age is required.');
+      expect(screen.getByLabelText(/^Average Glucose Level/)).toHaveAccessibleDescription(/Value must be between 30 and 600 mg\/dL\./);
+      expect(screen.getByRole('alert')).toHaveTextContent('Please correct the errors in the highlighted fields.');
+    });
+
+    it('labels the cohort filters and source options', async () => {
+      const user = userEvent.setup();
+      const { container } = render(<App />);
+
+      await user.click(screen.getByRole('button', { name: 'Cohort Dashboard' }));
+
+      expect(screen.getByRole('combobox', { name: 'Smoking Status' })).toBeInTheDocument();
+      expect(screen.getByRole('combobox', { name: 'Risk Level' })).toBeInTheDocument();
+      expect(screen.getByRole('button', { name: /Patient records/ })).toHaveAttribute('aria-pressed', 'true');
+      const imported = screen.getByRole('button', { name: /Imported results/ });
+      expect(imported).toBeDisabled();
+      expect(imported).toHaveAttribute('aria-pressed', 'false');
+      await expectNoAxeViolations(container);
+    });
+
+    it('announces the prediction', async () => {
+      const user = userEvent.setup();
+      reply(geminiResponse('Moderate Risk'));
+      render(<App />);
+      const status = screen.getByRole('status');
+      expect(status).toBeEmptyDOMElement();
+
+      await fillRequiredFields(user);
+      await user.click(screen.getByRole('button', { name: 'Predict Stroke Risk' }));
+
+      await screen.findByText('Prediction Result');
+      expect(status).toHaveTextContent('Prediction ready. Stroke: NO. Moderate Risk, stroke probability 15%.');
+    });
+  });
+});
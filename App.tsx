@@ -1,115 +1,333 @@
-import React, { useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { 
   PatientData, 
   Gender, 
   WorkType, 
   ResidenceType, 
   SmokingStatus, 
-  PredictionResult 
+  PredictionResult,
+  PredictorId,
+  PatientRecord,
+  Assessment,
+  Locale,
+  RiskLevel
 } from './types';
-import { predictStrokeRisk } from './services/predictionService';
+import { PREDICTORS, getPredictor, getDefaultPredictorId } from './services/predictors';
+import { validatePatientData, isValid, ValidationErrors } from './services/validation';
+import FactorContributionChart from './components/FactorContributionChart';
+import PredictorSelector from './components/PredictorSelector';
+import BatchScoring from './components/BatchScoring';
+import PatientPicker from './components/PatientPicker';
+import PatientRecords from './components/PatientRecords';
+import CohortDashboard from './components/CohortDashboard';
+import ModelEvaluation from './components/ModelEvaluation';
+import RiskPolicySettings from './components/RiskPolicySettings';
+import PrivacySettings from './components/PrivacySettings';
+import RemoteConsentDialog from './components/RemoteConsentDialog';
+import ClinicalScores from './components/ClinicalScores';
+import FhirImport from './components/FhirImport';
+import ScenarioSimulator from './components/ScenarioSimulator';
+import { listPatients, createPatient, addAssessment, listAssessments } from './services/patientStore';
+import { describePredictionError, PredictionCancelledError } from './services/errors';
+import { openPrintableReport, downloadReportPdf, ReportInput } from './services/reportService';
+import { RISK_LEVEL_STYLES } from './services/riskPolicy';
+import { RemotePatientData, loadPrivacyPolicy, remoteAccessProblem, toRemotePayload } from './services/privacy';
+import { FhirImportResult, toFhirRiskAssessment } from './services/fhir';
+import { downloadFile } from './services/download';
+import {
+  CATALOGS,
+  LOCALES,
+  UiMessages,
+  describeUncertainty,
+  formatPercent,
+  loadLocale,
+  predictorName,
+  riskLevelLabel,
+  saveLocale,
+  translate,
+} from './services/i18n';
+import { FIELD_SCHEMA, SelectedUnits, getFieldSchema, convertUnit, normalisePatientData, toSelectedUnits } from './formSchema';
+import SchemaForm, { fieldInputId } from './components/SchemaForm';
 import { 
   Activity, 
   User, 
-  Briefcase, 
-  HeartPulse, 
-  Stethoscope, 
-  Cigarette, 
   AlertCircle,
   CheckCircle,
-  AlertTriangle
+  AlertTriangle,
+  Cpu,
+  Users,
+  FolderOpen,
+  Printer,
+  FileDown,
+  BarChart3,
+  SlidersHorizontal,
+  FileJson,
+  ShieldCheck,
+  PieChart,
+  Languages
 } from 'lucide-react';
 
+type View = 'single' | 'batch' | 'patients' | 'cohort' | 'evaluation' | 'settings' | 'privacy';
+
+const VIEWS: { id: View; label: keyof UiMessages; icon: React.ElementType }[] = [
+  { id: 'single', label: 'viewSingle', icon: User },
+  { id: 'batch', label: 'viewBatch', icon: Users },
+  { id: 'patients', label: 'viewPatients', icon: FolderOpen },
+  { id: 'cohort', label: 'viewCohort', icon: PieChart },
+  { id: 'evaluation', label: 'viewEvaluation', icon: BarChart3 },
+  { id: 'settings', label: 'viewSettings', icon: SlidersHorizontal },
+  { id: 'privacy', label: 'viewPrivacy', icon: ShieldCheck },
+];
+
+// Shown next to the risk level so it does not rest on colour alone.
+const RISK_LEVEL_ICONS: Record<RiskLevel, React.ElementType> = {
+  'Low Risk': CheckCircle,
+  'Moderate Risk': AlertCircle,
+  'High Risk': AlertTriangle,
+};
+
+const INITIAL_FORM_DATA: PatientData = {
+  gender: Gender.Male,
+  age: '',
+  hypertension: false,
+  heartDisease: false,
+  everMarried: true,
+  workType: WorkType.Private,
+  residenceType: ResidenceType.Urban,
+  avgGlucoseLevel: '',
+  bmi: '',
+  smokingStatus: SmokingStatus.NeverSmoked,
+};
+
 const App: React.FC = () => {
-  const [formData, setFormData] = useState<PatientData>({
-    gender: Gender.Male,
-    age: '' as any,
-    hypertension: false,
-    heartDisease: false,
-    everMarried: true,
-    workType: WorkType.Private,
-    residenceType: ResidenceType.Urban,
-    avgGlucoseLevel: '' as any,
-    bmi: '' as any,
-    smokingStatus: SmokingStatus.NeverSmoked,
-  });
+  const [view, setView] = useState<View>('single');
+  const [formData, setFormData] = useState<PatientData>(INITIAL_FORM_DATA);
 
+  const [predictorId, setPredictorId] = useState<PredictorId>(getDefaultPredictorId);
   const [result, setResult] = useState<PredictionResult | null>(null);
+  const [resultPredictorId, setResultPredictorId] = useState<PredictorId>(predictorId);
+  const [resultInput, setResultInput] = useState<PatientData>(formData);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [validationErrors, setValidationErrors] = useState<Partial<Record<keyof PatientData, string>>>({});
+  const [validationErrors, setValidationErrors] = useState<ValidationErrors>({});
+  const [patients, setPatients] = useState<PatientRecord[]>([]);
+  const [patientId, setPatientId] = useState<string | null>(null);
+  const [savedTo, setSavedTo] = useState<string | null>(null);
+  const [units, setUnits] = useState<SelectedUnits>({});
+  const [fhirPatient, setFhirPatient] = useState<{ id?: string; name?: string } | null>(null);
+  // The payload awaiting the user's consent before it is sent to a remote predictor.
+  const [consentPreview, setConsentPreview] = useState<RemotePatientData | null>(null);
+  const [locale, setLocale] = useState<Locale>(loadLocale);
+  const abortRef = useRef<AbortController | null>(null);
+  // The field to focus once a failed submit has rendered its error messages.
+  const focusFieldRef = useRef<keyof PatientData | null>(null);
+  const t = (key: keyof UiMessages, values?: Record<string, string | number>) => translate(locale, key, values);
 
-  const handleInputChange = (field: keyof PatientData, value: any) => {
-    setFormData(prev => ({ ...prev, [field]: value }));
-    // Clear error for this field when user starts typing
-    if (validationErrors[field]) {
-      setValidationErrors(prev => ({ ...prev, [field]: undefined }));
+  useEffect(() => {
+    document.documentElement.lang = locale;
+  }, [locale]);
+
+  const handleLocaleChange = (next: Locale) => {
+    setLocale(next);
+    saveLocale(next);
+    // Re-validate so visible messages switch language too.
+    if (Object.values(validationErrors).some(Boolean)) {
+      setValidationErrors(validatePatientData(formData, { units, locale: next }));
     }
   };
 
-  const validateInputs = (): boolean => {
-    const errors: Partial<Record<keyof PatientData, string>> = {};
-    let isValid = true;
-
-    // Age Validation: 0 to 120
-    if (formData.age === '' || typeof formData.age !== 'number') {
-      errors.age = "Age is required.";
-      isValid = false;
-    } else if (formData.age < 0 || formData.age > 120) {
-      errors.age = "Please enter a valid age (0-120).";
-      isValid = false;
+  useEffect(() => {
+    // Refresh on every return to the form, since patients may have been deleted on the records tab.
+    if (view !== 'single') return;
+    // Local-only mode may have been switched on from the privacy tab.
+    if (getPredictor(predictorId).requiresNetwork && loadPrivacyPolicy().localOnly) {
+      setPredictorId('local');
+    }
+    listPatients()
+      .then(list => {
+        setPatients(list);
+        setPatientId(prev => (prev && list.some(p => p.id === prev) ? prev : null));
+      })
+      .catch(() => setError(t('patientsLoadFailed')));
+  }, [view]);
+
+  const handleSelectPatient = async (id: string | null) => {
+    setPatientId(id);
+    setFhirPatient(null);
+    if (!id) return;
+    // Start from the patient's most recent visit so only changed values need editing.
+    let history: Assessment[];
+    try {
+      history = await listAssessments(id);
+    } catch {
+      setError(t('patientLoadFailed'));
+      return;
     }
+    const latest = history[history.length - 1];
+    if (latest) {
+      setFormData(toSelectedUnits(latest.input, units));
+      setValidationErrors({});
+    }
+  };
 
-    // Glucose Validation: 30 to 600 mg/dL (covering extreme hypoglycemia to extreme hyperglycemia)
-    if (formData.avgGlucoseLevel === '' || typeof formData.avgGlucoseLevel !== 'number') {
-      errors.avgGlucoseLevel = "Glucose level is required.";
-      isValid = false;
-    } else if (formData.avgGlucoseLevel < 30 || formData.avgGlucoseLevel > 600) {
-      errors.avgGlucoseLevel = "Value must be between 30 and 600 mg/dL.";
-      isValid = false;
+  const handleCreatePatient = async (name: string): Promise<boolean> => {
+    let patient: PatientRecord;
+    try {
+      patient = await createPatient(name);
+    } catch {
+      setError(t('patientCreateFailed', { name }));
+      return false;
     }
+    setPatients(prev => [...prev, patient].sort((a, b) => a.name.localeCompare(b.name)));
+    setPatientId(patient.id);
+    return true;
+  };
+
+  const handleFhirImport = (imported: FhirImportResult) => {
+    // An imported bundle describes a new patient, so start from a blank form.
+    setFormData(toSelectedUnits({ ...INITIAL_FORM_DATA, ...imported.data }, units));
+    setValidationErrors({});
+    setFhirPatient({ id: imported.patientId, name: imported.patientName });
+  };
 
-    // BMI Validation: 10 to 100 (covering severe underweight to severe obesity)
-    if (formData.bmi === '' || typeof formData.bmi !== 'number') {
-      errors.bmi = "BMI is required.";
-      isValid = false;
-    } else if (formData.bmi < 10 || formData.bmi > 100) {
-      errors.bmi = "Value must be between 10 and 100.";
-      isValid = false;
+  const handleInputChange = (field: keyof PatientData, value: PatientData[keyof PatientData]) => {
+    setFormData(prev => ({ ...prev, [field]: value }));
+    // Clear error for this field when user starts typing
+    if (validationErrors[field]) {
+      setValidationErrors(prev => ({ ...prev, [field]: undefined }));
     }
+  };
+
+  const handleUnitChange = (field: keyof PatientData, unit: string) => {
+    const schema = getFieldSchema(field);
+    if (schema.type !== 'number') return;
+    const current = units[field] ?? schema.units[0].unit;
+    setFormData(prev => {
+      const value = prev[field];
+      return typeof value === 'number' ? { ...prev, [field]: convertUnit(schema, value, current, unit) } : prev;
+    });
+    setValidationErrors(prev => ({ ...prev, [field]: undefined }));
+    setUnits(prev => ({ ...prev, [field]: unit }));
+  };
+
+  useEffect(() => {
+    if (!focusFieldRef.current) return;
+    document.getElementById(fieldInputId(focusFieldRef.current))?.focus();
+    focusFieldRef.current = null;
+  }, [validationErrors]);
 
+  const validateInputs = (): boolean => {
+    const errors = validatePatientData(formData, { units, locale });
+    // Take keyboard and screen reader users to the first problem, in form order.
+    focusFieldRef.current = FIELD_SCHEMA.find(field => errors[field.key])?.key ?? null;
     setValidationErrors(errors);
-    return isValid;
+    return isValid(errors);
   };
 
   const handleSubmit = async () => {
     setError(null);
     setResult(null);
+    setSavedTo(null);
 
     if (!validateInputs()) {
-      setError("Please correct the errors in the highlighted fields.");
+      setError(t('correctErrors'));
       return;
     }
     
+    // Predictors and the patient store always work in canonical units.
+    const patientData = normalisePatientData(formData, units);
+
+    const predictor = getPredictor(predictorId);
+    if (remoteAccessProblem(predictor) === 'consent') {
+      setConsentPreview(toRemotePayload(patientData, loadPrivacyPolicy()));
+      return;
+    }
+
     setLoading(true);
+    const controller = new AbortController();
+    abortRef.current = controller;
 
     try {
-      const prediction = await predictStrokeRisk(formData);
+      const prediction = await predictor.predict(patientData, { signal: controller.signal, locale });
       setResult(prediction);
+      setResultPredictorId(predictorId);
+      setResultInput(patientData);
+
+      const patient = patients.find(p => p.id === patientId);
+      if (patient) {
+        try {
+          await addAssessment(patient.id, patientData, prediction, predictorId);
+          setSavedTo(patient.name);
+        } catch (saveError) {
+          console.error("Could not save assessment:", saveError);
+          setError(t('saveFailed'));
+        }
+      }
     } catch (err) {
-      setError("Failed to generate prediction. Please try again.");
+      if (!(err instanceof PredictionCancelledError)) {
+        setError(describePredictionError(err, locale));
+      }
     } finally {
       setLoading(false);
+      abortRef.current = null;
     }
   };
 
-  const getInputClass = (field: keyof PatientData) => {
-    const baseClass = "w-full rounded-lg border p-2.5 text-slate-700 outline-none transition focus:ring-2 focus:ring-teal-500 bg-white";
-    return validationErrors[field] 
-      ? `${baseClass} border-red-500 focus:border-red-500 focus:ring-red-200`
-      : `${baseClass} border-slate-300 focus:border-teal-500`;
+  const buildReportInput = (): ReportInput | null =>
+    result && {
+      data: resultInput,
+      result,
+      predictor: PREDICTORS[resultPredictorId],
+      generatedAt: new Date(),
+      patientName: savedTo ?? undefined,
+      locale,
+    };
+
+  const handleExportFhir = () => {
+    if (!result) return;
+    const generatedAt = new Date();
+    const resource = toFhirRiskAssessment({
+      result,
+      predictor: PREDICTORS[resultPredictorId],
+      generatedAt,
+      patientId: fhirPatient?.id,
+      patientName: savedTo ?? fhirPatient?.name,
+      locale,
+    });
+    downloadFile(
+      `stroke-risk-assessment-${generatedAt.toISOString().slice(0, 10)}.fhir.json`,
+      JSON.stringify(resource, null, 2),
+      'application/fhir+json'
+    );
+  };
+
+  const handlePrintReport = () => {
+    const input = buildReportInput();
+    if (input) openPrintableReport(input);
+  };
+
+  const handleDownloadPdf = async () => {
+    const input = buildReportInput();
+    if (!input) return;
+    try {
+      await downloadReportPdf(input);
+    } catch (err) {
+      console.error("PDF export error:", err);
+      setError(t('pdfFailed'));
+    }
   };
 
+  const announcement = loading
+    ? t('processing')
+    : result
+      ? t('resultAnnouncement', {
+          verdict: t(result.strokePrediction ? 'strokeYes' : 'strokeNo'),
+          riskLevel: riskLevelLabel(locale, result.riskLevel),
+          probability: formatPercent(locale, result.probability),
+        })
+      : '';
+  const RiskLevelIcon = result && RISK_LEVEL_ICONS[result.riskLevel];
+
   return (
     <div className="min-h-screen p-4 md:p-8 flex flex-col items-center">
       
@@ -117,275 +335,279 @@ const App: React.FC = () => {
       <header className="mb-8 text-center max-w-2xl">
         <div className="flex items-center justify-center gap-3 mb-2">
           <Activity className="text-teal-600 w-8 h-8" />
-          <h1 className="text-3xl font-bold text-slate-800 tracking-tight">Stroke Prediction System</h1>
+          <h1 className="text-3xl font-bold text-slate-800 tracking-tight">{t('appTitle')}</h1>
         </div>
         <p className="text-slate-500 text-sm md:text-base">
-          Enter patient clinical and demographic data to assess stroke risk factors using AI analysis.
+          {t('appSubtitle')}
         </p>
+        <label className="inline-flex items-center gap-2 mt-3 text-sm text-slate-500">
+          <Languages className="w-4 h-4" />
+          <span className="sr-only">{t('language')}</span>
+          <select
+            value={locale}
+            onChange={(e) => handleLocaleChange(e.target.value as Locale)}
+            className="rounded-lg border border-slate-300 bg-white px-2 py-1 text-slate-700 focus:ring-2 focus:ring-teal-500 outline-none"
+          >
+            {LOCALES.map(code => <option key={code} value={code}>{CATALOGS[code].name}</option>)}
+          </select>
+        </label>
       </header>
 
-      <main className="w-full max-w-5xl grid grid-cols-1 lg:grid-cols-3 gap-8">
+      <nav className="mb-8 flex flex-wrap justify-center gap-1 bg-white rounded-xl p-1 shadow-sm border border-slate-100">
+        {VIEWS.map(v => (
+          <button
+            key={v.id}
+            type="button"
+            aria-current={view === v.id ? 'page' : undefined}
+            onClick={() => setView(v.id)}
+            className={`flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium transition ${view === v.id ? 'bg-teal-600 text-white' : 'text-slate-600 hover:bg-slate-50'}`}
+          >
+            <v.icon className="w-4 h-4" />
+            {t(v.label)}
+          </button>
+        ))}
+      </nav>
+
+      {view === 'single' && (
+        <main className="w-full max-w-5xl grid grid-cols-1 lg:grid-cols-3 gap-8">
         
-        {/* Left Column: Input Form */}
-        <div className="lg:col-span-2 space-y-6">
+          {/* Left Column: Input Form */}
+          <div className="lg:col-span-2 space-y-6">
           
-          {/* A) Demographic Information */}
-          <section className="bg-white rounded-xl shadow-sm border border-slate-100 p-6">
-            <div className="flex items-center gap-2 mb-4 text-teal-700 border-b border-slate-100 pb-2">
-              <User className="w-5 h-5" />
-              <h2 className="font-semibold text-lg">Demographic Information</h2>
-            </div>
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-              <div>
-                <label className="block text-sm font-medium text-slate-700 mb-1">Gender</label>
-                <select 
-                  className="w-full rounded-lg border-slate-300 border p-2.5 text-slate-700 focus:ring-2 focus:ring-teal-500 focus:border-teal-500 outline-none transition bg-white"
-                  value={formData.gender}
-                  onChange={(e) => handleInputChange('gender', e.target.value)}
-                >
-                  {Object.values(Gender).map(g => <option key={g} value={g}>{g}</option>)}
-                </select>
-              </div>
-              <div>
-                <label className="block text-sm font-medium text-slate-700 mb-1">Age</label>
-                <input 
-                  type="number" 
-                  min="0"
-                  max="120"
-                  className={getInputClass('age')}
-                  value={formData.age}
-                  onChange={(e) => handleInputChange('age', e.target.value === '' ? '' : Number(e.target.value))}
-                  placeholder="e.g. 45"
-                />
-                {validationErrors.age && (
-                  <p className="text-red-500 text-xs mt-1">{validationErrors.age}</p>
-                )}
+            {/* Patient Record */}
+            <section className="bg-white rounded-xl shadow-sm border border-slate-100 p-6">
+              <div className="flex items-center gap-2 mb-4 text-teal-700 border-b border-slate-100 pb-2">
+                <FolderOpen className="w-5 h-5" />
+                <h2 className="font-semibold text-lg">{t('patientRecord')}</h2>
               </div>
-            </div>
-          </section>
+              <PatientPicker
+                patients={patients}
+                selectedId={patientId}
+                onSelect={handleSelectPatient}
+                onCreate={handleCreatePatient}
+                disabled={loading}
+                locale={locale}
+              />
+              <FhirImport onImport={handleFhirImport} disabled={loading} locale={locale} />
+            </section>
 
-          {/* B) Social & Work Information */}
-          <section className="bg-white rounded-xl shadow-sm border border-slate-100 p-6">
-            <div className="flex items-center gap-2 mb-4 text-teal-700 border-b border-slate-100 pb-2">
-              <Briefcase className="w-5 h-5" />
-              <h2 className="font-semibold text-lg">Social & Work Information</h2>
-            </div>
-            <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
-              <div>
-                <label className="block text-sm font-medium text-slate-700 mb-1">Work Type</label>
-                <select 
-                  className="w-full rounded-lg border-slate-300 border p-2.5 text-slate-700 focus:ring-2 focus:ring-teal-500 focus:border-teal-500 outline-none transition bg-white"
-                  value={formData.workType}
-                  onChange={(e) => handleInputChange('workType', e.target.value)}
-                >
-                  {Object.values(WorkType).map(w => <option key={w} value={w}>{w.replace('_', ' ')}</option>)}
-                </select>
-              </div>
-              <div>
-                <label className="block text-sm font-medium text-slate-700 mb-1">Residence Type</label>
-                <select 
-                  className="w-full rounded-lg border-slate-300 border p-2.5 text-slate-700 focus:ring-2 focus:ring-teal-500 focus:border-teal-500 outline-none transition bg-white"
-                  value={formData.residenceType}
-                  onChange={(e) => handleInputChange('residenceType', e.target.value)}
-                >
-                  {Object.values(ResidenceType).map(r => <option key={r} value={r}>{r}</option>)}
-                </select>
-              </div>
-              <div>
-                <label className="block text-sm font-medium text-slate-700 mb-1">Ever Married</label>
-                <select 
-                  className="w-full rounded-lg border-slate-300 border p-2.5 text-slate-700 focus:ring-2 focus:ring-teal-500 focus:border-teal-500 outline-none transition bg-white"
-                  value={formData.everMarried ? 'Yes' : 'No'}
-                  onChange={(e) => handleInputChange('everMarried', e.target.value === 'Yes')}
-                >
-                  <option value="Yes">Yes</option>
-                  <option value="No">No</option>
-                </select>
-              </div>
-            </div>
-          </section>
+            {/* A–E) Patient Data, generated from the field schema */}
+            <SchemaForm
+              values={formData}
+              errors={validationErrors}
+              units={units}
+              locale={locale}
+              onChange={handleInputChange}
+              onUnitChange={handleUnitChange}
+            />
 
-          {/* C) Medical History */}
-          <section className="bg-white rounded-xl shadow-sm border border-slate-100 p-6">
-            <div className="flex items-center gap-2 mb-4 text-teal-700 border-b border-slate-100 pb-2">
-              <HeartPulse className="w-5 h-5" />
-              <h2 className="font-semibold text-lg">Medical History</h2>
-            </div>
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-              <div className="flex items-center justify-between p-4 border border-slate-200 rounded-lg hover:bg-slate-50 transition cursor-pointer" onClick={() => handleInputChange('hypertension', !formData.hypertension)}>
-                <label className="text-sm font-medium text-slate-700 cursor-pointer">Hypertension</label>
-                <div className={`w-12 h-6 flex items-center bg-gray-300 rounded-full p-1 duration-300 ease-in-out ${formData.hypertension ? 'bg-teal-500' : ''}`}>
-                  <div className={`bg-white w-4 h-4 rounded-full shadow-md transform duration-300 ease-in-out ${formData.hypertension ? 'translate-x-6' : ''}`}></div>
-                </div>
+            {/* F) Prediction Engine */}
+            <section className="bg-white rounded-xl shadow-sm border border-slate-100 p-6">
+              <div className="flex items-center gap-2 mb-4 text-teal-700 border-b border-slate-100 pb-2">
+                <Cpu className="w-5 h-5" />
+                <h2 className="font-semibold text-lg">{t('predictionEngine')}</h2>
               </div>
-              <div className="flex items-center justify-between p-4 border border-slate-200 rounded-lg hover:bg-slate-50 transition cursor-pointer" onClick={() => handleInputChange('heartDisease', !formData.heartDisease)}>
-                <label className="text-sm font-medium text-slate-700 cursor-pointer">Heart Disease</label>
-                <div className={`w-12 h-6 flex items-center bg-gray-300 rounded-full p-1 duration-300 ease-in-out ${formData.heartDisease ? 'bg-teal-500' : ''}`}>
-                  <div className={`bg-white w-4 h-4 rounded-full shadow-md transform duration-300 ease-in-out ${formData.heartDisease ? 'translate-x-6' : ''}`}></div>
-                </div>
-              </div>
-            </div>
-          </section>
+              <PredictorSelector value={predictorId} onChange={setPredictorId} disabled={loading} locale={locale} />
+            </section>
 
-          {/* D) Clinical Measurements */}
-          <section className="bg-white rounded-xl shadow-sm border border-slate-100 p-6">
-            <div className="flex items-center gap-2 mb-4 text-teal-700 border-b border-slate-100 pb-2">
-              <Stethoscope className="w-5 h-5" />
-              <h2 className="font-semibold text-lg">Clinical Measurements</h2>
-            </div>
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-              <div>
-                <label className="block text-sm font-medium text-slate-700 mb-1">Average Glucose Level (mg/dL)</label>
-                <input 
-                  type="number" 
-                  step="0.01"
-                  className={getInputClass('avgGlucoseLevel')}
-                  value={formData.avgGlucoseLevel}
-                  onChange={(e) => handleInputChange('avgGlucoseLevel', e.target.value === '' ? '' : Number(e.target.value))}
-                  placeholder="e.g. 105.5"
-                />
-                {validationErrors.avgGlucoseLevel && (
-                  <p className="text-red-500 text-xs mt-1">{validationErrors.avgGlucoseLevel}</p>
-                )}
-              </div>
-              <div>
-                <label className="block text-sm font-medium text-slate-700 mb-1">BMI (Body Mass Index)</label>
-                <input 
-                  type="number" 
-                  step="0.1"
-                  className={getInputClass('bmi')}
-                  value={formData.bmi}
-                  onChange={(e) => handleInputChange('bmi', e.target.value === '' ? '' : Number(e.target.value))}
-                  placeholder="e.g. 28.4"
-                />
-                {validationErrors.bmi && (
-                  <p className="text-red-500 text-xs mt-1">{validationErrors.bmi}</p>
-                )}
-              </div>
-            </div>
-          </section>
+            {/* 4) Action Button */}
+            <button 
+              onClick={handleSubmit}
+              disabled={loading}
+              aria-busy={loading}
+              className={`w-full py-4 rounded-xl text-white font-bold text-lg shadow-lg hover:shadow-xl transition-all transform active:scale-95 ${loading ? 'bg-slate-400 cursor-not-allowed' : 'bg-teal-600 hover:bg-teal-700'}`}
+            >
+              {loading ? (
+                <span className="flex items-center justify-center gap-2">
+                  <svg className="animate-spin h-5 w-5 text-white" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+                    <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+                    <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+                  </svg>
+                  {t('processing')}
+                </span>
+              ) : t('predict')}
+            </button>
 
-          {/* E) Lifestyle Factors */}
-          <section className="bg-white rounded-xl shadow-sm border border-slate-100 p-6">
-            <div className="flex items-center gap-2 mb-4 text-teal-700 border-b border-slate-100 pb-2">
-              <Cigarette className="w-5 h-5" />
-              <h2 className="font-semibold text-lg">Lifestyle Factors</h2>
-            </div>
-            <div>
-              <label className="block text-sm font-medium text-slate-700 mb-1">Smoking Status</label>
-              <select 
-                className="w-full rounded-lg border-slate-300 border p-2.5 text-slate-700 focus:ring-2 focus:ring-teal-500 focus:border-teal-500 outline-none transition bg-white"
-                value={formData.smokingStatus}
-                onChange={(e) => handleInputChange('smokingStatus', e.target.value)}
+            {loading && (
+              <button
+                type="button"
+                onClick={() => abortRef.current?.abort()}
+                className="w-full py-2 rounded-xl text-slate-600 font-medium border border-slate-300 hover:bg-slate-50 transition"
               >
-                {Object.values(SmokingStatus).map(s => <option key={s} value={s}>{s}</option>)}
-              </select>
-            </div>
-          </section>
-
-          {/* 4) Action Button */}
-          <button 
-            onClick={handleSubmit}
-            disabled={loading}
-            className={`w-full py-4 rounded-xl text-white font-bold text-lg shadow-lg hover:shadow-xl transition-all transform active:scale-95 ${loading ? 'bg-slate-400 cursor-not-allowed' : 'bg-teal-600 hover:bg-teal-700'}`}
-          >
-            {loading ? (
-              <span className="flex items-center justify-center gap-2">
-                <svg className="animate-spin h-5 w-5 text-white" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
-                  <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
-                  <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
-                </svg>
-                Processing...
-              </span>
-            ) : "Predict Stroke Risk"}
-          </button>
-
-          {error && (
-            <div className="bg-red-50 text-red-600 p-4 rounded-lg flex items-center gap-2 mt-4">
-              <AlertCircle className="w-5 h-5" />
-              <span>{error}</span>
-            </div>
-          )}
-
-        </div>
+                {t('cancel')}
+              </button>
+            )}
 
-        {/* Right Column: Output Section */}
-        <div className="lg:col-span-1">
-          <div className="sticky top-8 space-y-6">
-            
-            {/* Placeholder state if no result */}
-            {!result && !loading && (
-              <div className="bg-white rounded-xl p-8 text-center h-full min-h-[300px] flex flex-col items-center justify-center border-2 border-dashed border-slate-300">
-                <Activity className="w-16 h-16 text-slate-300 mb-4" />
-                <h3 className="text-slate-500 font-semibold text-lg">No Prediction Yet</h3>
-                <p className="text-slate-400 text-sm mt-2">Enter patient details and run the model to see the risk assessment.</p>
+            {error && (
+              <div role="alert" className="bg-red-50 text-red-700 p-4 rounded-lg flex items-center gap-2 mt-4">
+                <AlertCircle className="w-5 h-5" />
+                <span>{error}</span>
               </div>
             )}
 
-            {/* 5) Prediction Output */}
             {result && (
-              <div className="bg-white rounded-xl shadow-lg border border-teal-100 overflow-hidden animate-fade-in-up">
-                <div className={`p-6 text-white text-center ${result.strokePrediction ? 'bg-red-500' : 'bg-green-500'}`}>
-                  <h3 className="text-sm uppercase tracking-wider font-semibold opacity-90 mb-1">Prediction Result</h3>
-                  <div className="text-3xl font-bold flex items-center justify-center gap-2">
-                    {result.strokePrediction ? (
-                      <>
-                        <AlertTriangle className="w-8 h-8" />
-                        <span>Stroke: YES</span>
-                      </>
-                    ) : (
-                      <>
-                        <CheckCircle className="w-8 h-8" />
-                        <span>Stroke: NO</span>
-                      </>
-                    )}
-                  </div>
+              <ScenarioSimulator baseline={resultInput} baselineResult={result} predictorId={resultPredictorId} units={units} locale={locale} />
+            )}
+
+          </div>
+
+          {/* Right Column: Output Section */}
+          <div className="lg:col-span-1">
+            {/* Always rendered, so screen readers announce each change of its text */}
+            <div role="status" aria-live="polite" className="sr-only">{announcement}</div>
+            <div className="sticky top-8 space-y-6">
+            
+              {/* Placeholder state if no result */}
+              {!result && !loading && (
+                <div className="bg-white rounded-xl p-8 text-center h-full min-h-[300px] flex flex-col items-center justify-center border-2 border-dashed border-slate-300">
+                  <Activity className="w-16 h-16 text-slate-300 mb-4" />
+                  <h3 className="text-slate-500 font-semibold text-lg">{t('noPredictionTitle')}</h3>
+                  <p className="text-slate-400 text-sm mt-2">{t('noPredictionText')}</p>
                 </div>
+              )}
 
-                <div className="p-6 space-y-6">
-                  {/* B) Probability */}
-                  <div>
-                    <div className="flex justify-between text-sm font-medium text-slate-600 mb-2">
-                      <span>Stroke Probability</span>
-                      <span className="text-slate-900 font-bold">{result.probability}%</span>
+              {/* 5) Prediction Output */}
+              {result && (
+                <div className="bg-white rounded-xl shadow-lg border border-teal-100 overflow-hidden animate-fade-in-up">
+                  <div className={`p-6 text-white text-center ${result.strokePrediction ? 'bg-red-600' : 'bg-green-700'}`}>
+                    <h3 className="text-sm uppercase tracking-wider font-semibold opacity-90 mb-1">{t('predictionResult')}</h3>
+                    <div className="text-3xl font-bold flex items-center justify-center gap-2">
+                      {result.strokePrediction ? (
+                        <>
+                          <AlertTriangle className="w-8 h-8" />
+                          <span>{t('strokeYes')}</span>
+                        </>
+                      ) : (
+                        <>
+                          <CheckCircle className="w-8 h-8" />
+                          <span>{t('strokeNo')}</span>
+                        </>
+                      )}
                     </div>
-                    <div className="w-full bg-slate-100 rounded-full h-4 overflow-hidden">
-                      <div 
-                        className={`h-full rounded-full transition-all duration-1000 ease-out ${result.probability > 50 ? 'bg-red-500' : result.probability > 20 ? 'bg-yellow-500' : 'bg-green-500'}`}
-                        style={{ width: `${result.probability}%` }}
-                      ></div>
+                  </div>
+
+                  <div className="p-6 space-y-6">
+                    {/* B) Probability */}
+                    <div>
+                      <div className="flex justify-between text-sm font-medium text-slate-600 mb-2">
+                        <span>{t('strokeProbability')}</span>
+                        <span className="text-slate-900 font-bold">{formatPercent(locale, result.probability)}</span>
+                      </div>
+                      {/* The bar repeats the figures above and the range text below */}
+                      <div aria-hidden="true" className="relative w-full bg-slate-100 rounded-full h-4 overflow-hidden">
+                        <div 
+                          className={`h-full rounded-full transition-all duration-1000 ease-out ${RISK_LEVEL_STYLES[result.riskLevel].barClass}`}
+                          style={{ width: `${result.probability}%` }}
+                        ></div>
+                        {/* Plausible range; wider when inputs were unknown */}
+                        <div
+                          className="absolute inset-y-0 bg-slate-900/20 border-x-2 border-slate-700"
+                          style={{ left: `${result.uncertainty.low}%`, width: `${Math.max(result.uncertainty.high - result.uncertainty.low, 0.5)}%` }}
+                          title={describeUncertainty(result.uncertainty, locale)}
+                        ></div>
+                      </div>
+                      <div aria-hidden="true" className="flex justify-between text-xs text-slate-500 mt-1">
+                        <span>{formatPercent(locale, 0)}</span>
+                        <span>{formatPercent(locale, 100)}</span>
+                      </div>
+                      <p className={`text-xs mt-2 ${result.uncertainty.confidence === 'high' ? 'text-slate-500' : 'text-yellow-700'}`}>
+                        {describeUncertainty(result.uncertainty, locale)}.
+                      </p>
                     </div>
-                    <div className="flex justify-between text-xs text-slate-400 mt-1">
-                      <span>0%</span>
-                      <span>100%</span>
+
+                    {/* Contributing Factors */}
+                    <FactorContributionChart factors={result.factors} locale={locale} />
+
+                    {/* C) Risk Level */}
+                    <div className="bg-slate-50 rounded-lg p-4 text-center border border-slate-100">
+                      <p className="text-sm text-slate-500 uppercase tracking-wide font-medium">{t('riskLevel')}</p>
+                      <p className={`text-2xl font-bold mt-1 flex items-center justify-center gap-2 ${RISK_LEVEL_STYLES[result.riskLevel].textClass}`}>
+                        {RiskLevelIcon && <RiskLevelIcon className="w-6 h-6" />}
+                        {riskLevelLabel(locale, result.riskLevel)}
+                      </p>
                     </div>
-                  </div>
 
-                  {/* C) Risk Level */}
-                  <div className="bg-slate-50 rounded-lg p-4 text-center border border-slate-100">
-                    <p className="text-sm text-slate-500 uppercase tracking-wide font-medium">Risk Level</p>
-                    <p className={`text-2xl font-bold mt-1 ${
-                      result.riskLevel === 'High Risk' ? 'text-red-600' : 
-                      result.riskLevel === 'Moderate Risk' ? 'text-yellow-600' : 
-                      'text-green-600'
-                    }`}>
-                      {result.riskLevel}
+                    {savedTo && (
+                      <p className="text-xs text-teal-600 text-center">{t('savedTo', { name: savedTo })}</p>
+                    )}
+                    <p className="text-xs text-slate-400 text-center">
+                      {t('predictedWith')} <span className="font-medium text-slate-500">{predictorName(locale, resultPredictorId)}</span>
                     </p>
-                  </div>
 
-                  {/* D) Disclaimer */}
-                  <div className="border-t border-slate-100 pt-4">
-                    <p className="text-xs text-slate-400 text-center leading-relaxed">
-                      <strong>Disclaimer:</strong> This system is for educational purposes only and does not replace professional medical diagnosis. Please consult a qualified healthcare provider for medical advice.
-                    </p>
+                    {/* Report Export */}
+                    <div className="grid grid-cols-2 gap-2">
+                      <button
+                        type="button"
+                        onClick={handlePrintReport}
+                        className="flex items-center justify-center gap-2 py-2 rounded-lg text-sm font-medium border border-slate-300 text-slate-600 hover:bg-slate-50 transition"
+                      >
+                        <Printer className="w-4 h-4" /> {t('printReport')}
+                      </button>
+                      <button
+                        type="button"
+                        onClick={handleDownloadPdf}
+                        className="flex items-center justify-center gap-2 py-2 rounded-lg text-sm font-medium border border-teal-600 text-teal-700 hover:bg-teal-50 transition"
+                      >
+                        <FileDown className="w-4 h-4" /> {t('downloadPdf')}
+                      </button>
+                      <button
+                        type="button"
+                        onClick={handleExportFhir}
+                        className="col-span-2 flex items-center justify-center gap-2 py-2 rounded-lg text-sm font-medium border border-slate-300 text-slate-600 hover:bg-slate-50 transition"
+                      >
+                        <FileJson className="w-4 h-4" /> {t('exportFhir')}
+                      </button>
+                    </div>
+
+                    {/* D) Disclaimer */}
+                    <div className="border-t border-slate-100 pt-4">
+                      <p className="text-xs text-slate-400 text-center leading-relaxed">
+                        <strong>{t('disclaimerLabel')}</strong> {t('disclaimer')}
+                      </p>
+                    </div>
                   </div>
                 </div>
-              </div>
-            )}
+              )}
+
+              {/* Rule-based scores for comparison */}
+              {result && (
+                <ClinicalScores
+                  data={resultInput}
+                  result={result}
+                  predictorName={predictorName(locale, resultPredictorId)}
+                  locale={locale}
+                />
+              )}
+            </div>
           </div>
-        </div>
 
-      </main>
+        </main>
+      )}
+
+      {view === 'batch' && <BatchScoring locale={locale} />}
+
+      {view === 'patients' && <PatientRecords locale={locale} />}
+
+      {view === 'cohort' && <CohortDashboard locale={locale} />}
+
+      {view === 'evaluation' && <ModelEvaluation locale={locale} />}
+
+      {view === 'settings' && <RiskPolicySettings locale={locale} />}
+
+      {view === 'privacy' && <PrivacySettings locale={locale} />}
+
+      {consentPreview && (
+        <RemoteConsentDialog
+          predictor={getPredictor(predictorId)}
+          preview={consentPreview}
+          locale={locale}
+          onAccept={() => {
+            setConsentPreview(null);
+            handleSubmit();
+          }}
+          onCancel={() => setConsentPreview(null)}
+        />
+      )}
     </div>
   );
 };
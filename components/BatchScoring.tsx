@@ -0,0 +1,273 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { Locale, PredictorId } from '../types';
+import { getPredictor, getDefaultPredictorId } from '../services/predictors';
+import {
+  BATCH_CSV_COLUMNS,
+  BatchRow,
+  ScoredBatchRow,
+  parsePatientCsv,
+  scoreBatch,
+  exportScoredCsv,
+} from '../services/batchService';
+import { downloadFile } from '../services/download';
+import {
+  UiMessages,
+  describeUncertainty,
+  fieldLabel,
+  fillTemplateParts,
+  formatNumber,
+  formatPercent,
+  optionLabel,
+  riskLevelLabel,
+  translate,
+} from '../services/i18n';
+import { RISK_LEVELS, RISK_LEVEL_STYLES } from '../services/riskPolicy';
+import { remoteAccessProblem } from '../services/privacy';
+import PredictorSelector from './PredictorSelector';
+import RemoteConsentDialog from './RemoteConsentDialog';
+import { Upload, Download, Cpu, AlertCircle, Square, ArrowUpDown } from 'lucide-react';
+
+type SortKey = 'rowNumber' | 'age' | 'gender' | 'probability' | 'riskLevel';
+
+const sortValue = (row: ScoredBatchRow, key: SortKey): number | string => {
+  switch (key) {
+    case 'age':
+      return row.data?.age === '' ? -1 : row.data?.age ?? -1;
+    case 'gender':
+      return row.data?.gender ?? '';
+    case 'probability':
+      return row.result?.probability ?? -1;
+    case 'riskLevel':
+      return row.result ? RISK_LEVELS.indexOf(row.result.riskLevel) : -1;
+    default:
+      return row.rowNumber;
+  }
+};
+
+const codeClass = "text-xs bg-slate-100 rounded px-1";
+
+const BatchScoring: React.FC<{ locale: Locale }> = ({ locale }) => {
+  const [predictorId, setPredictorId] = useState<PredictorId>(getDefaultPredictorId);
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [rows, setRows] = useState<BatchRow[]>([]);
+  const [scored, setScored] = useState<ScoredBatchRow[]>([]);
+  const [progress, setProgress] = useState({ completed: 0, total: 0 });
+  const [running, setRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [sort, setSort] = useState<{ key: SortKey; ascending: boolean }>({ key: 'rowNumber', ascending: true });
+  const [askConsent, setAskConsent] = useState(false);
+  const abortRef = useRef<AbortController | null>(null);
+  const t = (key: keyof UiMessages, values?: Record<string, string | number>) => translate(locale, key, values);
+
+  const handleFile = async (file: File) => {
+    setError(null);
+    setScored([]);
+    setProgress({ completed: 0, total: 0 });
+    setFileName(file.name);
+    try {
+      setRows(parsePatientCsv(await file.text(), locale));
+    } catch (err) {
+      setRows([]);
+      setError(err instanceof Error ? err.message : t('readCsvFailed'));
+    }
+  };
+
+  const handleScore = async () => {
+    const predictor = getPredictor(predictorId);
+    if (remoteAccessProblem(predictor) === 'consent') {
+      setAskConsent(true);
+      return;
+    }
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setRunning(true);
+    setError(null);
+    setProgress({ completed: 0, total: rows.length });
+
+    try {
+      const results = await scoreBatch(rows, predictor, {
+        signal: controller.signal,
+        onProgress: (completed, total) => setProgress({ completed, total }),
+        locale,
+      });
+      setScored(results);
+    } finally {
+      setRunning(false);
+      abortRef.current = null;
+    }
+  };
+
+  const handleExport = () => {
+    const baseName = fileName?.replace(/\.csv$/i, '') ?? 'patients';
+    downloadFile(`${baseName}-scored.csv`, exportScoredCsv(scored), 'text/csv');
+  };
+
+  const toggleSort = (key: SortKey) => {
+    setSort(prev => ({ key, ascending: prev.key === key ? !prev.ascending : true }));
+  };
+
+  const sortedRows = useMemo(() => {
+    const source: ScoredBatchRow[] = scored.length > 0 ? scored : rows.map(row => ({ ...row, result: null }));
+    return [...source].sort((a, b) => {
+      const left = sortValue(a, sort.key);
+      const right = sortValue(b, sort.key);
+      const order = left < right ? -1 : left > right ? 1 : 0;
+      return sort.ascending ? order : -order;
+    });
+  }, [rows, scored, sort]);
+
+  const validCount = rows.filter(row => row.data).length;
+  const percent = progress.total > 0 ? Math.round((progress.completed / progress.total) * 100) : 0;
+
+  const renderSortHeader = (label: string, sortKey: SortKey) => (
+    <th className="px-3 py-2 text-left font-semibold">
+      <button type="button" onClick={() => toggleSort(sortKey)} className="flex items-center gap-1 hover:text-teal-700">
+        {label}
+        <ArrowUpDown className={`w-3 h-3 ${sort.key === sortKey ? 'text-teal-600' : 'text-slate-300'}`} />
+      </button>
+    </th>
+  );
+
+  return (
+    <div className="w-full max-w-5xl space-y-6">
+      <section className="bg-white rounded-xl shadow-sm border border-slate-100 p-6">
+        <div className="flex items-center gap-2 mb-4 text-teal-700 border-b border-slate-100 pb-2">
+          <Upload className="w-5 h-5" />
+          <h2 className="font-semibold text-lg">{t('batchUpload')}</h2>
+        </div>
+        <p className="text-sm text-slate-500 mb-4">
+          {fillTemplateParts(t('batchCsvIntro'), {
+            columns: <code className={codeClass}>{BATCH_CSV_COLUMNS.join(', ')}</code>,
+            id: <code className={codeClass}>id</code>,
+          }).map((part, i) => <React.Fragment key={i}>{part}</React.Fragment>)}
+        </p>
+        <input
+          type="file"
+          accept=".csv,text/csv"
+          aria-label={t('batchFile')}
+          disabled={running}
+          onChange={(e) => e.target.files?.[0] && handleFile(e.target.files[0])}
+          className="block w-full text-sm text-slate-600 file:mr-4 file:py-2 file:px-4 file:rounded-lg file:border-0 file:bg-teal-50 file:text-teal-700 file:font-semibold hover:file:bg-teal-100"
+        />
+        {rows.length > 0 && (
+          <p className="text-sm text-slate-600 mt-3">
+            {fillTemplateParts(t('batchRowsRead', { count: rows.length }), {
+              valid: <span className="text-green-600 font-medium">{t('batchValid', { count: validCount })}</span>,
+              rejected: <span className="text-red-600 font-medium">{t('batchRejected', { count: rows.length - validCount })}</span>,
+            }).map((part, i) => <React.Fragment key={i}>{part}</React.Fragment>)}
+          </p>
+        )}
+      </section>
+
+      <section className="bg-white rounded-xl shadow-sm border border-slate-100 p-6">
+        <div className="flex items-center gap-2 mb-4 text-teal-700 border-b border-slate-100 pb-2">
+          <Cpu className="w-5 h-5" />
+          <h2 className="font-semibold text-lg">{t('predictionEngine')}</h2>
+        </div>
+        <PredictorSelector value={predictorId} onChange={setPredictorId} disabled={running} locale={locale} />
+      </section>
+
+      <div className="flex flex-col md:flex-row gap-4">
+        {running ? (
+          <button
+            onClick={() => abortRef.current?.abort()}
+            className="flex-1 py-3 rounded-xl text-white font-bold bg-slate-500 hover:bg-slate-600 flex items-center justify-center gap-2"
+          >
+            <Square className="w-4 h-4" /> {t('stop')}
+          </button>
+        ) : (
+          <button
+            onClick={handleScore}
+            disabled={validCount === 0}
+            className={`flex-1 py-3 rounded-xl text-white font-bold shadow-lg transition ${validCount === 0 ? 'bg-slate-400 cursor-not-allowed' : 'bg-teal-600 hover:bg-teal-700'}`}
+          >
+            {t('batchScore', { count: validCount })}
+          </button>
+        )}
+        <button
+          onClick={handleExport}
+          disabled={running || scored.length === 0}
+          className="py-3 px-6 rounded-xl font-bold border border-teal-600 text-teal-700 hover:bg-teal-50 disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+        >
+          <Download className="w-4 h-4" /> {t('exportCsv')}
+        </button>
+      </div>
+
+      {progress.total > 0 && (
+        <div>
+          <div className="flex justify-between text-sm text-slate-600 mb-1">
+            <span>{running ? t('batchScoring') : t('batchDone')}</span>
+            <span>{progress.completed} / {progress.total}</span>
+          </div>
+          <div className="w-full bg-slate-100 rounded-full h-3 overflow-hidden">
+            <div className="h-full bg-teal-500 transition-all" style={{ width: `${percent}%` }}></div>
+          </div>
+        </div>
+      )}
+
+      {error && (
+        <div className="bg-red-50 text-red-600 p-4 rounded-lg flex items-center gap-2">
+          <AlertCircle className="w-5 h-5" />
+          <span>{error}</span>
+        </div>
+      )}
+
+      {sortedRows.length > 0 && (
+        <div className="bg-white rounded-xl shadow-sm border border-slate-100 overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead className="bg-slate-50 text-slate-600">
+              <tr>
+                {renderSortHeader(t('batchRow'), 'rowNumber')}
+                <th className="px-3 py-2 text-left font-semibold">{t('batchId')}</th>
+                {renderSortHeader(fieldLabel(locale, 'gender'), 'gender')}
+                {renderSortHeader(fieldLabel(locale, 'age'), 'age')}
+                {renderSortHeader(t('probability'), 'probability')}
+                {renderSortHeader(t('riskLevel'), 'riskLevel')}
+                <th className="px-3 py-2 text-left font-semibold">{t('batchIssues')}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {sortedRows.map(row => (
+                <tr key={row.rowNumber} className={`border-t border-slate-100 ${row.errors.length > 0 ? 'bg-red-50/50' : ''}`}>
+                  <td className="px-3 py-2 text-slate-500">{row.rowNumber}</td>
+                  <td className="px-3 py-2 text-slate-700">{row.id ?? '—'}</td>
+                  <td className="px-3 py-2 text-slate-700">{row.data ? optionLabel(locale, 'gender', row.data.gender) : row.raw.gender}</td>
+                  <td className="px-3 py-2 text-slate-700">{row.raw.age}</td>
+                  <td className="px-3 py-2 font-semibold text-slate-900">
+                    {row.result ? formatPercent(locale, row.result.probability) : '—'}
+                    {row.result && row.result.uncertainty.confidence !== 'high' && (
+                      <span className="block text-xs font-normal text-yellow-700" title={describeUncertainty(row.result.uncertainty, locale)}>
+                        {formatNumber(locale, row.result.uncertainty.low, 1)}–{formatPercent(locale, row.result.uncertainty.high)}
+                      </span>
+                    )}
+                  </td>
+                  <td className={`px-3 py-2 font-semibold ${row.result ? RISK_LEVEL_STYLES[row.result.riskLevel].textClass : ''}`}>
+                    {row.result ? riskLevelLabel(locale, row.result.riskLevel) : ''}
+                  </td>
+                  <td className="px-3 py-2 text-xs text-red-600">
+                    {row.errors.map(message => <div key={message}>{message}</div>)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {askConsent && (
+        <RemoteConsentDialog
+          predictor={getPredictor(predictorId)}
+          locale={locale}
+          onAccept={() => {
+            setAskConsent(false);
+            handleScore();
+          }}
+          onCancel={() => setAskConsent(false)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default BatchScoring;
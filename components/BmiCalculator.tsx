@@ -0,0 +1,104 @@
+import React, { useId, useState } from 'react';
+import { Locale } from '../types';
+import { BodyMeasurements, MeasurementSystem, calculateBmi } from '../services/units';
+import { UiMessages, fillTemplateParts, formatNumber, translate } from '../services/i18n';
+import NumberInput from './NumberInput';
+
+interface BmiCalculatorProps {
+  onCalculate: (bmi: number) => void;
+  locale: Locale;
+}
+
+const inputClass = "w-full rounded-lg border border-slate-300 p-2.5 text-slate-700 outline-none transition focus:ring-2 focus:ring-teal-500 focus:border-teal-500 bg-white";
+
+const BmiCalculator: React.FC<BmiCalculatorProps> = ({ onCalculate, locale }) => {
+  const [measurements, setMeasurements] = useState<BodyMeasurements>({
+    system: 'metric',
+    height: '',
+    heightInches: '',
+    weight: '',
+  });
+
+  const update = (changes: Partial<BodyMeasurements>) => {
+    const next = { ...measurements, ...changes };
+    setMeasurements(next);
+    const bmi = calculateBmi(next);
+    if (bmi !== null) onCalculate(bmi);
+  };
+
+  // Switching systems clears the entries rather than converting half-typed values.
+  const setSystem = (system: MeasurementSystem) =>
+    setMeasurements({ system, height: '', heightInches: '', weight: '' });
+
+  const id = useId();
+  const metric = measurements.system === 'metric';
+  const bmi = calculateBmi(measurements);
+  const t = (key: keyof UiMessages, values?: Record<string, string | number>) => translate(locale, key, values);
+  const example = (value: number) => t('example', { value: formatNumber(locale, value) });
+
+  return (
+    <div className="rounded-lg border border-slate-200 bg-slate-50 p-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <p id={`${id}-title`} className="text-sm font-medium text-slate-700">{t('bmiCalculator')}</p>
+        <div role="group" aria-labelledby={`${id}-title`} className="flex rounded-lg border border-slate-300 overflow-hidden text-xs">
+          {(['metric', 'imperial'] as MeasurementSystem[]).map(system => (
+            <button
+              key={system}
+              type="button"
+              aria-pressed={measurements.system === system}
+              onClick={() => setSystem(system)}
+              className={`px-3 py-1 ${measurements.system === system ? 'bg-teal-600 text-white' : 'bg-white text-slate-600 hover:bg-slate-50'}`}
+            >
+              {t(system)}
+            </button>
+          ))}
+        </div>
+      </div>
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+        <div className={metric ? 'md:col-span-2' : ''}>
+          <label htmlFor={`${id}-height`} className="block text-xs font-medium text-slate-600 mb-1">{t('height', { unit: metric ? 'cm' : 'ft' })}</label>
+          <NumberInput
+            id={`${id}-height`}
+            locale={locale}
+            className={inputClass}
+            value={measurements.height}
+            onChange={(height) => update({ height })}
+            placeholder={example(metric ? 172 : 5)}
+          />
+        </div>
+        {!metric && (
+          <div>
+            <label htmlFor={`${id}-inches`} className="block text-xs font-medium text-slate-600 mb-1">{t('height', { unit: 'in' })}</label>
+            <NumberInput
+              id={`${id}-inches`}
+              locale={locale}
+              className={inputClass}
+              value={measurements.heightInches}
+              onChange={(heightInches) => update({ heightInches })}
+              placeholder={example(8)}
+            />
+          </div>
+        )}
+        <div>
+          <label htmlFor={`${id}-weight`} className="block text-xs font-medium text-slate-600 mb-1">{t('weight', { unit: metric ? 'kg' : 'lb' })}</label>
+          <NumberInput
+            id={`${id}-weight`}
+            locale={locale}
+            className={inputClass}
+            value={measurements.weight}
+            onChange={(weight) => update({ weight })}
+            placeholder={example(metric ? 80 : 176)}
+          />
+        </div>
+      </div>
+      {bmi !== null && (
+        <p role="status" className="text-xs text-teal-700">
+          {fillTemplateParts(t('bmiCalculated'), { bmi: <strong>{formatNumber(locale, bmi)}</strong> })
+            .map((part, i) => <React.Fragment key={i}>{part}</React.Fragment>)}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default BmiCalculator;
@@ -0,0 +1,101 @@
+import React, { useMemo } from 'react';
+import { Locale, PatientData, PredictionResult } from '../types';
+import { computeClinicalScores, findDisagreements, ClinicalScoreResult } from '../services/clinicalScores';
+import { loadRiskPolicy, RISK_LEVEL_STYLES } from '../services/riskPolicy';
+import { CATALOGS, UiMessages, fillTemplateParts, formatPercent, riskLevelLabel, translate } from '../services/i18n';
+import { ClipboardCheck, AlertTriangle } from 'lucide-react';
+
+interface ClinicalScoresProps {
+  data: PatientData;
+  result: PredictionResult;
+  predictorName: string;
+  locale: Locale;
+}
+
+const ClinicalScores: React.FC<ClinicalScoresProps> = ({ data, result, predictorName, locale }) => {
+  const scores = useMemo(() => computeClinicalScores(data, loadRiskPolicy(), locale), [data, locale]);
+  const t = (key: keyof UiMessages, values?: Record<string, string | number>) => translate(locale, key, values);
+  const disagreements = findDisagreements(result, scores);
+  const major = disagreements.some(d => d.tiers > 1);
+
+  const renderScore = (score: ClinicalScoreResult) => {
+    if (score.available === false) {
+      return (
+        <div key={score.id} className="border border-slate-100 rounded-lg p-4">
+          <p className="font-semibold text-slate-700">{score.name}</p>
+          <p className="text-xs text-slate-400 mt-1">{t('scoreUnavailable', { reason: score.reason })}</p>
+        </div>
+      );
+    }
+
+    return (
+      <div key={score.id} className={`border rounded-lg p-4 ${score.validatedForPatient ? 'border-slate-200' : 'border-dashed border-slate-200'}`}>
+        <div className="flex items-start justify-between gap-2">
+          <div>
+            <p className="font-semibold text-slate-700">{score.name}</p>
+            <p className="text-xs text-slate-500 mt-0.5">
+              {t('scoreSummary', {
+                points: score.points,
+                maxPoints: score.maxPoints,
+                risk: formatPercent(locale, score.risk),
+                period: CATALOGS[locale].clinicalScores.periods[score.riskPeriod],
+              })}
+            </p>
+          </div>
+          <span className={`text-sm font-bold whitespace-nowrap ${RISK_LEVEL_STYLES[score.riskLevel].textClass}`}>
+            {riskLevelLabel(locale, score.riskLevel)}
+          </span>
+        </div>
+        <table className="w-full text-xs mt-3">
+          <tbody>
+            {score.components.map(component => (
+              <tr key={component.label} className="border-t border-slate-100">
+                <td className="py-1 text-slate-600">{component.label}</td>
+                <td className="py-1 text-slate-500">{component.value}</td>
+                <td className={`py-1 text-right font-semibold ${component.points > 0 ? 'text-slate-900' : 'text-slate-300'}`}>
+                  +{component.points}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {score.assumedAbsent.length > 0 && (
+          <p className="text-xs text-slate-400 mt-2">{t('scoreAssumedAbsent', { fields: score.assumedAbsent.join(', ') })}</p>
+        )}
+        {score.notes.map(note => <p key={note} className="text-xs text-slate-400 mt-1">{note}</p>)}
+      </div>
+    );
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-slate-100 p-6 space-y-4">
+      <div className="flex items-center gap-2 text-teal-700 border-b border-slate-100 pb-2">
+        <ClipboardCheck className="w-5 h-5" />
+        <h3 className="font-semibold text-lg">{t('clinicalScores')}</h3>
+      </div>
+
+      {disagreements.length > 0 && (
+        <div className={`p-3 rounded-lg text-sm flex gap-2 ${major ? 'bg-red-50 text-red-700' : 'bg-yellow-50 text-yellow-800'}`}>
+          <AlertTriangle className="w-5 h-5 flex-shrink-0" />
+          <div>
+            {disagreements.map(d => (
+              <p key={d.scoreId}>
+                {fillTemplateParts(t('scoreDisagreement', { scoreName: d.scoreName, predictorName }), {
+                  scoreLevel: <strong>{riskLevelLabel(locale, d.scoreLevel)}</strong>,
+                  predictedLevel: <strong>{riskLevelLabel(locale, d.predictedLevel)}</strong>,
+                }).map((part, i) => <React.Fragment key={i}>{part}</React.Fragment>)}
+              </p>
+            ))}
+            <p className="text-xs mt-1 opacity-80">{t('scoreDisagreementAdvice')}</p>
+          </div>
+        </div>
+      )}
+
+      {scores.map(renderScore)}
+
+      <p className="text-xs text-slate-400">{t('clinicalScoresFootnote')}</p>
+    </div>
+  );
+};
+
+export default ClinicalScores;
@@ -0,0 +1,490 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Assessment, Locale, RiskLevel } from '../types';
+import { listAllAssessments } from '../services/patientStore';
+import {
+  CohortRecord,
+  CohortFilters,
+  CohortDimension,
+  RiskCounts,
+  COHORT_DIMENSIONS,
+  cohortFromAssessments,
+  parseScoredCsv,
+  filterCohort,
+  countByRiskLevel,
+  probabilityHistogram,
+  breakdownBy,
+  prevalenceByTier,
+} from '../services/cohort';
+import { RISK_LEVELS, loadRiskPolicy, riskColorHex } from '../services/riskPolicy';
+import { downloadSvg, downloadSvgAsPng } from '../services/chartExport';
+import { downloadFile } from '../services/download';
+import { toCsv } from '../services/csv';
+import { UiMessages, fieldLabel, fillTemplateParts, formatPercent, optionLabel, riskLevelLabel, translate } from '../services/i18n';
+import { PieChart, Filter, Upload, FolderOpen, AlertCircle, Download, ImageIcon, FileCode } from 'lucide-react';
+
+type Source = 'records' | 'import';
+
+const CHART_WIDTH = 520;
+const LABEL_WIDTH = 120;
+const NOTE_WIDTH = 90;
+const BAR_AREA = CHART_WIDTH - LABEL_WIDTH - NOTE_WIDTH;
+const ROW_HEIGHT = 28;
+const LEGEND_HEIGHT = 24;
+
+const PREVALENCE_COLORS = { hypertension: '#0d9488', heartDisease: '#6366f1' };
+
+/** Probabilities are in percent and shares 0–1; either is NaN for an empty group. */
+const formatProbability = (locale: Locale, value: number) => (Number.isNaN(value) ? '—' : formatPercent(locale, value));
+const formatShare = (locale: Locale, value: number) => formatProbability(locale, value * 100);
+
+const kebab = (id: string) => id.replace(/[A-Z]/g, letter => `-${letter.toLowerCase()}`);
+
+/**
+ * A chart with PNG and CSV export; charts use inline colours so the exported image matches the screen.
+ * Files are named after `name` rather than the title, so they do not change with the language.
+ */
+const ChartFrame: React.FC<{ title: string; name: string; csv: (string | number)[][]; locale: Locale; children: React.ReactNode }> = ({
+  title,
+  name,
+  csv,
+  locale,
+  children,
+}) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [exportError, setExportError] = useState<string | null>(null);
+
+  const handleSvg = () => {
+    const svg = containerRef.current?.querySelector('svg');
+    if (svg) downloadSvg(svg, `cohort-${name}.svg`);
+  };
+
+  const handlePng = async () => {
+    const svg = containerRef.current?.querySelector('svg');
+    if (!svg) return;
+    setExportError(null);
+    try {
+      await downloadSvgAsPng(svg, `cohort-${name}.png`);
+    } catch (err) {
+      console.error("Could not export the chart:", err);
+      setExportError(translate(locale, 'chartExportFailed'));
+    }
+  };
+
+  return (
+    <figure className="border border-slate-200 rounded-lg p-4">
+      <div className="flex items-center justify-between gap-2 mb-3">
+        <figcaption className="text-sm font-semibold text-slate-700">{title}</figcaption>
+        <div className="flex gap-1">
+          <button
+            type="button"
+            onClick={handlePng}
+            className="flex items-center gap-1 px-2 py-1 rounded text-xs text-slate-600 border border-slate-200 hover:bg-slate-50"
+          >
+            <ImageIcon className="w-3 h-3" /> PNG
+          </button>
+          <button
+            type="button"
+            onClick={handleSvg}
+            className="flex items-center gap-1 px-2 py-1 rounded text-xs text-slate-600 border border-slate-200 hover:bg-slate-50"
+          >
+            <FileCode className="w-3 h-3" /> SVG
+          </button>
+          <button
+            type="button"
+            onClick={() => downloadFile(`cohort-${name}.csv`, toCsv(csv), 'text/csv')}
+            className="flex items-center gap-1 px-2 py-1 rounded text-xs text-slate-600 border border-slate-200 hover:bg-slate-50"
+          >
+            <Download className="w-3 h-3" /> CSV
+          </button>
+        </div>
+      </div>
+      <div ref={containerRef}>{children}</div>
+      {exportError && <p className="text-red-500 text-xs mt-2">{exportError}</p>}
+    </figure>
+  );
+};
+
+const RiskLegend: React.FC<{ y: number; locale: Locale }> = ({ y, locale }) => (
+  <g>
+    {RISK_LEVELS.map((level, i) => (
+      <g key={level} transform={`translate(${LABEL_WIDTH + i * 110}, ${y})`}>
+        <rect width="10" height="10" fill={riskColorHex(level)} />
+        <text x="14" y="9" fontSize="10" fill="#475569">{riskLevelLabel(locale, level)}</text>
+      </g>
+    ))}
+  </g>
+);
+
+interface StackedRow {
+  label: string;
+  counts: RiskCounts;
+  note: string;
+}
+
+/**
+ * Horizontal bars split by risk level. With `normalise`, every bar is scaled to its own total,
+ * so groups of different sizes can be compared; otherwise bars share one count scale.
+ */
+const StackedBarChart: React.FC<{ title: string; rows: StackedRow[]; normalise?: boolean; locale: Locale }> = ({
+  title,
+  rows,
+  normalise,
+  locale,
+}) => {
+  const totals = rows.map(row => RISK_LEVELS.reduce((sum, level) => sum + row.counts[level], 0));
+  const scale = Math.max(...totals, 1);
+  const height = rows.length * ROW_HEIGHT + LEGEND_HEIGHT;
+
+  return (
+    <svg viewBox={`0 0 ${CHART_WIDTH} ${height}`} className="w-full h-auto" role="img" aria-label={title}>
+      {rows.map((row, i) => {
+        const y = i * ROW_HEIGHT;
+        const denominator = normalise ? totals[i] || 1 : scale;
+        let x = LABEL_WIDTH;
+        return (
+          <g key={row.label}>
+            <text x={LABEL_WIDTH - 6} y={y + 15} textAnchor="end" fontSize="10" fill="#475569">{row.label}</text>
+            <rect x={LABEL_WIDTH} y={y + 4} width={BAR_AREA} height={ROW_HEIGHT - 10} fill="#f1f5f9" />
+            {RISK_LEVELS.map(level => {
+              const width = (row.counts[level] / denominator) * BAR_AREA;
+              const segment = <rect key={level} x={x} y={y + 4} width={width} height={ROW_HEIGHT - 10} fill={riskColorHex(level)} />;
+              x += width;
+              return segment;
+            })}
+            <text x={LABEL_WIDTH + BAR_AREA + 6} y={y + 15} fontSize="10" fill="#64748b">{row.note}</text>
+          </g>
+        );
+      })}
+      <RiskLegend y={rows.length * ROW_HEIGHT + 8} locale={locale} />
+    </svg>
+  );
+};
+
+const HISTOGRAM_HEIGHT = 200;
+const HISTOGRAM_PADDING = 28;
+
+/** Vertical probability histogram, each bin stacked by risk level. */
+const Histogram: React.FC<{ title: string; bins: ReturnType<typeof probabilityHistogram>; locale: Locale }> = ({ title, bins, locale }) => {
+  const plotWidth = CHART_WIDTH - HISTOGRAM_PADDING * 2;
+  const plotHeight = HISTOGRAM_HEIGHT - HISTOGRAM_PADDING * 2;
+  const totals = bins.map(bin => RISK_LEVELS.reduce((sum, level) => sum + bin.counts[level], 0));
+  const max = Math.max(...totals, 1);
+  const barWidth = plotWidth / bins.length;
+  const baseline = HISTOGRAM_PADDING + plotHeight;
+
+  return (
+    <svg viewBox={`0 0 ${CHART_WIDTH} ${HISTOGRAM_HEIGHT + LEGEND_HEIGHT}`} className="w-full h-auto" role="img" aria-label={title}>
+      <line x1={HISTOGRAM_PADDING} x2={HISTOGRAM_PADDING + plotWidth} y1={baseline} y2={baseline} stroke="#cbd5e1" />
+      <text x={HISTOGRAM_PADDING - 4} y={HISTOGRAM_PADDING + 4} textAnchor="end" fontSize="9" fill="#94a3b8">{max}</text>
+      <text x={HISTOGRAM_PADDING - 4} y={baseline} textAnchor="end" fontSize="9" fill="#94a3b8">0</text>
+      {bins.map((bin, i) => {
+        let top = baseline;
+        return (
+          <g key={bin.lower}>
+            {RISK_LEVELS.map(level => {
+              const height = (bin.counts[level] / max) * plotHeight;
+              top -= height;
+              return (
+                <rect key={level} x={HISTOGRAM_PADDING + i * barWidth + 2} y={top} width={barWidth - 4} height={height} fill={riskColorHex(level)} />
+              );
+            })}
+            {totals[i] > 0 && (
+              <text x={HISTOGRAM_PADDING + (i + 0.5) * barWidth} y={top - 3} textAnchor="middle" fontSize="9" fill="#475569">{totals[i]}</text>
+            )}
+            <text x={HISTOGRAM_PADDING + i * barWidth} y={baseline + 12} textAnchor="middle" fontSize="9" fill="#94a3b8">{bin.lower}</text>
+          </g>
+        );
+      })}
+      <text x={HISTOGRAM_PADDING + plotWidth} y={baseline + 12} textAnchor="middle" fontSize="9" fill="#94a3b8">100</text>
+      <text x={CHART_WIDTH / 2} y={baseline + 24} textAnchor="middle" fontSize="10" fill="#64748b">{translate(locale, 'cohortHistogramAxis')}</text>
+      <RiskLegend y={HISTOGRAM_HEIGHT + 8} locale={locale} />
+    </svg>
+  );
+};
+
+/** Share of each risk tier with hypertension and with heart disease. */
+const PrevalenceChart: React.FC<{ title: string; tiers: ReturnType<typeof prevalenceByTier>; locale: Locale }> = ({ title, tiers, locale }) => {
+  const series = [
+    { key: 'hypertension' as const, label: fieldLabel(locale, 'hypertension') },
+    { key: 'heartDisease' as const, label: fieldLabel(locale, 'heartDisease') },
+  ];
+  const groupHeight = ROW_HEIGHT * series.length + 8;
+  const height = tiers.length * groupHeight + LEGEND_HEIGHT;
+
+  return (
+    <svg viewBox={`0 0 ${CHART_WIDTH} ${height}`} className="w-full h-auto" role="img" aria-label={title}>
+      {tiers.map((tier, i) => (
+        <g key={tier.riskLevel} transform={`translate(0, ${i * groupHeight})`}>
+          <text x={LABEL_WIDTH - 6} y={ROW_HEIGHT} textAnchor="end" fontSize="10" fontWeight="600" fill={riskColorHex(tier.riskLevel)}>
+            {riskLevelLabel(locale, tier.riskLevel)}
+          </text>
+          <text x={LABEL_WIDTH - 6} y={ROW_HEIGHT + 12} textAnchor="end" fontSize="9" fill="#94a3b8">n = {tier.total}</text>
+          {series.map((s, j) => {
+            const share = tier[s.key];
+            const y = j * ROW_HEIGHT;
+            return (
+              <g key={s.key}>
+                <rect x={LABEL_WIDTH} y={y + 4} width={BAR_AREA} height={ROW_HEIGHT - 10} fill="#f1f5f9" />
+                <rect x={LABEL_WIDTH} y={y + 4} width={(Number.isNaN(share) ? 0 : share) * BAR_AREA} height={ROW_HEIGHT - 10} fill={PREVALENCE_COLORS[s.key]} />
+                <text x={LABEL_WIDTH + BAR_AREA + 6} y={y + 15} fontSize="10" fill="#64748b">{formatShare(locale, share)}</text>
+              </g>
+            );
+          })}
+        </g>
+      ))}
+      {series.map((s, i) => (
+        <g key={s.key} transform={`translate(${LABEL_WIDTH + i * 110}, ${tiers.length * groupHeight + 8})`}>
+          <rect width="10" height="10" fill={PREVALENCE_COLORS[s.key]} />
+          <text x="14" y="9" fontSize="10" fill="#475569">{s.label}</text>
+        </g>
+      ))}
+    </svg>
+  );
+};
+
+const selectClass = "w-full rounded-lg border-slate-300 border p-2 text-sm text-slate-700 focus:ring-2 focus:ring-teal-500 focus:border-teal-500 outline-none transition bg-white";
+
+const CohortDashboard: React.FC<{ locale: Locale }> = ({ locale }) => {
+  const [source, setSource] = useState<Source>('records');
+  const [assessments, setAssessments] = useState<Assessment[]>([]);
+  const [latestOnly, setLatestOnly] = useState(true);
+  const [imported, setImported] = useState<{ fileName: string; records: CohortRecord[]; skipped: number } | null>(null);
+  const [filters, setFilters] = useState<CohortFilters>({});
+  const [error, setError] = useState<string | null>(null);
+  // Stored results are re-banded with the current policy, so every tier means the same thing.
+  const policy = useMemo(loadRiskPolicy, []);
+  const t = (key: keyof UiMessages, values?: Record<string, string | number>) => translate(locale, key, values);
+
+  useEffect(() => {
+    listAllAssessments()
+      .then(setAssessments)
+      .catch(err => {
+        console.error("Could not load assessments:", err);
+        setError(t('cohortLoadFailed'));
+      });
+  }, []);
+
+  const handleFile = async (file: File) => {
+    setError(null);
+    try {
+      setImported({ fileName: file.name, ...parseScoredCsv(await file.text(), policy, locale) });
+      setSource('import');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('readCsvFailed'));
+    }
+  };
+
+  const cohort = useMemo(
+    () => (source === 'records' ? cohortFromAssessments(assessments, policy, latestOnly) : imported?.records ?? []),
+    [source, assessments, latestOnly, imported, policy]
+  );
+  const filtered = useMemo(() => filterCohort(cohort, filters), [cohort, filters]);
+
+  const distribution = countByRiskLevel(filtered);
+  const histogram = probabilityHistogram(filtered);
+  const tiers = prevalenceByTier(filtered);
+  const meanProbability = filtered.length === 0 ? NaN : filtered.reduce((sum, r) => sum + r.result.probability, 0) / filtered.length;
+
+  const setFilter = (key: keyof CohortFilters, value: string) => {
+    setFilters(prev => ({ ...prev, [key]: value || undefined }));
+  };
+
+  const dimensionLabel = (dimension: CohortDimension | 'riskLevel') =>
+    dimension === 'ageBand' ? t('cohortAgeBand') : dimension === 'riskLevel' ? t('riskLevel') : fieldLabel(locale, dimension);
+
+  const valueLabel = (dimension: CohortDimension | 'riskLevel', value: string) =>
+    dimension === 'ageBand' ? value : dimension === 'riskLevel' ? riskLevelLabel(locale, value as RiskLevel) : optionLabel(locale, dimension, value);
+
+  // Chart exports keep the stored codes, like the Batch Scoring export; only the screen is translated.
+  const breakdownChart = (dimension: CohortDimension) => {
+    const rows = breakdownBy(filtered, dimension);
+    const title = t('cohortRiskBy', { label: dimensionLabel(dimension) });
+    return (
+      <ChartFrame
+        key={dimension}
+        title={title}
+        name={`risk-by-${kebab(dimension)}`}
+        locale={locale}
+        csv={[
+          [dimension, 'patients', ...RISK_LEVELS, 'mean_probability'],
+          ...rows.map(row => [row.value, row.total, ...RISK_LEVELS.map(level => row.counts[level]), Number.isNaN(row.meanProbability) ? '' : row.meanProbability.toFixed(1)]),
+        ]}
+      >
+        <StackedBarChart
+          title={title}
+          normalise
+          locale={locale}
+          rows={rows.map(row => ({
+            label: valueLabel(dimension, row.value),
+            counts: row.counts,
+            note: `n=${row.total} · ${formatProbability(locale, row.meanProbability)}`,
+          }))}
+        />
+      </ChartFrame>
+    );
+  };
+
+  return (
+    <div className="w-full max-w-5xl space-y-6">
+      <section className="bg-white rounded-xl shadow-sm border border-slate-100 p-6">
+        <div className="flex items-center gap-2 mb-4 text-teal-700 border-b border-slate-100 pb-2">
+          <PieChart className="w-5 h-5" />
+          <h2 className="font-semibold text-lg">{t('cohort')}</h2>
+        </div>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+          <button
+            type="button"
+            aria-pressed={source === 'records'}
+            onClick={() => setSource('records')}
+            className={`text-left p-4 border rounded-lg transition ${source === 'records' ? 'border-teal-500 bg-teal-50 ring-2 ring-teal-200' : 'border-slate-200 hover:bg-slate-50'}`}
+          >
+            <p className="text-sm font-semibold text-slate-700 flex items-center gap-2"><FolderOpen className="w-4 h-4" /> {t('cohortRecords')}</p>
+            <p className="text-xs text-slate-500 mt-1">{t('cohortStored', { count: assessments.length })}</p>
+          </button>
+          {/* The file input sits beside the source button, since a button cannot contain one. */}
+          <div className={`p-4 border rounded-lg transition ${source === 'import' ? 'border-teal-500 bg-teal-50 ring-2 ring-teal-200' : 'border-slate-200'}`}>
+            <button
+              type="button"
+              disabled={!imported}
+              aria-pressed={source === 'import'}
+              onClick={() => setSource('import')}
+              className="block w-full text-left disabled:cursor-default"
+            >
+              <p className="text-sm font-semibold text-slate-700 flex items-center gap-2"><Upload className="w-4 h-4" /> {t('cohortImported')}</p>
+              <p className="text-xs text-slate-500 mt-1">
+                {imported
+                  ? [
+                      t('cohortImportedFile', { fileName: imported.fileName, count: imported.records.length }),
+                      ...(imported.skipped > 0 ? [t('cohortRowsSkipped', { count: imported.skipped })] : []),
+                    ].join(' · ')
+                  : t('cohortImportHint')}
+              </p>
+            </button>
+            <input
+              type="file"
+              accept=".csv,text/csv"
+              aria-label={t('cohortFile')}
+              className="mt-2 block w-full text-xs text-slate-600 file:mr-3 file:py-1 file:px-3 file:rounded file:border-0 file:bg-teal-50 file:text-teal-700 file:font-semibold hover:file:bg-teal-100"
+              onChange={(e) => e.target.files?.[0] && handleFile(e.target.files[0])}
+            />
+          </div>
+        </div>
+        {source === 'records' && (
+          <label className="flex items-center gap-2 mt-3 text-sm text-slate-600 cursor-pointer">
+            <input type="checkbox" className="accent-teal-600" checked={latestOnly} onChange={(e) => setLatestOnly(e.target.checked)} />
+            {t('cohortLatestOnly')}
+          </label>
+        )}
+        {error && (
+          <div className="bg-red-50 text-red-600 p-3 rounded-lg flex items-center gap-2 mt-3 text-sm">
+            <AlertCircle className="w-4 h-4" />
+            <span>{error}</span>
+          </div>
+        )}
+      </section>
+
+      <section className="bg-white rounded-xl shadow-sm border border-slate-100 p-6">
+        <div className="flex items-center justify-between gap-2 mb-4 border-b border-slate-100 pb-2">
+          <div className="flex items-center gap-2 text-teal-700">
+            <Filter className="w-5 h-5" />
+            <h2 className="font-semibold text-lg">{t('cohortFilters')}</h2>
+          </div>
+          <button
+            type="button"
+            disabled={Object.values(filters).every(value => !value)}
+            onClick={() => setFilters({})}
+            className="text-xs font-medium text-teal-700 hover:text-teal-900 disabled:text-slate-300"
+          >
+            {t('cohortClearFilters')}
+          </button>
+        </div>
+        <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+          {[...COHORT_DIMENSIONS, { id: 'riskLevel' as const, values: RISK_LEVELS as string[] }].map(dimension => (
+            <div key={dimension.id}>
+              <label htmlFor={`cohort-filter-${dimension.id}`} className="block text-xs font-medium text-slate-600 mb-1">{dimensionLabel(dimension.id)}</label>
+              <select id={`cohort-filter-${dimension.id}`} className={selectClass} value={filters[dimension.id] ?? ''} onChange={(e) => setFilter(dimension.id, e.target.value)}>
+                <option value="">{t('cohortAll')}</option>
+                {dimension.values.map(value => <option key={value} value={value}>{valueLabel(dimension.id, value)}</option>)}
+              </select>
+            </div>
+          ))}
+        </div>
+        <p className="text-sm text-slate-600 mt-4">
+          {fillTemplateParts(t('cohortPatients', { total: cohort.length }), {
+            filtered: <span className="font-semibold text-slate-800">{filtered.length}</span>,
+          }).map((part, i) => <React.Fragment key={i}>{part}</React.Fragment>)}
+          {filtered.length > 0 && (
+            <>
+              {' · '}
+              {fillTemplateParts(t('cohortMeanProbability'), {
+                value: <span className="font-semibold text-slate-800">{formatProbability(locale, meanProbability)}</span>,
+              }).map((part, i) => <React.Fragment key={i}>{part}</React.Fragment>)}
+              {' · '}
+              {fillTemplateParts(t('cohortHighRisk'), {
+                value: <span className="font-semibold text-slate-800">{formatShare(locale, distribution['High Risk'] / filtered.length)}</span>,
+              }).map((part, i) => <React.Fragment key={i}>{part}</React.Fragment>)}
+            </>
+          )}
+        </p>
+      </section>
+
+      {filtered.length === 0 ? (
+        <p className="text-sm text-slate-400 text-center">
+          {cohort.length === 0 ? t('cohortEmpty') : t('cohortNoMatch')}
+        </p>
+      ) : (
+        <section className="bg-white rounded-xl shadow-sm border border-slate-100 p-6 grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <ChartFrame
+            title={t('cohortDistribution')}
+            name="risk-level-distribution"
+            locale={locale}
+            csv={[['risk_level', 'patients', 'share'], ...RISK_LEVELS.map(level => [level, distribution[level], (distribution[level] / filtered.length).toFixed(4)])]}
+          >
+            <StackedBarChart
+              title={t('cohortDistribution')}
+              locale={locale}
+              rows={RISK_LEVELS.map((level: RiskLevel) => ({
+                label: riskLevelLabel(locale, level),
+                counts: { ...countByRiskLevel([]), [level]: distribution[level] },
+                note: `${distribution[level]} · ${formatShare(locale, distribution[level] / filtered.length)}`,
+              }))}
+            />
+          </ChartFrame>
+
+          <ChartFrame
+            title={t('cohortHistogram')}
+            name="probability-histogram"
+            locale={locale}
+            csv={[
+              ['from_percent', 'to_percent', ...RISK_LEVELS],
+              ...histogram.map(bin => [bin.lower, bin.upper, ...RISK_LEVELS.map(level => bin.counts[level])]),
+            ]}
+          >
+            <Histogram title={t('cohortHistogram')} bins={histogram} locale={locale} />
+          </ChartFrame>
+
+          {COHORT_DIMENSIONS.map(dimension => breakdownChart(dimension.id))}
+
+          <ChartFrame
+            title={t('cohortPrevalence')}
+            name="hypertension-and-heart-disease-by-risk-tier"
+            locale={locale}
+            csv={[
+              ['risk_level', 'patients', 'hypertension_share', 'heart_disease_share'],
+              ...tiers.map(tier => [
+                tier.riskLevel,
+                tier.total,
+                Number.isNaN(tier.hypertension) ? '' : tier.hypertension.toFixed(4),
+                Number.isNaN(tier.heartDisease) ? '' : tier.heartDisease.toFixed(4),
+              ]),
+            ]}
+          >
+            <PrevalenceChart title={t('cohortPrevalence')} tiers={tiers} locale={locale} />
+          </ChartFrame>
+        </section>
+      )}
+    </div>
+  );
+};
+
+export default CohortDashboard;
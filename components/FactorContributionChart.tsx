@@ -0,0 +1,55 @@
+import React from 'react';
+import { Locale, RiskFactorContribution } from '../types';
+import { fieldLabel, formatNumber, formatValue, translate } from '../services/i18n';
+import { TrendingUp, TrendingDown } from 'lucide-react';
+
+interface FactorContributionChartProps {
+  factors: RiskFactorContribution[];
+  locale: Locale;
+}
+
+const FactorContributionChart: React.FC<FactorContributionChartProps> = ({ factors, locale }) => {
+  if (factors.length === 0) {
+    return (
+      <p className="text-xs text-slate-400 text-center">{translate(locale, 'noFactors')}</p>
+    );
+  }
+
+  const maxPoints = Math.max(...factors.map(f => f.points), 1);
+
+  return (
+    <div>
+      <p className="text-sm font-medium text-slate-600 mb-3">{translate(locale, 'contributingFactors')}</p>
+      <ol className="space-y-3">
+        {factors.map(factor => {
+          const increases = factor.direction === 'increase';
+          const DirectionIcon = increases ? TrendingUp : TrendingDown;
+          return (
+            <li key={factor.field}>
+              <div className="flex justify-between text-xs mb-1">
+                <span className="text-slate-700 font-medium">
+                  {fieldLabel(locale, factor.field)}
+                  <span className="text-slate-400 font-normal">: {formatValue(locale, factor.field, factor.value)}</span>
+                </span>
+                <span className={`flex items-center gap-1 font-bold ${increases ? 'text-red-600' : 'text-green-700'}`}>
+                  <DirectionIcon className="w-3.5 h-3.5" />
+                  {translate(locale, 'points', { points: `${increases ? '+' : '−'}${formatNumber(locale, factor.points, 1)}` })}
+                  <span className="sr-only">, {translate(locale, increases ? 'increasesRisk' : 'decreasesRisk')}</span>
+                </span>
+              </div>
+              <div aria-hidden="true" className="w-full bg-slate-100 rounded-full h-2 overflow-hidden">
+                <div
+                  className={`h-full rounded-full ${increases ? 'bg-red-400' : 'bg-green-400'}`}
+                  style={{ width: `${(factor.points / maxPoints) * 100}%` }}
+                ></div>
+              </div>
+              <p className="text-xs text-slate-500 mt-1">{factor.rationale}</p>
+            </li>
+          );
+        })}
+      </ol>
+    </div>
+  );
+};
+
+export default FactorContributionChart;
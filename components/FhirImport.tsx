@@ -0,0 +1,103 @@
+import React, { useRef, useState } from 'react';
+import { Locale } from '../types';
+import { FhirImportResult, importFhirBundle } from '../services/fhir';
+import { UiMessages, fieldLabel, translate } from '../services/i18n';
+import { FileJson, AlertCircle, X } from 'lucide-react';
+
+interface FhirImportProps {
+  onImport: (result: FhirImportResult) => void;
+  disabled?: boolean;
+  locale: Locale;
+}
+
+const FhirImport: React.FC<FhirImportProps> = ({ onImport, disabled, locale }) => {
+  const [report, setReport] = useState<FhirImportResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const t = (key: keyof UiMessages, values?: Record<string, string | number>) => translate(locale, key, values);
+
+  const handleFile = async (file: File) => {
+    setError(null);
+    setReport(null);
+    try {
+      const result = importFhirBundle(JSON.parse(await file.text()), new Date(), locale);
+      setReport(result);
+      onImport(result);
+    } catch (err) {
+      setError(err instanceof SyntaxError ? t('fhirInvalidJson') : err instanceof Error ? err.message : t('fhirReadFailed'));
+    } finally {
+      if (inputRef.current) inputRef.current.value = '';
+    }
+  };
+
+  const filledCount = report ? Object.keys(report.data).length - report.assumedAbsent.length : 0;
+
+  return (
+    <div className="mt-4">
+      <input
+        ref={inputRef}
+        type="file"
+        accept=".json,application/json,application/fhir+json"
+        className="hidden"
+        aria-label={t('fhirFile')}
+        onChange={(e) => e.target.files?.[0] && handleFile(e.target.files[0])}
+      />
+      <button
+        type="button"
+        disabled={disabled}
+        onClick={() => inputRef.current?.click()}
+        className="flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium border border-teal-600 text-teal-700 hover:bg-teal-50 transition disabled:opacity-50"
+      >
+        <FileJson className="w-4 h-4" /> {t('importFhir')}
+      </button>
+
+      {error && (
+        <div role="alert" className="bg-red-50 text-red-700 p-3 rounded-lg flex items-center gap-2 mt-3 text-sm">
+          <AlertCircle className="w-4 h-4" />
+          <span>{error}</span>
+        </div>
+      )}
+
+      {report && (
+        <div className="mt-3 border border-slate-200 rounded-lg p-4 text-sm text-slate-600 relative">
+          <button
+            type="button"
+            onClick={() => setReport(null)}
+            className="absolute top-2 right-2 text-slate-400 hover:text-slate-600"
+            aria-label={t('dismissImportReport')}
+          >
+            <X className="w-4 h-4" />
+          </button>
+          <p className="font-medium text-slate-800">
+            {report.patientName
+              ? t('importedFieldsFor', { count: filledCount, name: report.patientName })
+              : t('importedFields', { count: filledCount })}
+          </p>
+          {report.missing.length > 0 && (
+            <p className="mt-2">
+              <span className="font-medium text-red-600">{t('importMissing')}</span>{' '}
+              {report.missing.map(field => fieldLabel(locale, field)).join(', ')}
+            </p>
+          )}
+          {report.assumedAbsent.length > 0 && (
+            <p className="mt-2">
+              <span className="font-medium text-yellow-700">{t('importAssumedAbsent')}</span>{' '}
+              {report.assumedAbsent.map(field => fieldLabel(locale, field)).join(', ')}
+            </p>
+          )}
+          {report.warnings.map(warning => <p key={warning} className="mt-2 text-xs text-slate-500">{warning}</p>)}
+          {report.unmapped.length > 0 && (
+            <details className="mt-2">
+              <summary className="cursor-pointer text-xs text-slate-500">{t('importUnused', { count: report.unmapped.length })}</summary>
+              <ul className="mt-1 text-xs text-slate-400 list-disc list-inside">
+                {report.unmapped.map((entry, index) => <li key={index}>{entry}</li>)}
+              </ul>
+            </details>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default FhirImport;
@@ -0,0 +1,367 @@
+import React, { useRef, useState } from 'react';
+import { Locale, PredictorId } from '../types';
+import { PREDICTORS } from '../services/predictors';
+import { isGeminiConfigured } from '../services/predictionService';
+import { LabelledRow, EvaluationReport, parseLabelledCsv, evaluatePredictor } from '../services/evaluation';
+import { BATCH_CSV_COLUMNS } from '../services/batchService';
+import { loadPrivacyPolicy, remoteAccessProblem } from '../services/privacy';
+import {
+  UiMessages,
+  fillTemplateParts,
+  formatNumber,
+  formatPercent,
+  predictorDescription,
+  predictorName,
+  translate,
+} from '../services/i18n';
+import RemoteConsentDialog from './RemoteConsentDialog';
+import NumberInput from './NumberInput';
+import { Upload, Cpu, AlertCircle, Square, BarChart3 } from 'lucide-react';
+
+const SIZE = 240;
+const PADDING = 32;
+const PLOT = SIZE - PADDING * 2;
+
+const SERIES_COLORS: Record<PredictorId, string> = {
+  local: '#0d9488',
+  gemini: '#6366f1',
+};
+
+const codeClass = "text-xs bg-slate-100 rounded px-1";
+
+interface ChartSeries {
+  predictorId: PredictorId;
+  points: { x: number; y: number }[];
+}
+
+/** A square 0–1 chart with the diagonal drawn in, for ROC and reliability curves. */
+const UnitChart: React.FC<{
+  title: string;
+  xLabel: string;
+  yLabel: string;
+  series: ChartSeries[];
+  markers?: boolean;
+  locale: Locale;
+}> = ({ title, xLabel, yLabel, series, markers, locale }) => {
+  const x = (value: number) => PADDING + value * PLOT;
+  const y = (value: number) => PADDING + PLOT - value * PLOT;
+
+  return (
+    <figure>
+      <figcaption className="text-sm font-semibold text-slate-700 mb-2">{title}</figcaption>
+      <svg viewBox={`0 0 ${SIZE} ${SIZE}`} className="w-full h-auto max-w-xs" role="img" aria-label={title}>
+        {[0, 0.5, 1].map(tick => (
+          <g key={tick}>
+            <line x1={x(0)} x2={x(1)} y1={y(tick)} y2={y(tick)} stroke="#e2e8f0" />
+            <text x={x(0) - 4} y={y(tick) + 3} textAnchor="end" fontSize="9" fill="#94a3b8">{formatNumber(locale, tick)}</text>
+            <text x={x(tick)} y={y(0) + 12} textAnchor="middle" fontSize="9" fill="#94a3b8">{formatNumber(locale, tick)}</text>
+          </g>
+        ))}
+        <line x1={x(0)} y1={y(0)} x2={x(1)} y2={y(1)} stroke="#cbd5e1" strokeDasharray="4 3" />
+        <text x={SIZE / 2} y={SIZE - 4} textAnchor="middle" fontSize="10" fill="#64748b">{xLabel}</text>
+        <text x={10} y={SIZE / 2} textAnchor="middle" fontSize="10" fill="#64748b" transform={`rotate(-90 10 ${SIZE / 2})`}>{yLabel}</text>
+        {series.map(s => (
+          <g key={s.predictorId}>
+            <path
+              d={s.points.map((p, i) => `${i === 0 ? 'M' : 'L'}${x(p.x)},${y(p.y)}`).join(' ')}
+              fill="none"
+              stroke={SERIES_COLORS[s.predictorId]}
+              strokeWidth="2"
+            />
+            {markers && s.points.map((p, i) => (
+              <circle key={i} cx={x(p.x)} cy={y(p.y)} r="3" fill={SERIES_COLORS[s.predictorId]} />
+            ))}
+          </g>
+        ))}
+      </svg>
+    </figure>
+  );
+};
+
+const ModelEvaluation: React.FC<{ locale: Locale }> = ({ locale }) => {
+  const [rows, setRows] = useState<LabelledRow[]>([]);
+  const [selected, setSelected] = useState<PredictorId[]>(['local']);
+  const [maxRows, setMaxRows] = useState<number | ''>('');
+  const [reports, setReports] = useState<EvaluationReport[]>([]);
+  const [progress, setProgress] = useState<{ predictorId: PredictorId; completed: number; total: number } | null>(null);
+  const [running, setRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [consentFor, setConsentFor] = useState<PredictorId | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  const { localOnly } = loadPrivacyPolicy();
+  const t = (key: keyof UiMessages, values?: Record<string, string | number>) => translate(locale, key, values);
+
+  const formatMetric = (value: number, digits = 3) => (Number.isNaN(value) ? '—' : formatNumber(locale, value, digits));
+  const formatShare = (value: number) => (Number.isNaN(value) ? '—' : formatPercent(locale, value * 100));
+
+  const labelledCount = rows.filter(row => row.label !== null && row.data).length;
+  const positiveCount = rows.filter(row => row.label && row.data).length;
+
+  const handleFile = async (file: File) => {
+    setError(null);
+    setReports([]);
+    try {
+      setRows(parseLabelledCsv(await file.text(), locale));
+    } catch (err) {
+      setRows([]);
+      setError(err instanceof Error ? err.message : t('readCsvFailed'));
+    }
+  };
+
+  const togglePredictor = (id: PredictorId) => {
+    setSelected(prev => (prev.includes(id) ? prev.filter(p => p !== id) : [...prev, id]));
+  };
+
+  const handleEvaluate = async () => {
+    // Ask once up front rather than failing every row of a remote predictor.
+    const needsConsent = selected.find(id => remoteAccessProblem(PREDICTORS[id]) === 'consent');
+    if (needsConsent) {
+      setConsentFor(needsConsent);
+      return;
+    }
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setRunning(true);
+    setError(null);
+    setReports([]);
+
+    const sample = maxRows === '' ? rows : rows.slice(0, maxRows);
+    try {
+      for (const predictorId of selected) {
+        const report = await evaluatePredictor(sample, PREDICTORS[predictorId], {
+          signal: controller.signal,
+          onProgress: (completed, total) => setProgress({ predictorId, completed, total }),
+          locale,
+        });
+        if (controller.signal.aborted) break;
+        setReports(prev => [...prev, report]);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('evaluationFailed'));
+    } finally {
+      setRunning(false);
+      setProgress(null);
+      abortRef.current = null;
+    }
+  };
+
+  const metricRows: { label: keyof UiMessages; value: (report: EvaluationReport) => string }[] = [
+    { label: 'metricSamples', value: r => String(r.metrics.samples) },
+    { label: 'metricPositives', value: r => String(r.metrics.positives) },
+    { label: 'metricSkipped', value: r => String(r.skipped) },
+    { label: 'metricAuc', value: r => formatMetric(r.metrics.aucRoc) },
+    { label: 'metricBrier', value: r => formatMetric(r.metrics.brierScore, 4) },
+    { label: 'metricPrecision', value: r => formatShare(r.metrics.precision) },
+    { label: 'metricRecall', value: r => formatShare(r.metrics.recall) },
+    { label: 'metricSpecificity', value: r => formatShare(r.metrics.specificity) },
+    { label: 'metricAccuracy', value: r => formatShare(r.metrics.accuracy) },
+    {
+      label: 'metricConfusion',
+      value: ({ metrics: { confusion: c } }) => `${c.truePositive} / ${c.falsePositive} / ${c.trueNegative} / ${c.falseNegative}`,
+    },
+  ];
+
+  const canRun = labelledCount > 0 && selected.length > 0;
+
+  return (
+    <div className="w-full max-w-5xl space-y-6">
+      <section className="bg-white rounded-xl shadow-sm border border-slate-100 p-6">
+        <div className="flex items-center gap-2 mb-4 text-teal-700 border-b border-slate-100 pb-2">
+          <Upload className="w-5 h-5" />
+          <h2 className="font-semibold text-lg">{t('evaluationDataset')}</h2>
+        </div>
+        <p className="text-sm text-slate-500 mb-4">
+          {fillTemplateParts(t('evaluationCsvIntro'), {
+            columns: <code className={codeClass}>{BATCH_CSV_COLUMNS.join(', ')}</code>,
+            stroke: <code className={codeClass}>stroke</code>,
+          }).map((part, i) => <React.Fragment key={i}>{part}</React.Fragment>)}
+        </p>
+        <input
+          type="file"
+          accept=".csv,text/csv"
+          aria-label={t('evaluationFile')}
+          disabled={running}
+          onChange={(e) => e.target.files?.[0] && handleFile(e.target.files[0])}
+          className="block w-full text-sm text-slate-600 file:mr-4 file:py-2 file:px-4 file:rounded-lg file:border-0 file:bg-teal-50 file:text-teal-700 file:font-semibold hover:file:bg-teal-100"
+        />
+        {rows.length > 0 && (
+          <p className="text-sm text-slate-600 mt-3">
+            {fillTemplateParts(
+              t('evaluationRowsRead', { count: rows.length, positives: positiveCount, rejected: rows.length - labelledCount }),
+              { usable: <span className="text-green-600 font-medium">{t('evaluationUsable', { count: labelledCount })}</span> }
+            ).map((part, i) => <React.Fragment key={i}>{part}</React.Fragment>)}
+          </p>
+        )}
+      </section>
+
+      <section className="bg-white rounded-xl shadow-sm border border-slate-100 p-6">
+        <div className="flex items-center gap-2 mb-4 text-teal-700 border-b border-slate-100 pb-2">
+          <Cpu className="w-5 h-5" />
+          <h2 className="font-semibold text-lg">{t('evaluationPredictors')}</h2>
+        </div>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+          {Object.values(PREDICTORS).map(predictor => {
+            const blocked = localOnly && predictor.requiresNetwork;
+            const unavailable = blocked || (predictor.id === 'gemini' && !isGeminiConfigured());
+            return (
+              <label
+                key={predictor.id}
+                className={`flex items-start gap-3 p-4 border rounded-lg transition ${
+                  selected.includes(predictor.id) ? 'border-teal-500 bg-teal-50' : 'border-slate-200'
+                } ${unavailable ? 'opacity-50' : 'cursor-pointer hover:bg-slate-50'}`}
+              >
+                <input
+                  type="checkbox"
+                  className="mt-1 accent-teal-600"
+                  checked={selected.includes(predictor.id)}
+                  disabled={running || unavailable}
+                  onChange={() => togglePredictor(predictor.id)}
+                />
+                <div>
+                  <p className="font-medium text-slate-800">{predictorName(locale, predictor.id)}</p>
+                  <p className="text-xs text-slate-500 mt-0.5">
+                    {blocked ? t('predictorUnavailable') : unavailable ? t('noApiKey') : predictorDescription(locale, predictor.id)}
+                  </p>
+                </div>
+              </label>
+            );
+          })}
+        </div>
+        <div className="mt-4">
+          <label htmlFor="evaluation-max-rows" className="block text-sm font-medium text-slate-700 mb-1">{t('evaluationMaxRows')}</label>
+          <NumberInput
+            id="evaluation-max-rows"
+            locale={locale}
+            inputMode="numeric"
+            value={maxRows}
+            disabled={running}
+            onChange={(value) => setMaxRows(value === '' || Number.isNaN(value) ? '' : Math.max(1, Math.floor(value)))}
+            placeholder={t('evaluationAllRows')}
+            aria-describedby="evaluation-max-rows-help"
+            className="w-48 rounded-lg border border-slate-300 p-2.5 text-slate-700 outline-none focus:ring-2 focus:ring-teal-500 focus:border-teal-500"
+          />
+          <p id="evaluation-max-rows-help" className="text-slate-400 text-xs mt-1">{t('evaluationMaxRowsHelp')}</p>
+        </div>
+      </section>
+
+      {running ? (
+        <button
+          onClick={() => abortRef.current?.abort()}
+          className="w-full py-3 rounded-xl text-white font-bold bg-slate-500 hover:bg-slate-600 flex items-center justify-center gap-2"
+        >
+          <Square className="w-4 h-4" /> {t('stop')}
+        </button>
+      ) : (
+        <button
+          onClick={handleEvaluate}
+          disabled={!canRun}
+          className={`w-full py-3 rounded-xl text-white font-bold shadow-lg transition ${canRun ? 'bg-teal-600 hover:bg-teal-700' : 'bg-slate-400 cursor-not-allowed'}`}
+        >
+          {t('evaluate')}
+        </button>
+      )}
+
+      {progress && (
+        <div>
+          <div className="flex justify-between text-sm text-slate-600 mb-1">
+            <span>{t('evaluationScoringWith', { name: predictorName(locale, progress.predictorId) })}</span>
+            <span>{progress.completed} / {progress.total}</span>
+          </div>
+          <div className="w-full bg-slate-100 rounded-full h-3 overflow-hidden">
+            <div
+              className="h-full bg-teal-500 transition-all"
+              style={{ width: `${progress.total > 0 ? Math.round((progress.completed / progress.total) * 100) : 0}%` }}
+            ></div>
+          </div>
+        </div>
+      )}
+
+      {error && (
+        <div className="bg-red-50 text-red-600 p-4 rounded-lg flex items-center gap-2">
+          <AlertCircle className="w-5 h-5" />
+          <span>{error}</span>
+        </div>
+      )}
+
+      {reports.length > 0 && (
+        <section className="bg-white rounded-xl shadow-sm border border-slate-100 p-6">
+          <div className="flex items-center gap-2 mb-4 text-teal-700 border-b border-slate-100 pb-2">
+            <BarChart3 className="w-5 h-5" />
+            <h2 className="font-semibold text-lg">{t('evaluationResults')}</h2>
+          </div>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead className="bg-slate-50 text-slate-600">
+                <tr>
+                  <th className="px-3 py-2 text-left font-semibold">{t('evaluationMetric')}</th>
+                  {reports.map(report => (
+                    <th key={report.predictorId} className="px-3 py-2 text-left font-semibold">
+                      <span className="inline-block w-2.5 h-2.5 rounded-full mr-2" style={{ backgroundColor: SERIES_COLORS[report.predictorId as PredictorId] }}></span>
+                      {predictorName(locale, report.predictorId as PredictorId)}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {metricRows.map(row => (
+                  <tr key={row.label} className="border-t border-slate-100">
+                    <td className="px-3 py-2 text-slate-600">{t(row.label)}</td>
+                    {reports.map(report => (
+                      <td key={report.predictorId} className="px-3 py-2 font-semibold text-slate-900">{row.value(report)}</td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <p className="text-xs text-slate-400 mt-2">
+            {fillTemplateParts(t('evaluationFootnote'), { decision: <code>strokePrediction</code> }).map((part, i) => (
+              <React.Fragment key={i}>{part}</React.Fragment>
+            ))}
+          </p>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mt-6">
+            <UnitChart
+              title={t('rocCurve')}
+              xLabel={t('falsePositiveRate')}
+              yLabel={t('truePositiveRate')}
+              locale={locale}
+              series={reports.map(report => ({
+                predictorId: report.predictorId as PredictorId,
+                points: report.metrics.roc.map(p => ({ x: p.falsePositiveRate, y: p.truePositiveRate })),
+              }))}
+            />
+            <UnitChart
+              title={t('calibrationCurve')}
+              xLabel={t('meanPredicted')}
+              yLabel={t('observedRate')}
+              locale={locale}
+              markers
+              series={reports.map(report => ({
+                predictorId: report.predictorId as PredictorId,
+                points: report.metrics.calibration
+                  .filter(bin => bin.count > 0)
+                  .map(bin => ({ x: bin.meanPredicted / 100, y: bin.observedRate / 100 })),
+              }))}
+            />
+          </div>
+        </section>
+      )}
+
+      {consentFor && (
+        <RemoteConsentDialog
+          predictor={PREDICTORS[consentFor]}
+          locale={locale}
+          onAccept={() => {
+            setConsentFor(null);
+            handleEvaluate();
+          }}
+          onCancel={() => setConsentFor(null)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default ModelEvaluation;
@@ -0,0 +1,50 @@
+import React, { useEffect, useState } from 'react';
+import { Locale } from '../types';
+import { formatNumber, parseLocaleNumber } from '../services/i18n';
+
+interface NumberInputProps extends Omit<React.InputHTMLAttributes<HTMLInputElement>, 'value' | 'onChange' | 'type'> {
+  value: number | '' | null;
+  locale: Locale;
+  /** Receives '' when empty and NaN for text that is not a number, so validation can flag it. */
+  onChange: (value: number | '') => void;
+}
+
+const sameValue = (a: number | '', b: number | '' | null) =>
+  a === b || (typeof a === 'number' && typeof b === 'number' && Number.isNaN(a) && Number.isNaN(b));
+
+/**
+ * A text input for numbers written the locale's way, e.g. "28,4" in German. Native number
+ * inputs reject a decimal comma in many browsers, so the typed text is kept as a draft and
+ * parsed on every change.
+ */
+const NumberInput: React.FC<NumberInputProps> = ({ value, locale, onChange, ...inputProps }) => {
+  const format = (number: number | '' | null) =>
+    typeof number === 'number' && Number.isFinite(number) ? formatNumber(locale, number) : '';
+  const [draft, setDraft] = useState(() => format(value));
+
+  // Follow values set from outside, e.g. a unit switch or the BMI calculator, without
+  // rewriting what is being typed ("28," reads as 28 and must stay as it is).
+  useEffect(() => {
+    setDraft(current => (sameValue(parseLocaleNumber(current), value) ? current : format(value)));
+  }, [value]);
+
+  // Rewrite valid numbers in the new locale's notation; leave unreadable text for the user to fix.
+  useEffect(() => {
+    setDraft(current => (Number.isNaN(parseLocaleNumber(current)) ? current : format(value)));
+  }, [locale]);
+
+  return (
+    <input
+      {...inputProps}
+      type="text"
+      inputMode="decimal"
+      value={draft}
+      onChange={(e) => {
+        setDraft(e.target.value);
+        onChange(parseLocaleNumber(e.target.value));
+      }}
+    />
+  );
+};
+
+export default NumberInput;
@@ -0,0 +1,72 @@
+import React, { useState } from 'react';
+import { Locale, PatientRecord } from '../types';
+import { UiMessages, translate } from '../services/i18n';
+import { Plus } from 'lucide-react';
+
+interface PatientPickerProps {
+  patients: PatientRecord[];
+  selectedId: string | null;
+  onSelect: (patientId: string | null) => void;
+  /** Resolves to whether the patient was created; the caller reports failures. */
+  onCreate: (name: string) => Promise<boolean>;
+  disabled?: boolean;
+  locale: Locale;
+}
+
+const PatientPicker: React.FC<PatientPickerProps> = ({ patients, selectedId, onSelect, onCreate, disabled, locale }) => {
+  const [newName, setNewName] = useState('');
+  const t = (key: keyof UiMessages) => translate(locale, key);
+
+  const handleCreate = async () => {
+    if (!newName.trim()) return;
+    if (await onCreate(newName)) setNewName('');
+  };
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+      <div>
+        <label htmlFor="patient-existing" className="block text-sm font-medium text-slate-700 mb-1">{t('existingPatient')}</label>
+        <select
+          id="patient-existing"
+          className="w-full rounded-lg border-slate-300 border p-2.5 text-slate-700 focus:ring-2 focus:ring-teal-500 focus:border-teal-500 outline-none transition bg-white"
+          value={selectedId ?? ''}
+          disabled={disabled}
+          onChange={(e) => onSelect(e.target.value || null)}
+        >
+          <option value="">{t('noPatient')}</option>
+          {patients.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+        </select>
+      </div>
+      <div>
+        <label htmlFor="patient-new" className="block text-sm font-medium text-slate-700 mb-1">{t('newPatient')}</label>
+        <div className="flex gap-2">
+          <input
+            id="patient-new"
+            type="text"
+            className="w-full rounded-lg border border-slate-300 p-2.5 text-slate-700 outline-none transition focus:ring-2 focus:ring-teal-500 focus:border-teal-500 bg-white"
+            value={newName}
+            disabled={disabled}
+            onChange={(e) => setNewName(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleCreate()}
+            placeholder={t('newPatientPlaceholder')}
+          />
+          <button
+            type="button"
+            onClick={handleCreate}
+            disabled={disabled || !newName.trim()}
+            className="px-3 rounded-lg bg-teal-600 text-white hover:bg-teal-700 disabled:bg-slate-300 disabled:cursor-not-allowed"
+            title={t('addPatient')}
+            aria-label={t('addPatient')}
+          >
+            <Plus className="w-5 h-5" />
+          </button>
+        </div>
+      </div>
+      <p className="md:col-span-2 text-xs text-slate-400">
+        {t('patientStorageNote')}
+      </p>
+    </div>
+  );
+};
+
+export default PatientPicker;
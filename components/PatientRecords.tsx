@@ -0,0 +1,185 @@
+import React, { useEffect, useState } from 'react';
+import { Assessment, Locale, PatientRecord } from '../types';
+import { listPatients, listAssessments, deletePatient } from '../services/patientStore';
+import { PREDICTORS } from '../services/predictors';
+import { RISK_LEVEL_STYLES } from '../services/riskPolicy';
+import {
+  CATALOGS,
+  UiMessages,
+  formatNumber,
+  formatPercent,
+  formatValue,
+  predictorName,
+  riskLevelLabel,
+  translate,
+} from '../services/i18n';
+import TrendChart from './TrendChart';
+import { FolderOpen, TrendingUp, Trash2, AlertCircle } from 'lucide-react';
+
+const formatDelta = (locale: Locale, current: number, previous?: number) => {
+  if (previous === undefined) return null;
+  const delta = Math.round((current - previous) * 10) / 10;
+  if (delta === 0) return <span className="text-slate-400 text-xs ml-1">±0</span>;
+  return (
+    <span className={`text-xs ml-1 ${delta > 0 ? 'text-red-500' : 'text-green-600'}`}>
+      {delta > 0 ? '+' : ''}{formatNumber(locale, delta, 1)}
+    </span>
+  );
+};
+
+const changedClass = (changed: boolean) => (changed ? 'font-semibold text-teal-700' : 'text-slate-700');
+
+const PatientRecords: React.FC<{ locale: Locale }> = ({ locale }) => {
+  const [patients, setPatients] = useState<PatientRecord[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [assessments, setAssessments] = useState<Assessment[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const t = (key: keyof UiMessages, values?: Record<string, string | number>) => translate(locale, key, values);
+  const { intlLocale } = CATALOGS[locale];
+
+  useEffect(() => {
+    listPatients()
+      .then(setPatients)
+      .catch(() => setError(t('recordsLoadFailed')));
+  }, []);
+
+  useEffect(() => {
+    if (!selectedId) {
+      setAssessments([]);
+      return;
+    }
+    listAssessments(selectedId)
+      .then(setAssessments)
+      .catch(() => setError(t('recordsAssessmentsFailed')));
+  }, [selectedId]);
+
+  const handleDelete = async (patient: PatientRecord) => {
+    if (!window.confirm(t('deletePatientConfirm', { name: patient.name }))) return;
+    try {
+      await deletePatient(patient.id);
+    } catch {
+      setError(t('deletePatientFailed', { name: patient.name }));
+      return;
+    }
+    setPatients(prev => prev.filter(p => p.id !== patient.id));
+    setSelectedId(null);
+  };
+
+  const selected = patients.find(p => p.id === selectedId);
+
+  return (
+    <div className="w-full max-w-5xl grid grid-cols-1 lg:grid-cols-3 gap-8">
+      <section className="bg-white rounded-xl shadow-sm border border-slate-100 p-6 lg:col-span-1 h-fit">
+        <div className="flex items-center gap-2 mb-4 text-teal-700 border-b border-slate-100 pb-2">
+          <FolderOpen className="w-5 h-5" />
+          <h2 className="font-semibold text-lg">{t('patients')}</h2>
+        </div>
+        {patients.length === 0 ? (
+          <p className="text-sm text-slate-400">{t('noPatients')}</p>
+        ) : (
+          <ul className="space-y-1">
+            {patients.map(p => (
+              <li key={p.id}>
+                <button
+                  type="button"
+                  onClick={() => setSelectedId(p.id)}
+                  className={`w-full text-left px-3 py-2 rounded-lg text-sm transition ${p.id === selectedId ? 'bg-teal-50 text-teal-800 font-semibold' : 'text-slate-700 hover:bg-slate-50'}`}
+                >
+                  {p.name}
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+
+      <section className="bg-white rounded-xl shadow-sm border border-slate-100 p-6 lg:col-span-2">
+        {error && (
+          <div className="bg-red-50 text-red-600 p-4 rounded-lg flex items-center gap-2 mb-4">
+            <AlertCircle className="w-5 h-5" />
+            <span>{error}</span>
+          </div>
+        )}
+
+        {!selected ? (
+          <div className="text-center py-16">
+            <TrendingUp className="w-12 h-12 text-slate-300 mx-auto mb-3" />
+            <p className="text-slate-400 text-sm">{t('selectPatient')}</p>
+          </div>
+        ) : (
+          <div className="space-y-6">
+            <div className="flex items-start justify-between border-b border-slate-100 pb-2">
+              <div>
+                <h2 className="font-semibold text-lg text-teal-700">{selected.name}</h2>
+                <p className="text-xs text-slate-400">
+                  {t('patientAdded', { date: new Date(selected.createdAt).toLocaleDateString(intlLocale), count: assessments.length })}
+                </p>
+              </div>
+              <button
+                type="button"
+                onClick={() => handleDelete(selected)}
+                className="text-slate-400 hover:text-red-600 p-1"
+                title={t('deletePatient')}
+              >
+                <Trash2 className="w-5 h-5" />
+              </button>
+            </div>
+
+            {assessments.length === 0 ? (
+              <p className="text-sm text-slate-400">{t('noAssessments')}</p>
+            ) : (
+              <>
+                <TrendChart assessments={assessments} locale={locale} />
+
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead className="bg-slate-50 text-slate-600">
+                      <tr>
+                        <th className="px-3 py-2 text-left font-semibold">{t('recordsDate')}</th>
+                        <th className="px-3 py-2 text-left font-semibold">{t('recordsEngine')}</th>
+                        <th className="px-3 py-2 text-left font-semibold">{t('recordsGlucose')}</th>
+                        <th className="px-3 py-2 text-left font-semibold">{t('recordsBmi')}</th>
+                        <th className="px-3 py-2 text-left font-semibold">{t('recordsSmoking')}</th>
+                        <th className="px-3 py-2 text-left font-semibold">{t('probability')}</th>
+                        <th className="px-3 py-2 text-left font-semibold">{t('riskLevel')}</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {[...assessments].reverse().map((a, i, visits) => {
+                        const previous = visits[i + 1];
+                        return (
+                          <tr key={a.id} className="border-t border-slate-100">
+                            <td className="px-3 py-2 text-slate-500">{new Date(a.timestamp).toLocaleString(intlLocale)}</td>
+                            <td className="px-3 py-2 text-slate-500">{PREDICTORS[a.predictorId] ? predictorName(locale, a.predictorId) : a.predictorId}</td>
+                            <td className={`px-3 py-2 ${changedClass(!!previous && previous.input.avgGlucoseLevel !== a.input.avgGlucoseLevel)}`}>
+                              {formatValue(locale, 'avgGlucoseLevel', a.input.avgGlucoseLevel)}
+                            </td>
+                            <td className={`px-3 py-2 ${changedClass(!!previous && previous.input.bmi !== a.input.bmi)}`}>
+                              {formatValue(locale, 'bmi', a.input.bmi)}
+                            </td>
+                            <td className={`px-3 py-2 ${changedClass(!!previous && previous.input.smokingStatus !== a.input.smokingStatus)}`}>
+                              {formatValue(locale, 'smokingStatus', a.input.smokingStatus)}
+                            </td>
+                            <td className="px-3 py-2 font-semibold text-slate-900">
+                              {formatPercent(locale, a.result.probability)}{formatDelta(locale, a.result.probability, previous?.result.probability)}
+                            </td>
+                            <td className={`px-3 py-2 font-semibold ${RISK_LEVEL_STYLES[a.result.riskLevel].textClass}`}>
+                              {riskLevelLabel(locale, a.result.riskLevel)}
+                            </td>
+                          </tr>
+                        );
+                      })}
+                    </tbody>
+                  </table>
+                </div>
+                <p className="text-xs text-slate-400">{t('recordsChanged')}</p>
+              </>
+            )}
+          </div>
+        )}
+      </section>
+    </div>
+  );
+};
+
+export default PatientRecords;
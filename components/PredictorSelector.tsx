@@ -0,0 +1,44 @@
+import React from 'react';
+import { Locale, PredictorId } from '../types';
+import { PREDICTORS } from '../services/predictors';
+import { loadPrivacyPolicy } from '../services/privacy';
+import { predictorDescription, predictorName, translate } from '../services/i18n';
+import { CheckCircle } from 'lucide-react';
+
+interface PredictorSelectorProps {
+  value: PredictorId;
+  onChange: (id: PredictorId) => void;
+  disabled?: boolean;
+  locale: Locale;
+}
+
+const PredictorSelector: React.FC<PredictorSelectorProps> = ({ value, onChange, disabled, locale }) => {
+  const { localOnly } = loadPrivacyPolicy();
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+      {Object.values(PREDICTORS).map(p => {
+        const blocked = localOnly && p.requiresNetwork;
+        const selected = value === p.id;
+        return (
+          <button
+            key={p.id}
+            type="button"
+            aria-pressed={selected}
+            disabled={disabled || blocked}
+            onClick={() => onChange(p.id)}
+            className={`text-left p-4 border rounded-lg transition disabled:opacity-60 disabled:cursor-not-allowed ${selected ? 'border-teal-500 bg-teal-50 ring-2 ring-teal-200' : 'border-slate-200 hover:bg-slate-50'}`}
+          >
+            <p className="flex items-center justify-between gap-2 text-sm font-semibold text-slate-700">
+              {predictorName(locale, p.id)}
+              {selected && <CheckCircle className="w-4 h-4 text-teal-600" />}
+            </p>
+            <p className="text-xs text-slate-500 mt-1">{predictorDescription(locale, p.id)}</p>
+            {blocked && <p className="text-xs text-slate-500 mt-1">{translate(locale, 'predictorUnavailable')}</p>}
+          </button>
+        );
+      })}
+    </div>
+  );
+};
+
+export default PredictorSelector;
@@ -0,0 +1,173 @@
+import React, { useState } from 'react';
+import { Locale } from '../types';
+import {
+  PrivacyPolicy,
+  AuditEntry,
+  AGE_BAND_OPTIONS,
+  MAX_AUDIT_ENTRIES,
+  loadPrivacyPolicy,
+  savePrivacyPolicy,
+  hasRemoteConsent,
+  grantRemoteConsent,
+  revokeRemoteConsent,
+  listAuditLog,
+  clearAuditLog,
+} from '../services/privacy';
+import { downloadFile } from '../services/download';
+import { CATALOGS, UiMessages, formatNumber, translate } from '../services/i18n';
+import Switch from './Switch';
+import { ShieldCheck, ScrollText, Download, Trash2 } from 'lucide-react';
+
+const PrivacySettings: React.FC<{ locale: Locale }> = ({ locale }) => {
+  const [policy, setPolicy] = useState<PrivacyPolicy>(loadPrivacyPolicy);
+  const [consent, setConsent] = useState(hasRemoteConsent);
+  const [auditLog, setAuditLog] = useState<AuditEntry[]>(listAuditLog);
+  const t = (key: keyof UiMessages, values?: Record<string, string | number>) => translate(locale, key, values);
+
+  const updatePolicy = (changes: Partial<PrivacyPolicy>) => {
+    const next = { ...policy, ...changes };
+    savePrivacyPolicy(next);
+    setPolicy(next);
+  };
+
+  const handleConsent = (granted: boolean) => {
+    if (granted) {
+      grantRemoteConsent();
+    } else {
+      revokeRemoteConsent();
+    }
+    setConsent(granted);
+  };
+
+  const handleClearLog = () => {
+    if (!window.confirm(t('clearLogConfirm'))) return;
+    clearAuditLog();
+    setAuditLog([]);
+  };
+
+  const handleExportLog = () => {
+    downloadFile(
+      `remote-audit-${new Date().toISOString().slice(0, 10)}.json`,
+      JSON.stringify(auditLog, null, 2),
+      'application/json'
+    );
+  };
+
+  // Newest first.
+  const entries = [...auditLog].reverse();
+
+  return (
+    <div className="w-full max-w-3xl space-y-6">
+      <section className="bg-white rounded-xl shadow-sm border border-slate-100 p-6">
+        <div className="flex items-center gap-2 mb-4 text-teal-700 border-b border-slate-100 pb-2">
+          <ShieldCheck className="w-5 h-5" />
+          <h2 className="font-semibold text-lg">{t('viewPrivacy')}</h2>
+        </div>
+        <p className="text-sm text-slate-500 mb-6">{t('privacyIntro')}</p>
+
+        <div className="space-y-4">
+          <Switch
+            id="privacy-local-only"
+            label={t('localOnly')}
+            description={t('localOnlyHelp')}
+            checked={policy.localOnly}
+            onChange={(localOnly) => updatePolicy({ localOnly })}
+          />
+
+          <div>
+            <label htmlFor="privacy-age-band" className="block text-sm font-medium text-slate-700 mb-1">{t('ageSent')}</label>
+            <select
+              id="privacy-age-band"
+              aria-describedby="privacy-age-band-help"
+              className="w-full rounded-lg border border-slate-300 p-2.5 text-slate-700 outline-none transition focus:ring-2 focus:ring-teal-500 focus:border-teal-500 bg-white"
+              value={policy.ageBandYears}
+              onChange={(e) => updatePolicy({ ageBandYears: Number(e.target.value) })}
+            >
+              {AGE_BAND_OPTIONS.map(years => (
+                <option key={years} value={years}>{years === 0 ? t('exactAge') : t('ageBands', { years: formatNumber(locale, years) })}</option>
+              ))}
+            </select>
+            <p id="privacy-age-band-help" className="text-slate-500 text-xs mt-1">{t('ageBandsHelp')}</p>
+          </div>
+
+          <div className="flex items-center justify-between p-4 border border-slate-200 rounded-lg">
+            <div>
+              <p className="text-sm font-medium text-slate-700">{t('sessionConsent')}</p>
+              <p className="text-slate-400 text-xs mt-0.5">
+                {consent ? t('consentGiven') : t('consentNotGiven')}
+              </p>
+            </div>
+            <button
+              type="button"
+              disabled={policy.localOnly && !consent}
+              onClick={() => handleConsent(!consent)}
+              className="px-4 py-2 rounded-lg text-sm font-medium border border-teal-600 text-teal-700 hover:bg-teal-50 transition disabled:opacity-50"
+            >
+              {consent ? t('withdrawConsent') : t('giveConsent')}
+            </button>
+          </div>
+        </div>
+      </section>
+
+      <section className="bg-white rounded-xl shadow-sm border border-slate-100 p-6">
+        <div className="flex items-center justify-between gap-2 mb-4 border-b border-slate-100 pb-2">
+          <div className="flex items-center gap-2 text-teal-700">
+            <ScrollText className="w-5 h-5" />
+            <h2 className="font-semibold text-lg">{t('auditLog')}</h2>
+          </div>
+          <div className="flex gap-2">
+            <button
+              type="button"
+              disabled={auditLog.length === 0}
+              onClick={handleExportLog}
+              className="flex items-center gap-1 px-3 py-1.5 rounded-lg text-xs font-medium border border-slate-300 text-slate-600 hover:bg-slate-50 disabled:opacity-50"
+            >
+              <Download className="w-3.5 h-3.5" /> {t('exportLog')}
+            </button>
+            <button
+              type="button"
+              disabled={auditLog.length === 0}
+              onClick={handleClearLog}
+              className="flex items-center gap-1 px-3 py-1.5 rounded-lg text-xs font-medium border border-red-300 text-red-600 hover:bg-red-50 disabled:opacity-50"
+            >
+              <Trash2 className="w-3.5 h-3.5" /> {t('clearLog')}
+            </button>
+          </div>
+        </div>
+        <p className="text-sm text-slate-500 mb-4">{t('auditIntro', { count: MAX_AUDIT_ENTRIES })}</p>
+
+        {entries.length === 0 ? (
+          <p className="text-sm text-slate-400">{t('auditEmpty')}</p>
+        ) : (
+          <div className="overflow-x-auto max-h-96">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-slate-500 border-b border-slate-200">
+                  <th className="px-3 py-2 font-medium">{t('auditTime')}</th>
+                  <th className="px-3 py-2 font-medium">{t('auditModel')}</th>
+                  <th className="px-3 py-2 font-medium">{t('auditPayload')}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {entries.map((entry, index) => (
+                  <tr key={`${entry.timestamp}-${index}`} className="border-b border-slate-100 align-top">
+                    <td className="px-3 py-2 text-slate-600 whitespace-nowrap">{new Date(entry.timestamp).toLocaleString(CATALOGS[locale].intlLocale)}</td>
+                    <td className="px-3 py-2 text-slate-600 font-mono text-xs">{entry.modelId}</td>
+                    <td className="px-3 py-2">
+                      <details>
+                        <summary className="cursor-pointer text-xs text-slate-500">{t('auditFields', { count: Object.keys(entry.payload).length })}</summary>
+                        <pre className="mt-1 text-xs text-slate-600 whitespace-pre-wrap">{JSON.stringify(entry.payload, null, 2)}</pre>
+                      </details>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </section>
+    </div>
+  );
+};
+
+export default PrivacySettings;
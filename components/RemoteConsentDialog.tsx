@@ -0,0 +1,87 @@
+import React, { useState } from 'react';
+import { Locale, Predictor } from '../types';
+import { RemotePatientData, REMOTE_FIELDS, loadPrivacyPolicy, grantRemoteConsent } from '../services/privacy';
+import { fieldLabel, fillTemplateParts, formatValue, predictorName, translate } from '../services/i18n';
+import { ShieldCheck } from 'lucide-react';
+
+interface RemoteConsentDialogProps {
+  predictor: Predictor;
+  /** The payload that is about to be sent, when a single patient is being scored. */
+  preview?: RemotePatientData;
+  locale: Locale;
+  onAccept: () => void;
+  onCancel: () => void;
+}
+
+const RemoteConsentDialog: React.FC<RemoteConsentDialogProps> = ({ predictor, preview, locale, onAccept, onCancel }) => {
+  const [acknowledged, setAcknowledged] = useState(false);
+  const { ageBandYears } = loadPrivacyPolicy();
+  const name = predictorName(locale, predictor.id);
+
+  const handleAccept = () => {
+    grantRemoteConsent();
+    onAccept();
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/50 p-4">
+      <div role="dialog" aria-modal="true" aria-labelledby="remote-consent-title" className="bg-white rounded-xl shadow-xl max-w-lg w-full p-6">
+        <div className="flex items-center gap-2 mb-4 text-teal-700">
+          <ShieldCheck className="w-5 h-5" />
+          <h2 id="remote-consent-title" className="font-semibold text-lg">{translate(locale, 'consentTitle', { name })}</h2>
+        </div>
+        <div className="text-sm text-slate-600 space-y-3">
+          <p>
+            {fillTemplateParts(translate(locale, 'consentIntro', { name }), {
+              modelId: <span className="font-mono text-xs">{predictor.modelId}</span>,
+            }).map((part, i) => <React.Fragment key={i}>{part}</React.Fragment>)}
+          </p>
+          {preview ? (
+            <ul className="border border-slate-200 rounded-lg p-3 text-xs grid grid-cols-2 gap-x-4 gap-y-1">
+              {(Object.keys(preview) as (keyof RemotePatientData)[]).map(field => (
+                <li key={field} className="flex justify-between gap-2">
+                  <span className="text-slate-500">{fieldLabel(locale, field)}</span>
+                  <span className="font-medium text-slate-700">{formatValue(locale, field, preview[field])}</span>
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="text-xs text-slate-500">{REMOTE_FIELDS.map(field => fieldLabel(locale, field)).join(', ')}.</p>
+          )}
+          <p className="text-xs text-slate-500">
+            {ageBandYears > 0 ? `${translate(locale, 'consentAgeBands', { years: ageBandYears })} ` : ''}
+            {translate(locale, 'consentAudit')}
+          </p>
+          <label className="flex items-start gap-2 cursor-pointer">
+            <input
+              type="checkbox"
+              className="mt-0.5"
+              checked={acknowledged}
+              onChange={(e) => setAcknowledged(e.target.checked)}
+            />
+            <span>{translate(locale, 'consentConfirm', { name })}</span>
+          </label>
+        </div>
+        <div className="flex justify-end gap-3 mt-6">
+          <button
+            type="button"
+            onClick={onCancel}
+            className="px-4 py-2 rounded-lg text-sm font-medium border border-slate-300 text-slate-600 hover:bg-slate-50"
+          >
+            {translate(locale, 'cancel')}
+          </button>
+          <button
+            type="button"
+            disabled={!acknowledged}
+            onClick={handleAccept}
+            className="px-4 py-2 rounded-lg text-sm font-medium text-white bg-teal-600 hover:bg-teal-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {translate(locale, 'consentAccept')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RemoteConsentDialog;
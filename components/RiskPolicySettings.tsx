@@ -0,0 +1,169 @@
+import React, { useState } from 'react';
+import { Locale } from '../types';
+import {
+  RiskPolicy,
+  RiskPolicyErrors,
+  DEFAULT_RISK_POLICY,
+  RISK_LEVEL_STYLES,
+  validateRiskPolicy,
+  loadRiskPolicy,
+  saveRiskPolicy,
+  resetRiskPolicy,
+} from '../services/riskPolicy';
+import { UiMessages, formatPercent, riskLevelLabel, translate } from '../services/i18n';
+import NumberInput from './NumberInput';
+import { SlidersHorizontal, RotateCcw, CheckCircle } from 'lucide-react';
+
+type PolicyDraft = Record<keyof RiskPolicy, number | ''>;
+
+const FIELDS: { key: keyof RiskPolicy; label: keyof UiMessages; helpText: keyof UiMessages }[] = [
+  { key: 'moderateThreshold', label: 'policyModerateLabel', helpText: 'policyModerateHelp' },
+  { key: 'highThreshold', label: 'policyHighLabel', helpText: 'policyHighHelp' },
+  { key: 'decisionThreshold', label: 'policyDecisionLabel', helpText: 'policyDecisionHelp' },
+];
+
+const inputClass = (hasError: boolean) => {
+  const baseClass = "w-full rounded-lg border p-2.5 pr-8 text-slate-700 outline-none transition focus:ring-2 focus:ring-teal-500 bg-white";
+  return hasError
+    ? `${baseClass} border-red-500 focus:border-red-500 focus:ring-red-200`
+    : `${baseClass} border-slate-300 focus:border-teal-500`;
+};
+
+const RiskPolicySettings: React.FC<{ locale: Locale }> = ({ locale }) => {
+  const [policy, setPolicy] = useState<RiskPolicy>(loadRiskPolicy);
+  const [draft, setDraft] = useState<PolicyDraft>(policy);
+  const [errors, setErrors] = useState<RiskPolicyErrors>({});
+  const [saved, setSaved] = useState(false);
+  const t = (key: keyof UiMessages, values?: Record<string, string | number>) => translate(locale, key, values);
+  const percent = (value: number) => formatPercent(locale, value);
+
+  const handleChange = (key: keyof RiskPolicy, value: number | '') => {
+    setDraft(prev => ({ ...prev, [key]: value }));
+    setErrors(prev => ({ ...prev, [key]: undefined }));
+    setSaved(false);
+  };
+
+  const handleSave = () => {
+    const candidate = draft as RiskPolicy;
+    const validation = validateRiskPolicy(candidate, locale);
+    setErrors(validation);
+    if (Object.keys(validation).length > 0) return;
+    saveRiskPolicy(candidate);
+    setPolicy(candidate);
+    setSaved(true);
+  };
+
+  const handleReset = () => {
+    setDraft(DEFAULT_RISK_POLICY);
+    setErrors({});
+    resetRiskPolicy();
+    setPolicy(DEFAULT_RISK_POLICY);
+    setSaved(true);
+  };
+
+  // The preview follows the draft while it is consistent, and the saved policy otherwise.
+  const preview = Object.keys(validateRiskPolicy(draft as RiskPolicy)).length === 0 ? (draft as RiskPolicy) : policy;
+  const bands = [
+    { level: 'Low Risk' as const, from: 0, to: preview.moderateThreshold },
+    { level: 'Moderate Risk' as const, from: preview.moderateThreshold, to: preview.highThreshold },
+    { level: 'High Risk' as const, from: preview.highThreshold, to: 100 },
+  ];
+
+  return (
+    <div className="w-full max-w-3xl space-y-6">
+      <section className="bg-white rounded-xl shadow-sm border border-slate-100 p-6">
+        <div className="flex items-center gap-2 mb-4 text-teal-700 border-b border-slate-100 pb-2">
+          <SlidersHorizontal className="w-5 h-5" />
+          <h2 className="font-semibold text-lg">{t('viewSettings')}</h2>
+        </div>
+        <p className="text-sm text-slate-500 mb-6">{t('policyIntro')}</p>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+          {FIELDS.map(field => (
+            <div key={field.key}>
+              <label htmlFor={`policy-${field.key}`} className="block text-sm font-medium text-slate-700 mb-1">{t(field.label)}</label>
+              <div className="relative">
+                <NumberInput
+                  id={`policy-${field.key}`}
+                  locale={locale}
+                  value={draft[field.key]}
+                  onChange={(value) => handleChange(field.key, value)}
+                  aria-describedby={`policy-${field.key}-help`}
+                  aria-invalid={!!errors[field.key]}
+                  className={inputClass(!!errors[field.key])}
+                />
+                <span className="absolute right-3 top-1/2 -translate-y-1/2 text-sm text-slate-400">%</span>
+              </div>
+              <p id={`policy-${field.key}-help`} className="text-slate-400 text-xs mt-1">{t(field.helpText)}</p>
+              {errors[field.key] && <p className="text-red-500 text-xs mt-1">{errors[field.key]}</p>}
+            </div>
+          ))}
+        </div>
+
+        <div className="mt-8">
+          <p className="text-sm font-medium text-slate-600 mb-2">{t('policyPreview')}</p>
+          <div className="relative">
+            <div className="flex w-full h-4 rounded-full overflow-hidden">
+              {bands.map(band => (
+                <div
+                  key={band.level}
+                  className={RISK_LEVEL_STYLES[band.level].barClass}
+                  style={{ width: `${band.to - band.from}%` }}
+                  title={`${riskLevelLabel(locale, band.level)}: ${percent(band.from)}–${percent(band.to)}`}
+                ></div>
+              ))}
+            </div>
+            <div
+              className="absolute -top-1 h-6 w-0.5 bg-slate-900"
+              style={{ left: `${preview.decisionThreshold}%` }}
+              title={t('policyMarker', { threshold: percent(preview.decisionThreshold) })}
+            ></div>
+          </div>
+          <div className="flex justify-between text-xs text-slate-400 mt-1">
+            <span>{percent(0)}</span>
+            <span>{percent(100)}</span>
+          </div>
+          <ul className="text-xs text-slate-500 mt-2 space-y-0.5">
+            {bands.map(band => (
+              <li key={band.level}>
+                <span className={`font-semibold ${RISK_LEVEL_STYLES[band.level].textClass}`}>{riskLevelLabel(locale, band.level)}</span>
+                {': '}
+                {band.level === 'High Risk'
+                  ? t('policyBandTop', { from: percent(band.from) })
+                  : t('policyBand', { from: percent(band.from), to: percent(band.to) })}
+              </li>
+            ))}
+            <li>
+              <span className="font-semibold text-slate-700">{t('strokeYes')}</span>: {t('policyDecision', { threshold: percent(preview.decisionThreshold) })}
+            </li>
+          </ul>
+        </div>
+      </section>
+
+      <div className="flex flex-col md:flex-row gap-4 items-center">
+        <button
+          type="button"
+          onClick={handleSave}
+          className="flex-1 w-full py-3 rounded-xl text-white font-bold shadow-lg transition bg-teal-600 hover:bg-teal-700"
+        >
+          {t('savePolicy')}
+        </button>
+        <button
+          type="button"
+          onClick={handleReset}
+          className="w-full md:w-auto py-3 px-6 rounded-xl font-bold border border-slate-300 text-slate-600 hover:bg-slate-50 flex items-center justify-center gap-2"
+        >
+          <RotateCcw className="w-4 h-4" /> {t('restoreDefaults')}
+        </button>
+      </div>
+
+      {saved && (
+        <p className="text-sm text-teal-600 flex items-center gap-2">
+          <CheckCircle className="w-4 h-4" /> {t('policySaved')}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default RiskPolicySettings;
@@ -0,0 +1,271 @@
+import React, { useState } from 'react';
+import { Locale, PatientData, PredictionResult, PredictorId, SmokingStatus } from '../types';
+import { getPredictor } from '../services/predictors';
+import {
+  Scenario,
+  ScenarioChanges,
+  ScenarioOutcome,
+  ModifiableField,
+  applyScenario,
+  scenarioName,
+  suggestScenarios,
+  runScenarios,
+} from '../services/scenarios';
+import { FIELD_SCHEMA, NumberFieldSchema, SelectedUnits, getUnit, toSelectedUnits } from '../formSchema';
+import { validatePatientData, isValid } from '../services/validation';
+import { describePredictionError } from '../services/errors';
+import { RISK_LEVEL_STYLES } from '../services/riskPolicy';
+import {
+  UiMessages,
+  fieldLabel,
+  formatNumber,
+  formatPercent,
+  formatValue,
+  optionLabel,
+  riskLevelLabel,
+  translate,
+} from '../services/i18n';
+import NumberInput from './NumberInput';
+import { FlaskConical, Plus, X, AlertCircle } from 'lucide-react';
+
+interface ScenarioSimulatorProps {
+  baseline: PatientData;
+  baselineResult: PredictionResult;
+  predictorId: PredictorId;
+  /** Units selected on the form; the baseline and scenario changes themselves are canonical. */
+  units: SelectedUnits;
+  locale: Locale;
+}
+
+const riskClass = (riskLevel: PredictionResult['riskLevel']) => RISK_LEVEL_STYLES[riskLevel].textClass;
+
+const GLUCOSE_FIELD = FIELD_SCHEMA.find((field): field is NumberFieldSchema => field.key === 'avgGlucoseLevel' && field.type === 'number')!;
+
+const cellInputClass = "w-full rounded border border-slate-300 p-1.5 text-sm text-slate-700 outline-none focus:ring-2 focus:ring-teal-500 bg-white";
+
+const ScenarioSimulator: React.FC<ScenarioSimulatorProps> = ({ baseline, baselineResult, predictorId, units, locale }) => {
+  const [scenarios, setScenarios] = useState<Scenario[]>(() => suggestScenarios(baseline));
+  const [outcomes, setOutcomes] = useState<Record<string, ScenarioOutcome>>({});
+  const [running, setRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const t = (key: keyof UiMessages, values?: Record<string, string | number>) => translate(locale, key, values);
+
+  const updateScenario = (id: string, field: ModifiableField, value: ScenarioChanges[ModifiableField]) => {
+    setScenarios(prev => prev.map(s => (s.id === id ? { ...s, changes: { ...s.changes, [field]: value } } : s)));
+    setOutcomes(prev => {
+      const { [id]: _stale, ...rest } = prev;
+      return rest;
+    });
+  };
+
+  const addScenario = () => {
+    const id = crypto.randomUUID();
+    setScenarios(prev => [...prev, { id, kind: 'custom', number: prev.length + 1, changes: {} }]);
+  };
+
+  const removeScenario = (id: string) => {
+    setScenarios(prev => prev.filter(s => s.id !== id));
+  };
+
+  const invalidScenarios = scenarios
+    .map(s => ({ scenario: s, errors: validatePatientData(toSelectedUnits(applyScenario(baseline, s), units), { units, locale }) }))
+    .filter(({ errors }) => !isValid(errors));
+
+  const handleCompare = async () => {
+    setError(null);
+    setRunning(true);
+    try {
+      const results = await runScenarios(baseline, baselineResult, scenarios, getPredictor(predictorId));
+      setOutcomes(Object.fromEntries(results.map(o => [o.scenario.id, o])));
+    } catch (err) {
+      setError(describePredictionError(err, locale));
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const smokingLabel = fieldLabel(locale, 'smokingStatus');
+  const bmiLabel = fieldLabel(locale, 'bmi');
+  const glucoseUnit = getUnit(GLUCOSE_FIELD, units);
+  const glucoseLabel = `${fieldLabel(locale, 'avgGlucoseLevel')} (${glucoseUnit.unit})`;
+  const glucoseInUnit = (value: PatientData['avgGlucoseLevel']) => (typeof value === 'number' ? glucoseUnit.fromCanonical(value) : value);
+  const hypertensionLabel = fieldLabel(locale, 'hypertension');
+
+  const rowLabel = (label: string) => (
+    <th className="px-3 py-2 text-left text-xs font-semibold text-slate-500 uppercase tracking-wide whitespace-nowrap">{label}</th>
+  );
+
+  return (
+    <section className="bg-white rounded-xl shadow-sm border border-slate-100 p-6">
+      <div className="flex items-center justify-between mb-4 text-teal-700 border-b border-slate-100 pb-2">
+        <div className="flex items-center gap-2">
+          <FlaskConical className="w-5 h-5" />
+          <h2 className="font-semibold text-lg">{t('scenarios')}</h2>
+        </div>
+        <button
+          type="button"
+          onClick={addScenario}
+          disabled={running}
+          className="flex items-center gap-1 text-sm font-medium text-teal-700 hover:text-teal-900 disabled:opacity-50"
+        >
+          <Plus className="w-4 h-4" /> {t('addScenario')}
+        </button>
+      </div>
+
+      {scenarios.length === 0 ? (
+        <p className="text-sm text-slate-400">{t('noScenarios')}</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b border-slate-100">
+                <th></th>
+                <th className="px-3 py-2 text-left font-semibold text-slate-700">{t('baseline')}</th>
+                {scenarios.map(s => (
+                  <th key={s.id} className="px-3 py-2 text-left font-semibold text-slate-700 min-w-[140px]">
+                    <div className="flex items-center justify-between gap-2">
+                      <span>{scenarioName(s, locale)}</span>
+                      <button type="button" onClick={() => removeScenario(s.id)} className="text-slate-300 hover:text-red-500" title={t('removeScenario')}>
+                        <X className="w-4 h-4" />
+                      </button>
+                    </div>
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              <tr>
+                {rowLabel(smokingLabel)}
+                <td className="px-3 py-2 text-slate-700">{formatValue(locale, 'smokingStatus', baseline.smokingStatus)}</td>
+                {scenarios.map(s => (
+                  <td key={s.id} className="px-3 py-2">
+                    <select
+                      aria-label={`${smokingLabel}, ${scenarioName(s, locale)}`}
+                      className={cellInputClass}
+                      value={applyScenario(baseline, s).smokingStatus}
+                      onChange={(e) => updateScenario(s.id, 'smokingStatus', e.target.value as SmokingStatus)}
+                    >
+                      {Object.values(SmokingStatus).map(v => <option key={v} value={v}>{optionLabel(locale, 'smokingStatus', v)}</option>)}
+                    </select>
+                  </td>
+                ))}
+              </tr>
+              <tr>
+                {rowLabel(bmiLabel)}
+                <td className="px-3 py-2 text-slate-700">{formatValue(locale, 'bmi', baseline.bmi)}</td>
+                {scenarios.map(s => (
+                  <td key={s.id} className="px-3 py-2">
+                    <NumberInput
+                      locale={locale}
+                      aria-label={`${bmiLabel}, ${scenarioName(s, locale)}`}
+                      className={cellInputClass}
+                      value={applyScenario(baseline, s).bmi}
+                      onChange={(bmi) => updateScenario(s.id, 'bmi', bmi)}
+                    />
+                  </td>
+                ))}
+              </tr>
+              <tr>
+                {rowLabel(glucoseLabel)}
+                <td className="px-3 py-2 text-slate-700">
+                  {typeof baseline.avgGlucoseLevel === 'number'
+                    ? `${formatNumber(locale, glucoseUnit.fromCanonical(baseline.avgGlucoseLevel))} ${glucoseUnit.unit}`
+                    : formatValue(locale, 'avgGlucoseLevel', baseline.avgGlucoseLevel)}
+                </td>
+                {scenarios.map(s => (
+                  <td key={s.id} className="px-3 py-2">
+                    <NumberInput
+                      locale={locale}
+                      aria-label={`${glucoseLabel}, ${scenarioName(s, locale)}`}
+                      className={cellInputClass}
+                      value={glucoseInUnit(applyScenario(baseline, s).avgGlucoseLevel)}
+                      onChange={(glucose) => updateScenario(s.id, 'avgGlucoseLevel', glucose === '' ? '' : glucoseUnit.toCanonical(glucose))}
+                    />
+                  </td>
+                ))}
+              </tr>
+              <tr>
+                {rowLabel(hypertensionLabel)}
+                <td className="px-3 py-2 text-slate-700">{formatValue(locale, 'hypertension', baseline.hypertension)}</td>
+                {scenarios.map(s => (
+                  <td key={s.id} className="px-3 py-2">
+                    <select
+                      aria-label={`${hypertensionLabel}, ${scenarioName(s, locale)}`}
+                      className={cellInputClass}
+                      value={applyScenario(baseline, s).hypertension ? 'Yes' : 'No'}
+                      onChange={(e) => updateScenario(s.id, 'hypertension', e.target.value === 'Yes')}
+                    >
+                      <option value="Yes">{t('yes')}</option>
+                      <option value="No">{t('no')}</option>
+                    </select>
+                  </td>
+                ))}
+              </tr>
+              <tr className="border-t border-slate-100">
+                {rowLabel(t('probability'))}
+                <td className="px-3 py-2 font-bold text-slate-900">{formatPercent(locale, baselineResult.probability)}</td>
+                {scenarios.map(s => {
+                  const outcome = outcomes[s.id];
+                  return (
+                    <td key={s.id} className="px-3 py-2">
+                      {outcome ? (
+                        <>
+                          <span className="font-bold text-slate-900">{formatPercent(locale, outcome.result.probability)}</span>
+                          <span className={`ml-2 text-xs font-semibold ${outcome.delta > 0 ? 'text-red-600' : outcome.delta < 0 ? 'text-green-600' : 'text-slate-400'}`}>
+                            {t('points', { points: `${outcome.delta > 0 ? '+' : ''}${formatNumber(locale, outcome.delta, 1)}` })}
+                          </span>
+                        </>
+                      ) : (
+                        <span className="text-slate-300">—</span>
+                      )}
+                    </td>
+                  );
+                })}
+              </tr>
+              <tr>
+                {rowLabel(t('riskLevel'))}
+                <td className={`px-3 py-2 font-semibold ${riskClass(baselineResult.riskLevel)}`}>
+                  {riskLevelLabel(locale, baselineResult.riskLevel)}
+                </td>
+                {scenarios.map(s => {
+                  const outcome = outcomes[s.id];
+                  return (
+                    <td key={s.id} className={`px-3 py-2 font-semibold ${outcome ? riskClass(outcome.result.riskLevel) : 'text-slate-300'}`}>
+                      {outcome ? riskLevelLabel(locale, outcome.result.riskLevel) : '—'}
+                    </td>
+                  );
+                })}
+              </tr>
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {invalidScenarios.map(({ scenario, errors }) => (
+        <p key={scenario.id} className="text-red-500 text-xs mt-3">
+          {scenarioName(scenario, locale)}: {Object.values(errors).join(' ')}
+        </p>
+      ))}
+
+      {error && (
+        <div role="alert" className="bg-red-50 text-red-700 p-3 rounded-lg flex items-center gap-2 mt-3 text-sm">
+          <AlertCircle className="w-4 h-4" />
+          <span>{error}</span>
+        </div>
+      )}
+
+      {scenarios.length > 0 && (
+        <button
+          type="button"
+          onClick={handleCompare}
+          disabled={running || invalidScenarios.length > 0}
+          className={`w-full mt-4 py-3 rounded-xl text-white font-bold transition ${running || invalidScenarios.length > 0 ? 'bg-slate-400 cursor-not-allowed' : 'bg-teal-600 hover:bg-teal-700'}`}
+        >
+          {running ? t('scoringScenarios') : t('compareScenarios')}
+        </button>
+      )}
+    </section>
+  );
+};
+
+export default ScenarioSimulator;
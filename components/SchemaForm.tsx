@@ -0,0 +1,230 @@
+import React, { useState } from 'react';
+import { Locale, PatientData } from '../types';
+import {
+  SECTIONS,
+  FIELD_SCHEMA,
+  FieldSchema,
+  NumberFieldSchema,
+  SectionId,
+  SelectedUnits,
+  getUnit,
+} from '../formSchema';
+import { ValidationErrors } from '../services/validation';
+import { fieldHelpText, fieldLabel, formatNumber, optionLabel, sectionTitle, translate } from '../services/i18n';
+import NumberInput from './NumberInput';
+import BmiCalculator from './BmiCalculator';
+import Switch from './Switch';
+import { User, Briefcase, HeartPulse, Stethoscope, Cigarette, ClipboardList } from 'lucide-react';
+
+interface SchemaFormProps {
+  values: PatientData;
+  errors: ValidationErrors;
+  units: SelectedUnits;
+  locale: Locale;
+  onChange: (field: keyof PatientData, value: PatientData[keyof PatientData]) => void;
+  onUnitChange: (field: keyof PatientData, unit: string) => void;
+}
+
+const SECTION_ICONS: Record<SectionId, React.ElementType> = {
+  demographic: User,
+  social: Briefcase,
+  medical: HeartPulse,
+  clinical: Stethoscope,
+  lifestyle: Cigarette,
+  additional: ClipboardList,
+};
+
+const GRID_COLUMNS: Record<number, string> = {
+  1: '',
+  2: 'grid grid-cols-1 md:grid-cols-2 gap-6',
+  3: 'grid grid-cols-1 md:grid-cols-3 gap-6',
+};
+
+/** The id of a field's control, so labels, messages and focus can refer to it. */
+export const fieldInputId = (field: keyof PatientData) => `field-${field}`;
+
+const selectClass = "w-full rounded-lg border-slate-300 border p-2.5 text-slate-700 focus:ring-2 focus:ring-teal-500 focus:border-teal-500 outline-none transition bg-white";
+
+const inputClass = (hasError: boolean) => {
+  const baseClass = "w-full rounded-lg border p-2.5 text-slate-700 outline-none transition focus:ring-2 focus:ring-teal-500 bg-white";
+  return hasError
+    ? `${baseClass} border-red-500 focus:border-red-500 focus:ring-red-200`
+    : `${baseClass} border-slate-300 focus:border-teal-500`;
+};
+
+const SchemaForm: React.FC<SchemaFormProps> = ({ values, errors, units, locale, onChange, onUnitChange }) => {
+  const [openCalculators, setOpenCalculators] = useState<Partial<Record<keyof PatientData, boolean>>>({});
+
+  const helpId = (field: FieldSchema) => `${fieldInputId(field.key)}-help`;
+  const errorId = (field: FieldSchema) => `${fieldInputId(field.key)}-error`;
+
+  // Attributes tying a control to its label, help text and error message.
+  const controlProps = (field: FieldSchema) => ({
+    id: fieldInputId(field.key),
+    'aria-invalid': !!errors[field.key] || undefined,
+    'aria-required': field.required || undefined,
+    'aria-describedby': [
+      field.helpText ? helpId(field) : undefined,
+      errors[field.key] ? errorId(field) : undefined,
+    ].filter(Boolean).join(' ') || undefined,
+  });
+
+  const renderMessages = (field: FieldSchema) => (
+    <>
+      {field.helpText && field.type !== 'boolean' && <p id={helpId(field)} className="text-slate-500 text-xs mt-1">{fieldHelpText(locale, field.key)}</p>}
+      {errors[field.key] && <p id={errorId(field)} className="text-red-600 text-xs mt-1">{errors[field.key]}</p>}
+    </>
+  );
+
+  const renderNumberField = (field: NumberFieldSchema) => {
+    const unit = getUnit(field, units);
+    const unknown = values[field.key] === null;
+    const value = values[field.key] as number | '' | null;
+    const calculatorOpen = !!openCalculators[field.key];
+
+    return (
+      <div key={field.key} className={calculatorOpen ? 'md:col-span-2' : ''}>
+        <div className="flex items-center justify-between mb-1">
+          <label htmlFor={fieldInputId(field.key)} className="block text-sm font-medium text-slate-700">
+            {fieldLabel(locale, field.key)}{field.units.length > 1 && ` (${unit.unit})`}
+          </label>
+          {field.units.length > 1 && (
+            <div
+              role="group"
+              aria-label={translate(locale, 'unitOf', { label: fieldLabel(locale, field.key) })}
+              className="flex rounded-lg border border-slate-300 overflow-hidden text-xs"
+            >
+              {field.units.map(u => (
+                <button
+                  key={u.unit}
+                  type="button"
+                  aria-pressed={unit.unit === u.unit}
+                  onClick={() => onUnitChange(field.key, u.unit)}
+                  className={`px-2 py-0.5 ${unit.unit === u.unit ? 'bg-teal-600 text-white' : 'bg-white text-slate-600 hover:bg-slate-50'}`}
+                >
+                  {u.unit}
+                </button>
+              ))}
+            </div>
+          )}
+          {field.bmiCalculator && (
+            <button
+              type="button"
+              aria-expanded={calculatorOpen}
+              onClick={() => setOpenCalculators(prev => ({ ...prev, [field.key]: !calculatorOpen }))}
+              className="text-xs font-medium text-teal-700 hover:text-teal-900"
+            >
+              {translate(locale, calculatorOpen ? 'hideCalculator' : 'showCalculator')}
+            </button>
+          )}
+        </div>
+        <NumberInput
+          {...controlProps(field)}
+          locale={locale}
+          className={`${inputClass(!!errors[field.key])} disabled:bg-slate-50 disabled:text-slate-400`}
+          value={value}
+          disabled={unknown}
+          onChange={(number) => onChange(field.key, number)}
+          placeholder={translate(locale, unknown ? 'unknown' : 'example', { value: formatNumber(locale, unit.example) })}
+        />
+        {field.allowUnknown && (
+          <label className="flex items-center gap-2 mt-1.5 text-xs text-slate-500 cursor-pointer">
+            <input
+              type="checkbox"
+              className="accent-teal-600"
+              checked={unknown}
+              onChange={(e) => onChange(field.key, e.target.checked ? null : '')}
+            />
+            {translate(locale, 'markUnknown')}
+          </label>
+        )}
+        {renderMessages(field)}
+        {calculatorOpen && (
+          <div className="mt-3">
+            <BmiCalculator onCalculate={(bmi) => onChange(field.key, bmi)} locale={locale} />
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  const renderField = (field: FieldSchema) => {
+    switch (field.type) {
+      case 'number':
+        return renderNumberField(field);
+
+      case 'enum':
+        return (
+          <div key={field.key}>
+            <label htmlFor={fieldInputId(field.key)} className="block text-sm font-medium text-slate-700 mb-1">{fieldLabel(locale, field.key)}</label>
+            <select
+              {...controlProps(field)}
+              className={errors[field.key] ? inputClass(true) : selectClass}
+              value={values[field.key] as string}
+              onChange={(e) => onChange(field.key, e.target.value)}
+            >
+              {field.options.map(o => <option key={o.value} value={o.value}>{optionLabel(locale, field.key, o.value)}</option>)}
+            </select>
+            {renderMessages(field)}
+          </div>
+        );
+
+      case 'boolean': {
+        const checked = !!values[field.key];
+        if (field.control === 'select') {
+          return (
+            <div key={field.key}>
+              <label htmlFor={fieldInputId(field.key)} className="block text-sm font-medium text-slate-700 mb-1">{fieldLabel(locale, field.key)}</label>
+              <select
+                {...controlProps(field)}
+                className={errors[field.key] ? inputClass(true) : selectClass}
+                value={checked ? 'Yes' : 'No'}
+                onChange={(e) => onChange(field.key, e.target.value === 'Yes')}
+              >
+                <option value="Yes">{translate(locale, 'yes')}</option>
+                <option value="No">{translate(locale, 'no')}</option>
+              </select>
+              {renderMessages(field)}
+            </div>
+          );
+        }
+        return (
+          <div key={field.key}>
+            <Switch
+              id={fieldInputId(field.key)}
+              label={fieldLabel(locale, field.key)}
+              description={field.helpText && fieldHelpText(locale, field.key)}
+              checked={checked}
+              onChange={(next) => onChange(field.key, next)}
+              describedBy={errors[field.key] ? errorId(field) : undefined}
+              invalid={!!errors[field.key]}
+            />
+            {renderMessages(field)}
+          </div>
+        );
+      }
+    }
+  };
+
+  return (
+    <>
+      {SECTIONS.map(section => {
+        const fields = FIELD_SCHEMA.filter(field => field.section === section.id);
+        const Icon = SECTION_ICONS[section.id];
+        return (
+          <section key={section.id} className="bg-white rounded-xl shadow-sm border border-slate-100 p-6">
+            <div className="flex items-center gap-2 mb-4 text-teal-700 border-b border-slate-100 pb-2">
+              <Icon className="w-5 h-5" />
+              <h2 className="font-semibold text-lg">{sectionTitle(locale, section.id)}</h2>
+            </div>
+            <div className={GRID_COLUMNS[Math.min(fields.length, 3)]}>
+              {fields.map(renderField)}
+            </div>
+          </section>
+        );
+      })}
+    </>
+  );
+};
+
+export default SchemaForm;
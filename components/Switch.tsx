@@ -0,0 +1,44 @@
+import React from 'react';
+
+interface SwitchProps {
+  id: string;
+  label: string;
+  description?: string;
+  checked: boolean;
+  onChange: (checked: boolean) => void;
+  /** Id of an extra element describing the switch, e.g. its validation error. */
+  describedBy?: string;
+  invalid?: boolean;
+}
+
+/**
+ * An on/off switch. It is a real button with the switch role, so it is reachable with Tab
+ * and toggled with Space or Enter; the knob's position shows the state without relying on colour.
+ */
+const Switch: React.FC<SwitchProps> = ({ id, label, description, checked, onChange, describedBy, invalid }) => {
+  const descriptionId = description ? `${id}-description` : undefined;
+  const describedByIds = [descriptionId, describedBy].filter(Boolean).join(' ') || undefined;
+
+  return (
+    <div className={`flex items-center justify-between gap-4 p-4 border rounded-lg ${invalid ? 'border-red-500' : 'border-slate-200'}`}>
+      <div>
+        <label htmlFor={id} className="text-sm font-medium text-slate-700 cursor-pointer">{label}</label>
+        {description && <p id={descriptionId} className="text-slate-500 text-xs mt-0.5">{description}</p>}
+      </div>
+      <button
+        id={id}
+        type="button"
+        role="switch"
+        aria-checked={checked}
+        aria-describedby={describedByIds}
+        aria-invalid={invalid || undefined}
+        onClick={() => onChange(!checked)}
+        className={`w-12 h-6 flex-shrink-0 flex items-center rounded-full p-1 duration-300 ease-in-out outline-none focus-visible:ring-2 focus-visible:ring-teal-500 focus-visible:ring-offset-2 ${checked ? 'bg-teal-600' : 'bg-slate-400'}`}
+      >
+        <span aria-hidden="true" className={`bg-white w-4 h-4 rounded-full shadow-md transform duration-300 ease-in-out ${checked ? 'translate-x-6' : ''}`}></span>
+      </button>
+    </div>
+  );
+};
+
+export default Switch;
@@ -0,0 +1,58 @@
+import React from 'react';
+import { Assessment, Locale } from '../types';
+import { riskColorHex } from '../services/riskPolicy';
+import { CATALOGS, formatPercent, riskLevelLabel, translate } from '../services/i18n';
+
+interface TrendChartProps {
+  assessments: Assessment[];
+  locale: Locale;
+}
+
+const WIDTH = 480;
+const HEIGHT = 180;
+const PADDING = { top: 12, right: 16, bottom: 28, left: 36 };
+// Beyond this many visits only the first and last dates are labelled.
+const MAX_DATE_LABELS = 6;
+
+const TrendChart: React.FC<TrendChartProps> = ({ assessments, locale }) => {
+  if (assessments.length === 0) return null;
+
+  const { intlLocale } = CATALOGS[locale];
+  const maxProbability = Math.max(...assessments.map(a => a.result.probability));
+  const yMax = Math.min(100, Math.max(10, Math.ceil((maxProbability * 1.2) / 10) * 10));
+  const plotWidth = WIDTH - PADDING.left - PADDING.right;
+  const plotHeight = HEIGHT - PADDING.top - PADDING.bottom;
+
+  const x = (index: number) =>
+    PADDING.left + (assessments.length === 1 ? plotWidth / 2 : (index / (assessments.length - 1)) * plotWidth);
+  const y = (probability: number) => PADDING.top + plotHeight - (probability / yMax) * plotHeight;
+
+  const path = assessments.map((a, i) => `${i === 0 ? 'M' : 'L'}${x(i)},${y(a.result.probability)}`).join(' ');
+  const ticks = [0, yMax / 2, yMax];
+
+  return (
+    <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto" role="img" aria-label={translate(locale, 'trendChart')}>
+      {ticks.map(tick => (
+        <g key={tick}>
+          <line x1={PADDING.left} x2={WIDTH - PADDING.right} y1={y(tick)} y2={y(tick)} stroke="#e2e8f0" />
+          <text x={PADDING.left - 6} y={y(tick) + 4} textAnchor="end" fontSize="10" fill="#94a3b8">{formatPercent(locale, tick)}</text>
+        </g>
+      ))}
+      <path d={path} fill="none" stroke="#0d9488" strokeWidth="2" />
+      {assessments.map((a, i) => (
+        <g key={a.id}>
+          <circle cx={x(i)} cy={y(a.result.probability)} r="5" fill={riskColorHex(a.result.riskLevel)} stroke="white" strokeWidth="2">
+            <title>{`${new Date(a.timestamp).toLocaleString(intlLocale)}: ${formatPercent(locale, a.result.probability)} (${riskLevelLabel(locale, a.result.riskLevel)})`}</title>
+          </circle>
+          {(assessments.length <= MAX_DATE_LABELS || i === 0 || i === assessments.length - 1) && (
+            <text x={x(i)} y={HEIGHT - 8} textAnchor="middle" fontSize="10" fill="#94a3b8">
+              {new Date(a.timestamp).toLocaleDateString(intlLocale)}
+            </text>
+          )}
+        </g>
+      ))}
+    </svg>
+  );
+};
+
+export default TrendChart;
@@ -0,0 +1,29 @@
+import { PatientData } from './types';
+import { FIELD_SCHEMA, SECTIONS, SectionId, getFieldSchema } from './formSchema';
+
+export const FIELD_LABELS = Object.fromEntries(
+  FIELD_SCHEMA.map(field => [field.key, field.label])
+) as Record<keyof PatientData, string>;
+
+export const PATIENT_FIELDS = FIELD_SCHEMA.map(field => field.key);
+
+// The sections of the assessment form, in display order.
+export const FORM_SECTIONS: { id: SectionId; title: string; fields: (keyof PatientData)[] }[] = SECTIONS.map(section => ({
+  id: section.id,
+  title: section.title,
+  fields: FIELD_SCHEMA.filter(field => field.section === section.id).map(field => field.key),
+}));
+
+export const DISCLAIMER =
+  'This system is for educational purposes only and does not replace professional medical diagnosis. Please consult a qualified healthcare provider for medical advice.';
+
+/** Human-readable form of a patient field value, with its canonical unit where it has one. */
+export const formatFieldValue = (field: keyof PatientData, value: PatientData[keyof PatientData] | string): string => {
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  if (value === null) return 'Unknown';
+  if (value === '' || value === undefined) return '—';
+  const schema = getFieldSchema(field);
+  if (schema.type === 'number') return `${value} ${schema.units[0].unit}`;
+  if (schema.type === 'enum') return schema.options.find(option => option.value === value)?.label ?? String(value);
+  return String(value);
+};
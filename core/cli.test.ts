@@ -0,0 +1,67 @@
+// @vitest-environment node
+import { describe, expect, it } from 'vitest';
+import { USAGE, parseArgs, runCli } from './cli';
+import { createScoringCore } from './scoring';
+import { TYPICAL_ADULT } from '../test/fixtures/patients';
+import { DATASET_CSV, FLAWED_CSV } from '../test/fixtures/csv';
+
+const run = async (args: string[], stdin = '') => {
+  let stdout = '';
+  let stderr = '';
+  const status = await runCli(
+    args,
+    { readStdin: async () => stdin, stdout: text => (stdout += text), stderr: text => (stderr += text) },
+    createScoringCore()
+  );
+  return { status, stdout, stderr };
+};
+
+describe('parseArgs', () => {
+  it('reads the predictor and format', () => {
+    expect(parseArgs(['--predictor', 'gemini', '--format', 'csv'])).toEqual({ predictorId: 'gemini', format: 'csv' });
+    expect(parseArgs([])).toEqual({ format: 'json' });
+    expect(parseArgs(['-h'])).toBe('help');
+  });
+
+  it.each([[['--format', 'xml']], [['--predictor']], [['--verbose']]])('rejects %j', args => {
+    expect(() => parseArgs(args)).toThrow();
+  });
+});
+
+describe('runCli', () => {
+  it('prints the usage', async () => {
+    expect(await run(['--help'])).toEqual({ status: 0, stdout: `${USAGE}\n`, stderr: '' });
+  });
+
+  it('exits with 2 on bad usage or empty input', async () => {
+    expect((await run(['--format', 'xml'], '{}')).status).toBe(2);
+    expect((await run([], '  \n')).status).toBe(2);
+  });
+
+  it('scores one JSON patient', async () => {
+    const { status, stdout } = await run([], JSON.stringify(TYPICAL_ADULT));
+    expect(status).toBe(0);
+    expect(JSON.parse(stdout).result.probability).toBe(1.6);
+  });
+
+  it('writes a CSV batch as CSV', async () => {
+    const { status, stdout } = await run(['--format', 'csv'], DATASET_CSV);
+    const lines = stdout.trim().split('\n');
+
+    expect(status).toBe(0);
+    expect(lines[0]).toBe('index,id,probability,probability_low,probability_high,confidence,risk_level,stroke_prediction,errors');
+    expect(lines).toHaveLength(36);
+  });
+
+  it('exits with 1 when any patient fails', async () => {
+    const { status, stdout } = await run([], FLAWED_CSV);
+    expect(status).toBe(1);
+    expect(JSON.parse(stdout).results.filter((row: { result: unknown }) => !row.result)).toHaveLength(2);
+  });
+
+  it('reports invalid single patients on stderr', async () => {
+    const { status, stderr } = await run([], JSON.stringify({ ...TYPICAL_ADULT, age: 'old' }));
+    expect(status).toBe(1);
+    expect(stderr).toContain('Invalid patient data');
+  });
+});
@@ -0,0 +1,123 @@
+import { pathToFileURL } from "node:url";
+import { createScoringCore, ScoringCore, BatchScoreResponse } from "./scoring";
+import { scoringOptionsFromEnv } from "./env";
+import { toCsv } from "../services/csv";
+
+export const USAGE = `Usage: score [--predictor local|gemini] [--format json|csv] < patients
+
+Reads one patient (JSON object), a list of patients (JSON array) or a CSV in the
+stroke dataset layout from stdin and writes the predictions to stdout.
+
+  --predictor  Engine to use (default: local, or $PREDICTOR).
+  --format     Output format for lists: json (default) or csv.
+  --help       Show this message.
+
+Exit status: 0 when every patient was scored, 1 when any failed, 2 on bad usage.`;
+
+export interface CliOptions {
+  predictorId?: string;
+  format: "json" | "csv";
+}
+
+export interface CliIo {
+  /** Only called once the arguments are known to be valid, so `--help` never waits on stdin. */
+  readStdin: () => Promise<string>;
+  stdout: (text: string) => void;
+  stderr: (text: string) => void;
+}
+
+export const parseArgs = (args: string[]): CliOptions | "help" => {
+  const options: CliOptions = { format: "json" };
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === "--help" || arg === "-h") return "help";
+    if (arg === "--predictor" || arg === "--format") {
+      const value = args[++i];
+      if (value === undefined) throw new Error(`${arg} needs a value.`);
+      if (arg === "--predictor") {
+        options.predictorId = value;
+      } else if (value === "json" || value === "csv") {
+        options.format = value;
+      } else {
+        throw new Error(`Unknown format "${value}".`);
+      }
+      continue;
+    }
+    throw new Error(`Unknown argument "${arg}".`);
+  }
+  return options;
+};
+
+const batchToCsv = ({ results }: BatchScoreResponse): string =>
+  toCsv([
+    ["index", "id", "probability", "probability_low", "probability_high", "confidence", "risk_level", "stroke_prediction", "errors"],
+    ...results.map(row => [
+      row.index,
+      row.id ?? "",
+      row.result ? row.result.probability : "",
+      row.result ? row.result.uncertainty.low : "",
+      row.result ? row.result.uncertainty.high : "",
+      row.result ? row.result.uncertainty.confidence : "",
+      row.result ? row.result.riskLevel : "",
+      row.result ? (row.result.strokePrediction ? 1 : 0) : "",
+      row.errors.join("; "),
+    ]),
+  ]);
+
+/** Scores stdin and returns the exit status. Errors are written to stderr, never thrown. */
+export const runCli = async (args: string[], io: CliIo, core: ScoringCore): Promise<number> => {
+  let options: CliOptions | "help";
+  try {
+    options = parseArgs(args);
+  } catch (error) {
+    io.stderr(`${error instanceof Error ? error.message : String(error)}\n\n${USAGE}\n`);
+    return 2;
+  }
+  if (options === "help") {
+    io.stdout(`${USAGE}\n`);
+    return 0;
+  }
+
+  const input = (await io.readStdin()).trim();
+  if (input === "") {
+    io.stderr(`No input on stdin.\n\n${USAGE}\n`);
+    return 2;
+  }
+
+  try {
+    let batch: BatchScoreResponse;
+    if (input.startsWith("{") || input.startsWith("[")) {
+      const json: unknown = JSON.parse(input);
+      if (!Array.isArray(json)) {
+        io.stdout(`${JSON.stringify(await core.predict(json, options.predictorId), null, 2)}\n`);
+        return 0;
+      }
+      batch = await core.predictBatch(json, options.predictorId);
+    } else {
+      batch = await core.predictCsv(input, options.predictorId);
+    }
+
+    io.stdout(options.format === "csv" ? `${batchToCsv(batch)}\n` : `${JSON.stringify(batch, null, 2)}\n`);
+    return batch.results.every(row => row.result) ? 0 : 1;
+  } catch (error) {
+    io.stderr(`${error instanceof Error ? error.message : String(error)}\n`);
+    return 1;
+  }
+};
+
+const readStdin = async (): Promise<string> => {
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) {
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks).toString("utf8");
+};
+
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  const io: CliIo = {
+    readStdin,
+    stdout: text => process.stdout.write(text),
+    stderr: text => process.stderr.write(text),
+  };
+  process.exitCode = await runCli(process.argv.slice(2), io, createScoringCore(scoringOptionsFromEnv()));
+}
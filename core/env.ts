@@ -0,0 +1,40 @@
+import { appendFileSync } from "node:fs";
+import { ModelClient, createGeminiClient } from "../services/predictionService";
+import { AGE_BAND_OPTIONS, DEFAULT_PRIVACY_POLICY, PrivacyGuard, PrivacyPolicy } from "../services/privacy";
+import { ScoringCoreOptions } from "./scoring";
+
+const privacyFromEnv = (env: NodeJS.ProcessEnv): PrivacyGuard => {
+  const ageBandYears = Number(env.AGE_BAND_YEARS ?? DEFAULT_PRIVACY_POLICY.ageBandYears);
+  if (!AGE_BAND_OPTIONS.includes(ageBandYears)) {
+    throw new Error(`AGE_BAND_YEARS must be one of ${AGE_BAND_OPTIONS.join(", ")}.`);
+  }
+  const policy: PrivacyPolicy = { localOnly: env.LOCAL_ONLY === "1", ageBandYears };
+  const auditPath = env.AUDIT_LOG ?? "remote-audit.log";
+  return {
+    getPolicy: () => policy,
+    hasConsent: () => env.REMOTE_CONSENT === "1",
+    // One JSON object per line; written before the request is sent.
+    recordAudit: entry => appendFileSync(auditPath, `${JSON.stringify(entry)}\n`),
+  };
+};
+
+/**
+ * Options for running the scoring core under Node: the Gemini client is built from
+ * GEMINI_API_KEY on first use, so the local predictor works without a key, and
+ * PREDICTOR picks the default engine. Gemini is only called when REMOTE_CONSENT=1 and
+ * LOCAL_ONLY is not set; AGE_BAND_YEARS bands the age sent to it, and every payload is
+ * appended to AUDIT_LOG (default remote-audit.log).
+ */
+export const scoringOptionsFromEnv = (env: NodeJS.ProcessEnv = process.env): ScoringCoreOptions => {
+  let client: ModelClient | null = null;
+  return {
+    getModelClient: () => {
+      if (!client) {
+        client = createGeminiClient(env.GEMINI_API_KEY ?? env.API_KEY);
+      }
+      return client;
+    },
+    defaultPredictorId: env.PREDICTOR === "gemini" ? "gemini" : "local",
+    privacy: privacyFromEnv(env),
+  };
+};
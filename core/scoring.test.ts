@@ -0,0 +1,104 @@
+// @vitest-environment node
+import { describe, expect, it } from 'vitest';
+import { createScoringCore, InvalidPatientError, UnknownPredictorError } from './scoring';
+import { ConsentRequiredError, RemoteCallBlockedError } from '../services/errors';
+import { AuditEntry, PrivacyGuard } from '../services/privacy';
+import { createStubModelClient } from '../test/modelClient';
+import { geminiResponse } from '../test/fixtures/geminiResponses';
+import { SCORED_PATIENTS, TYPICAL_ADULT } from '../test/fixtures/patients';
+import { DATASET_CSV, FLAWED_CSV } from '../test/fixtures/csv';
+
+const consenting = (audit: AuditEntry[] = [], localOnly = false): PrivacyGuard => ({
+  getPolicy: () => ({ localOnly, ageBandYears: 10 }),
+  hasConsent: () => true,
+  recordAudit: entry => audit.push(entry),
+});
+
+describe('createScoringCore', () => {
+  it('scores a patient with the local model by default', async () => {
+    const core = createScoringCore();
+    const fixture = SCORED_PATIENTS[3];
+    const response = await core.predict(fixture.data);
+
+    expect(response.predictorId).toBe('local');
+    expect(response.modelId).toBe('logreg-stroke-v1');
+    expect(response.result.probability).toBe(fixture.expected.probability);
+  });
+
+  it('rejects invalid patients with every validation error', async () => {
+    const core = createScoringCore();
+    const error = await core.predict({ ...TYPICAL_ADULT, age: 130, bmi: 5 }).catch(e => e);
+
+    expect(error).toBeInstanceOf(InvalidPatientError);
+    expect(error.errors).toEqual(['age: Please enter a valid age (0-120).', 'bmi: Value must be between 10 and 100.']);
+    await expect(core.predict('not a patient')).rejects.toBeInstanceOf(InvalidPatientError);
+  });
+
+  it('rejects unknown predictors', async () => {
+    await expect(createScoringCore().predict(TYPICAL_ADULT, 'gpt')).rejects.toBeInstanceOf(UnknownPredictorError);
+  });
+
+  it('refuses remote models unless the caller supplies consent', async () => {
+    const client = createStubModelClient(geminiResponse('Low Risk'));
+    const core = createScoringCore({ getModelClient: () => client });
+
+    await expect(core.predict(TYPICAL_ADULT, 'gemini')).rejects.toBeInstanceOf(ConsentRequiredError);
+    expect(client.generateContent).not.toHaveBeenCalled();
+  });
+
+  it('honours local-only mode even with consent', async () => {
+    const client = createStubModelClient(geminiResponse('Low Risk'));
+    const core = createScoringCore({ getModelClient: () => client, privacy: consenting([], true) });
+
+    await expect(core.predict(TYPICAL_ADULT, 'gemini')).rejects.toBeInstanceOf(RemoteCallBlockedError);
+  });
+
+  it('sends de-identified data to the remote model and logs it', async () => {
+    const audit: AuditEntry[] = [];
+    const client = createStubModelClient(geminiResponse('High Risk'));
+    const core = createScoringCore({ getModelClient: () => client, privacy: consenting(audit) });
+    const response = await core.predict(TYPICAL_ADULT, 'gemini');
+
+    expect(response.predictorId).toBe('gemini');
+    expect(response.result.riskLevel).toBe('High Risk');
+    expect(audit).toHaveLength(1);
+    expect(audit[0].payload.age).toBe('40–49');
+  });
+
+  it('re-derives the risk level with the risk policy', async () => {
+    const client = createStubModelClient(geminiResponse('High Risk'));
+    const core = createScoringCore({
+      getModelClient: () => client,
+      privacy: consenting(),
+      getRiskPolicy: () => ({ moderateThreshold: 50, highThreshold: 80, decisionThreshold: 80 }),
+    });
+    const { result } = await core.predict(TYPICAL_ADULT, 'gemini');
+
+    expect(result.probability).toBe(42);
+    expect(result.riskLevel).toBe('Low Risk');
+    expect(result.strokePrediction).toBe(false);
+  });
+
+  it('scores a list, reporting invalid entries individually', async () => {
+    const { results } = await createScoringCore().predictBatch([
+      { id: 'a', ...TYPICAL_ADULT },
+      { id: 'b', ...TYPICAL_ADULT, age: -1 },
+    ]);
+
+    expect(results.map(row => row.id)).toEqual(['a', 'b']);
+    expect(results[0].result?.probability).toBe(1.6);
+    expect(results[1].result).toBeNull();
+    expect(results[1].errors).toEqual(['age: Please enter a valid age (0-120).']);
+  });
+
+  it('scores a CSV in the dataset layout', async () => {
+    const { results } = await createScoringCore().predictCsv(DATASET_CSV);
+    expect(results).toHaveLength(35);
+    expect(results.every(row => row.result)).toBe(true);
+    // "N/A" BMI is scored as unknown.
+    expect(results[1].result?.uncertainty.missingFields).toEqual(['bmi']);
+
+    const flawed = await createScoringCore().predictCsv(FLAWED_CSV);
+    expect(flawed.results.filter(row => !row.result)).toHaveLength(2);
+  });
+});
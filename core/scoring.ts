@@ -0,0 +1,164 @@
+import { PatientData, PredictionResult, Predictor, PredictorId } from "../types";
+import { FIELD_SCHEMA } from "../formSchema";
+import { validatePatientData } from "../services/validation";
+import { createPredictors, PredictorOptions } from "../services/predictors";
+import { BatchRow, ScoredBatchRow, BatchScoringOptions, parsePatientCsv, scoreBatch } from "../services/batchService";
+import { DEFAULT_RISK_POLICY } from "../services/riskPolicy";
+import { toPredictionError } from "../services/errors";
+import { DEFAULT_PRIVACY_POLICY, PrivacyGuard } from "../services/privacy";
+
+// Environment-neutral scoring entry point shared by the HTTP server and the CLI.
+// Nothing here touches the DOM, browser storage or process.env.
+
+export interface ScoringCoreOptions extends PredictorOptions {
+  defaultPredictorId?: PredictorId;
+  /** Passed to batch scoring; remote predictors are throttled by default. */
+  minIntervalMs?: number;
+}
+
+export interface ScoredPatient {
+  /** Position in the request (0-based) or CSV line number. */
+  index: number;
+  id?: string;
+  result: PredictionResult | null;
+  errors: string[];
+}
+
+export interface SingleScoreResponse {
+  predictorId: PredictorId;
+  modelId: string;
+  result: PredictionResult;
+}
+
+export interface BatchScoreResponse {
+  predictorId: PredictorId;
+  modelId: string;
+  results: ScoredPatient[];
+}
+
+/** The request body is not usable patient data: it fails the form's validation or cannot be parsed. */
+export class InvalidPatientError extends Error {
+  name = "InvalidPatientError";
+
+  constructor(readonly errors: string[]) {
+    super(`Invalid patient data: ${errors.join(" ")}`);
+  }
+}
+
+/** The requested predictor id is not registered. */
+export class UnknownPredictorError extends Error {
+  name = "UnknownPredictorError";
+}
+
+// Without a guard from the caller, remote predictors refuse to run: consent has to be explicit.
+const NO_REMOTE_CONSENT: PrivacyGuard = {
+  getPolicy: () => DEFAULT_PRIVACY_POLICY,
+  hasConsent: () => false,
+  recordAudit: () => {},
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+/**
+ * Turns a JSON value into PatientData, keeping only schema fields, and validates it with
+ * the form's rules. Values must be in canonical units (years, mg/dL, kg/m², mmHg).
+ */
+export const parsePatientJson = (value: unknown): { data: PatientData | null; errors: string[] } => {
+  if (!isRecord(value)) {
+    return { data: null, errors: ["Expected a JSON object with the patient fields."] };
+  }
+
+  const data = Object.fromEntries(
+    FIELD_SCHEMA.filter(field => value[field.key] !== undefined).map(field => [field.key, value[field.key]])
+  ) as unknown as PatientData;
+
+  const validationErrors = validatePatientData(data);
+  const errors = (Object.keys(validationErrors) as (keyof PatientData)[]).map(
+    field => `${field}: ${validationErrors[field]}`
+  );
+
+  return { data: errors.length === 0 ? data : null, errors };
+};
+
+const idOf = (value: unknown): string | undefined =>
+  isRecord(value) && (typeof value.id === "string" || typeof value.id === "number") ? String(value.id) : undefined;
+
+const toScoredPatient = (row: ScoredBatchRow): ScoredPatient => ({
+  index: row.rowNumber,
+  id: row.id,
+  result: row.result,
+  errors: row.errors,
+});
+
+export const createScoringCore = (options: ScoringCoreOptions = {}) => {
+  const {
+    defaultPredictorId = "local",
+    minIntervalMs,
+    getRiskPolicy = () => DEFAULT_RISK_POLICY,
+    privacy = NO_REMOTE_CONSENT,
+    ...predictorOptions
+  } = options;
+  const predictors = createPredictors({ ...predictorOptions, getRiskPolicy, privacy });
+
+  const resolvePredictor = (id: string | undefined): Predictor => {
+    const predictorId = id ?? defaultPredictorId;
+    if (!(predictorId in predictors)) {
+      throw new UnknownPredictorError(
+        `Unknown predictor "${predictorId}". Use one of: ${Object.keys(predictors).join(", ")}.`
+      );
+    }
+    return predictors[predictorId as PredictorId];
+  };
+
+  const runBatch = async (rows: BatchRow[], predictor: Predictor, signal?: AbortSignal): Promise<BatchScoreResponse> => {
+    const scoringOptions: BatchScoringOptions = { minIntervalMs, signal };
+    const scored = await scoreBatch(rows, predictor, scoringOptions);
+    return { predictorId: predictor.id, modelId: predictor.modelId, results: scored.map(toScoredPatient) };
+  };
+
+  return {
+    predictors,
+
+    /** Validates and scores one patient. Throws InvalidPatientError or a PredictionError. */
+    async predict(patient: unknown, predictorId?: string, signal?: AbortSignal): Promise<SingleScoreResponse> {
+      const predictor = resolvePredictor(predictorId);
+      const { data, errors } = parsePatientJson(patient);
+      if (!data) {
+        throw new InvalidPatientError(errors);
+      }
+      try {
+        const result = await predictor.predict(data, { signal });
+        return { predictorId: predictor.id, modelId: predictor.modelId, result };
+      } catch (error) {
+        throw toPredictionError(error);
+      }
+    },
+
+    /** Scores a list of patients; invalid or failed patients are reported per entry. */
+    predictBatch(patients: unknown[], predictorId?: string, signal?: AbortSignal): Promise<BatchScoreResponse> {
+      const predictor = resolvePredictor(predictorId);
+      const rows: BatchRow[] = patients.map((patient, index) => ({
+        rowNumber: index,
+        id: idOf(patient),
+        raw: {},
+        ...parsePatientJson(patient),
+      }));
+      return runBatch(rows, predictor, signal);
+    },
+
+    /** Scores a CSV in the stroke dataset layout; `index` is the CSV line number. */
+    predictCsv(text: string, predictorId?: string, signal?: AbortSignal): Promise<BatchScoreResponse> {
+      const predictor = resolvePredictor(predictorId);
+      let rows: BatchRow[];
+      try {
+        rows = parsePatientCsv(text);
+      } catch (error) {
+        throw new InvalidPatientError([error instanceof Error ? error.message : String(error)]);
+      }
+      return runBatch(rows, predictor, signal);
+    },
+  };
+};
+
+export type ScoringCore = ReturnType<typeof createScoringCore>;
@@ -0,0 +1,102 @@
+// @vitest-environment node
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { AddressInfo } from 'node:net';
+import { Server } from 'node:http';
+import { ApiError } from '@google/genai';
+import { createApiServer } from './server';
+import { ScoringCoreOptions, createScoringCore } from './scoring';
+import { createStubModelClient } from '../test/modelClient';
+import { geminiResponse } from '../test/fixtures/geminiResponses';
+import { TYPICAL_ADULT } from '../test/fixtures/patients';
+import { DATASET_CSV } from '../test/fixtures/csv';
+
+let server: Server | null = null;
+
+const start = async (options: ScoringCoreOptions = {}) => {
+  server = createApiServer(createScoringCore({ minIntervalMs: 0, ...options }));
+  await new Promise<void>(resolve => server!.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  return (path: string, init?: RequestInit) => fetch(`http://127.0.0.1:${port}${path}`, init);
+};
+
+const postJson = (body: unknown): RequestInit => ({
+  method: 'POST',
+  headers: { 'Content-Type': 'application/json' },
+  body: JSON.stringify(body),
+});
+
+const consent = {
+  getPolicy: () => ({ localOnly: false, ageBandYears: 0 }),
+  hasConsent: () => true,
+  recordAudit: () => {},
+};
+
+afterEach(async () => {
+  await new Promise(resolve => server?.close(resolve));
+  server = null;
+  vi.restoreAllMocks();
+});
+
+describe('scoring API', () => {
+  it('reports health', async () => {
+    const request = await start();
+    const response = await request('/health');
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ status: 'ok', predictors: ['local', 'gemini'] });
+  });
+
+  it('scores one patient', async () => {
+    const request = await start();
+    const response = await request('/predict', postJson(TYPICAL_ADULT));
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body.predictorId).toBe('local');
+    expect(body.result.riskLevel).toBe('Low Risk');
+  });
+
+  it('scores a CSV batch', async () => {
+    const request = await start();
+    const response = await request('/predict/batch', {
+      method: 'POST',
+      headers: { 'Content-Type': 'text/csv' },
+      body: DATASET_CSV,
+    });
+    expect(response.status).toBe(200);
+    expect((await response.json()).results).toHaveLength(35);
+  });
+
+  it('uses the predictor from the query string', async () => {
+    const client = createStubModelClient(geminiResponse('Moderate Risk'));
+    const request = await start({ getModelClient: () => client, privacy: consent });
+    const body = await (await request('/predict?predictor=gemini', postJson(TYPICAL_ADULT))).json();
+
+    expect(body.predictorId).toBe('gemini');
+    expect(body.result.probability).toBe(15);
+  });
+
+  it.each([
+    ['invalid patient data', '/predict', postJson({ ...TYPICAL_ADULT, age: 200 }), 422, 'InvalidPatientError'],
+    ['a body that is not JSON', '/predict', { method: 'POST', body: '{' }, 400, 'HttpError'],
+    ['a batch that is not a list', '/predict/batch', postJson(TYPICAL_ADULT), 400, 'HttpError'],
+    ['an unknown predictor', '/predict?predictor=gpt', postJson(TYPICAL_ADULT), 400, 'UnknownPredictorError'],
+    ['an unknown route', '/score', postJson(TYPICAL_ADULT), 404, 'HttpError'],
+    ['the wrong method', '/predict', { method: 'GET' }, 405, 'HttpError'],
+    ['a remote call without consent', '/predict?predictor=gemini', postJson(TYPICAL_ADULT), 403, 'ConsentRequiredError'],
+  ])('answers %s with %i', async (_, path, init, status, error) => {
+    const request = await start();
+    const response = await request(path, init);
+    expect(response.status).toBe(status);
+    expect((await response.json()).error).toBe(error);
+  });
+
+  it('maps model failures onto HTTP statuses', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const client = createStubModelClient(new ApiError({ status: 401, message: 'API key not valid' }));
+    const request = await start({ getModelClient: () => client, privacy: consent });
+    const response = await request('/predict?predictor=gemini', postJson(TYPICAL_ADULT));
+
+    expect(response.status).toBe(503);
+    expect(await response.json()).toMatchObject({ error: 'AuthenticationError', retryable: false });
+  });
+});
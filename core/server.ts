@@ -0,0 +1,140 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from "node:http";
+import { pathToFileURL } from "node:url";
+import { ScoringCore, InvalidPatientError, UnknownPredictorError, createScoringCore } from "./scoring";
+import { scoringOptionsFromEnv } from "./env";
+import {
+  PredictionError,
+  AuthenticationError,
+  QuotaExceededError,
+  NetworkError,
+  TimeoutError,
+  MalformedResponseError,
+  ConsentRequiredError,
+  RemoteCallBlockedError,
+} from "../services/errors";
+
+// Requests larger than this are rejected before parsing.
+export const MAX_BODY_BYTES = 1_000_000;
+
+class HttpError extends Error {
+  name = "HttpError";
+
+  constructor(readonly status: number, message: string) {
+    super(message);
+  }
+}
+
+const statusForError = (error: unknown): number => {
+  if (error instanceof HttpError) return error.status;
+  if (error instanceof InvalidPatientError) return 422;
+  if (error instanceof UnknownPredictorError) return 400;
+  if (error instanceof QuotaExceededError) return 429;
+  if (error instanceof TimeoutError) return 504;
+  if (error instanceof NetworkError || error instanceof MalformedResponseError) return 502;
+  if (error instanceof AuthenticationError) return 503;
+  if (error instanceof ConsentRequiredError || error instanceof RemoteCallBlockedError) return 403;
+  return 500;
+};
+
+const sendJson = (res: ServerResponse, status: number, body: unknown) => {
+  res.writeHead(status, { "Content-Type": "application/json; charset=utf-8" });
+  res.end(JSON.stringify(body));
+};
+
+const sendError = (res: ServerResponse, error: unknown) => {
+  const status = statusForError(error);
+  const message = status === 500 && !(error instanceof PredictionError)
+    ? "Internal server error."
+    : error instanceof Error ? error.message : String(error);
+  sendJson(res, status, {
+    error: error instanceof Error ? error.name : "Error",
+    message,
+    ...(error instanceof InvalidPatientError && { errors: error.errors }),
+    ...(error instanceof PredictionError && { retryable: error.retryable }),
+  });
+};
+
+const readBody = async (req: IncomingMessage): Promise<string> => {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      throw new HttpError(413, `Request body exceeds ${MAX_BODY_BYTES} bytes.`);
+    }
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks).toString("utf8");
+};
+
+const parseJson = (text: string): unknown => {
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new HttpError(400, "Request body is not valid JSON.");
+  }
+};
+
+/**
+ * Handles the scoring API:
+ * - `POST /predict` with one patient as JSON.
+ * - `POST /predict/batch` with a JSON array of patients, or a CSV in the stroke dataset
+ *   layout when sent as `text/csv`.
+ * Both accept `?predictor=local|gemini`. `GET /health` reports readiness.
+ */
+export const createRequestHandler = (core: ScoringCore) => async (req: IncomingMessage, res: ServerResponse) => {
+  const url = new URL(req.url ?? "/", "http://localhost");
+  const predictorId = url.searchParams.get("predictor") ?? undefined;
+
+  // Abort remote calls when the client goes away.
+  const controller = new AbortController();
+  res.on("close", () => controller.abort());
+
+  try {
+    if (url.pathname === "/health") {
+      if (req.method !== "GET") throw new HttpError(405, "Use GET.");
+      sendJson(res, 200, { status: "ok", predictors: Object.keys(core.predictors) });
+      return;
+    }
+
+    if (url.pathname !== "/predict" && url.pathname !== "/predict/batch") {
+      throw new HttpError(404, `No route for ${url.pathname}.`);
+    }
+    if (req.method !== "POST") {
+      throw new HttpError(405, "Use POST.");
+    }
+
+    const body = await readBody(req);
+
+    if (url.pathname === "/predict") {
+      sendJson(res, 200, await core.predict(parseJson(body), predictorId, controller.signal));
+      return;
+    }
+
+    if (req.headers["content-type"]?.startsWith("text/csv")) {
+      sendJson(res, 200, await core.predictCsv(body, predictorId, controller.signal));
+      return;
+    }
+    const patients = parseJson(body);
+    if (!Array.isArray(patients)) {
+      throw new HttpError(400, "Expected a JSON array of patients.");
+    }
+    sendJson(res, 200, await core.predictBatch(patients, predictorId, controller.signal));
+  } catch (error) {
+    if (statusForError(error) === 500) {
+      console.error("Request failed:", error);
+    }
+    if (!res.headersSent) {
+      sendError(res, error);
+    }
+  }
+};
+
+export const createApiServer = (core: ScoringCore): Server => createServer(createRequestHandler(core));
+
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  const port = Number(process.env.PORT ?? 8787);
+  createApiServer(createScoringCore(scoringOptionsFromEnv())).listen(port, () => {
+    console.log(`Stroke risk API listening on http://localhost:${port}`);
+  });
+}
@@ -0,0 +1,309 @@
+import { PatientData, Gender, WorkType, ResidenceType, SmokingStatus } from './types';
+import { MG_DL_PER_MMOL_L, round } from './services/units';
+
+export type SectionId = 'demographic' | 'social' | 'medical' | 'clinical' | 'lifestyle' | 'additional';
+
+export interface SectionSchema {
+  id: SectionId;
+  title: string;
+}
+
+export interface FieldOption {
+  value: string;
+  label: string;
+}
+
+export interface UnitSchema {
+  unit: string;
+  min: number;
+  max: number;
+  /** A typical value, shown as the input's placeholder. */
+  example: number;
+  /** Converts a value in this unit to the field's canonical (first) unit. */
+  toCanonical: (value: number) => number;
+  /** Converts a canonical value into this unit. */
+  fromCanonical: (value: number) => number;
+}
+
+interface BaseFieldSchema {
+  key: keyof PatientData;
+  label: string;
+  section: SectionId;
+  required: boolean;
+  helpText?: string;
+}
+
+export interface NumberFieldSchema extends BaseFieldSchema {
+  type: 'number';
+  /** Accepted units; the first is canonical and is what predictors receive. */
+  units: UnitSchema[];
+  /** Offer the height & weight BMI calculator next to this field. */
+  bmiCalculator?: boolean;
+  /** The value may be marked unknown (null); predictors then impute it. */
+  allowUnknown?: boolean;
+  messages?: {
+    required?: string;
+    /** May use {min}, {max} and {unit} placeholders. */
+    range?: string;
+  };
+}
+
+export interface EnumFieldSchema extends BaseFieldSchema {
+  type: 'enum';
+  options: FieldOption[];
+}
+
+export interface BooleanFieldSchema extends BaseFieldSchema {
+  type: 'boolean';
+  /** A yes/no dropdown, or an on/off switch for history flags. */
+  control: 'select' | 'switch';
+}
+
+export type FieldSchema = NumberFieldSchema | EnumFieldSchema | BooleanFieldSchema;
+
+export interface CrossFieldRule {
+  id: string;
+  /** The field the error is shown under. */
+  field: keyof PatientData;
+  /** Fields the rule reads; it only runs once all of them pass their own checks. */
+  dependsOn: (keyof PatientData)[];
+  /** Returns an error message when the combination is inconsistent. */
+  check: (data: PatientData) => string | null;
+}
+
+const identity = (value: number) => value;
+
+const enumOptions = (values: string[], label: (value: string) => string = value => value): FieldOption[] =>
+  values.map(value => ({ value, label: label(value) }));
+
+export const SECTIONS: SectionSchema[] = [
+  { id: 'demographic', title: 'Demographic Information' },
+  { id: 'social', title: 'Social & Work Information' },
+  { id: 'medical', title: 'Medical History' },
+  { id: 'clinical', title: 'Clinical Measurements' },
+  { id: 'lifestyle', title: 'Lifestyle Factors' },
+  { id: 'additional', title: 'Additional Clinical Details (optional)' },
+];
+
+export const FIELD_SCHEMA: FieldSchema[] = [
+  {
+    key: 'gender',
+    label: 'Gender',
+    section: 'demographic',
+    type: 'enum',
+    required: true,
+    options: enumOptions(Object.values(Gender)),
+  },
+  {
+    key: 'age',
+    label: 'Age',
+    section: 'demographic',
+    type: 'number',
+    required: true,
+    units: [{ unit: 'years', min: 0, max: 120, example: 45, toCanonical: identity, fromCanonical: identity }],
+    messages: { range: 'Please enter a valid age ({min}-{max}).' },
+  },
+  {
+    key: 'workType',
+    label: 'Work Type',
+    section: 'social',
+    type: 'enum',
+    required: true,
+    options: enumOptions(Object.values(WorkType), value => value.replace('_', ' ')),
+  },
+  {
+    key: 'residenceType',
+    label: 'Residence Type',
+    section: 'social',
+    type: 'enum',
+    required: true,
+    options: enumOptions(Object.values(ResidenceType)),
+  },
+  {
+    key: 'everMarried',
+    label: 'Ever Married',
+    section: 'social',
+    type: 'boolean',
+    control: 'select',
+    required: true,
+  },
+  {
+    key: 'hypertension',
+    label: 'Hypertension',
+    section: 'medical',
+    type: 'boolean',
+    control: 'switch',
+    required: true,
+    helpText: 'Diagnosed high blood pressure, treated or untreated.',
+  },
+  {
+    key: 'heartDisease',
+    label: 'Heart Disease',
+    section: 'medical',
+    type: 'boolean',
+    control: 'switch',
+    required: true,
+    helpText: 'Any diagnosed heart condition, e.g. coronary artery disease or heart failure.',
+  },
+  {
+    key: 'avgGlucoseLevel',
+    label: 'Average Glucose Level',
+    section: 'clinical',
+    type: 'number',
+    required: true,
+    units: [
+      { unit: 'mg/dL', min: 30, max: 600, example: 105.5, toCanonical: identity, fromCanonical: identity },
+      {
+        unit: 'mmol/L',
+        min: 1.7,
+        max: 33.3,
+        example: 5.9,
+        toCanonical: value => round(value * MG_DL_PER_MMOL_L, 1),
+        fromCanonical: value => round(value / MG_DL_PER_MMOL_L, 1),
+      },
+    ],
+    allowUnknown: true,
+    messages: { required: 'Enter a glucose level or mark it as unknown.' },
+  },
+  {
+    key: 'bmi',
+    label: 'BMI (Body Mass Index)',
+    section: 'clinical',
+    type: 'number',
+    required: true,
+    units: [{ unit: 'kg/m²', min: 10, max: 100, example: 28.4, toCanonical: identity, fromCanonical: identity }],
+    bmiCalculator: true,
+    allowUnknown: true,
+    messages: { required: 'Enter a BMI or mark it as unknown.', range: 'Value must be between {min} and {max}.' },
+  },
+  {
+    key: 'smokingStatus',
+    label: 'Smoking Status',
+    section: 'lifestyle',
+    type: 'enum',
+    required: true,
+    options: enumOptions(Object.values(SmokingStatus)),
+  },
+  {
+    key: 'systolicBp',
+    label: 'Systolic Blood Pressure',
+    section: 'additional',
+    type: 'number',
+    required: false,
+    units: [{ unit: 'mmHg', min: 60, max: 260, example: 132, toCanonical: identity, fromCanonical: identity }],
+    helpText: 'Needed for the Framingham stroke risk score.',
+  },
+  {
+    key: 'antihypertensiveTreatment',
+    label: 'On Blood Pressure Medication',
+    section: 'additional',
+    type: 'boolean',
+    control: 'switch',
+    required: false,
+  },
+  {
+    key: 'diabetes',
+    label: 'Diabetes',
+    section: 'additional',
+    type: 'boolean',
+    control: 'switch',
+    required: false,
+  },
+  {
+    key: 'atrialFibrillation',
+    label: 'Atrial Fibrillation',
+    section: 'additional',
+    type: 'boolean',
+    control: 'switch',
+    required: false,
+  },
+  {
+    key: 'congestiveHeartFailure',
+    label: 'Congestive Heart Failure',
+    section: 'additional',
+    type: 'boolean',
+    control: 'switch',
+    required: false,
+  },
+  {
+    key: 'vascularDisease',
+    label: 'Vascular Disease',
+    section: 'additional',
+    type: 'boolean',
+    control: 'switch',
+    required: false,
+    helpText: 'Prior heart attack, peripheral artery disease or aortic plaque.',
+  },
+  {
+    key: 'priorStroke',
+    label: 'Prior Stroke or TIA',
+    section: 'additional',
+    type: 'boolean',
+    control: 'switch',
+    required: false,
+    helpText: 'Includes other thromboembolic events.',
+  },
+  {
+    key: 'leftVentricularHypertrophy',
+    label: 'Left Ventricular Hypertrophy',
+    section: 'additional',
+    type: 'boolean',
+    control: 'switch',
+    required: false,
+    helpText: 'As seen on an ECG.',
+  },
+];
+
+// Consistency checks that span several fields.
+export const CROSS_FIELD_RULES: CrossFieldRule[] = [
+  {
+    id: 'children-age',
+    field: 'workType',
+    dependsOn: ['workType', 'age'],
+    check: data =>
+      data.workType === WorkType.Children && typeof data.age === 'number' && data.age >= 18
+        ? 'Work type "children" only applies to patients under 18.'
+        : null,
+  },
+  {
+    id: 'children-married',
+    field: 'everMarried',
+    dependsOn: ['workType', 'everMarried'],
+    check: data =>
+      data.workType === WorkType.Children && data.everMarried
+        ? 'A patient with work type "children" cannot have been married.'
+        : null,
+  },
+];
+
+export const getFieldSchema = (key: keyof PatientData): FieldSchema =>
+  FIELD_SCHEMA.find(field => field.key === key)!;
+
+/** Units currently selected for each multi-unit field; fields not listed use their canonical unit. */
+export type SelectedUnits = Partial<Record<keyof PatientData, string>>;
+
+export const getUnit = (field: NumberFieldSchema, selected: SelectedUnits): UnitSchema =>
+  field.units.find(u => u.unit === selected[field.key]) ?? field.units[0];
+
+/** Re-expresses a value entered in one unit of the field in another. */
+export const convertUnit = (field: NumberFieldSchema, value: number, from: string, to: string): number => {
+  if (from === to) return value;
+  const canonical = getUnit(field, { [field.key]: from }).toCanonical(value);
+  return getUnit(field, { [field.key]: to }).fromCanonical(canonical);
+};
+
+/** Converts form values entered in the selected units into canonical units for predictors and storage. */
+export const normalisePatientData = (data: PatientData, selected: SelectedUnits): PatientData =>
+  FIELD_SCHEMA.reduce<PatientData>((result, field) => {
+    const value = result[field.key];
+    if (field.type !== 'number' || typeof value !== 'number') return result;
+    return { ...result, [field.key]: getUnit(field, selected).toCanonical(value) };
+  }, data);
+
+/** The inverse of normalisePatientData: expresses canonical data in the selected units. */
+export const toSelectedUnits = (data: PatientData, selected: SelectedUnits): PatientData =>
+  FIELD_SCHEMA.reduce<PatientData>((result, field) => {
+    const value = result[field.key];
+    if (field.type !== 'number' || typeof value !== 'number') return result;
+    return { ...result, [field.key]: getUnit(field, selected).fromCanonical(value) };
+  }, data);
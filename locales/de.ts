@@ -0,0 +1,445 @@
+import type { Catalog } from "../services/i18n";
+
+export const de: Catalog = {
+  name: "Deutsch",
+  englishName: "German",
+  intlLocale: "de-DE",
+  sections: {
+    demographic: "Demografische Angaben",
+    social: "Soziales & Beruf",
+    medical: "Krankengeschichte",
+    clinical: "Klinische Messwerte",
+    lifestyle: "Lebensstil",
+    additional: "Weitere klinische Angaben (optional)",
+  },
+  fields: {
+    gender: { label: "Geschlecht" },
+    age: { label: "Alter", range: "Bitte ein gültiges Alter eingeben ({min}–{max})." },
+    workType: { label: "Beschäftigung" },
+    residenceType: { label: "Wohnumgebung" },
+    everMarried: { label: "Jemals verheiratet" },
+    hypertension: { label: "Bluthochdruck", helpText: "Diagnostizierter Bluthochdruck, behandelt oder unbehandelt." },
+    heartDisease: {
+      label: "Herzerkrankung",
+      helpText: "Jede diagnostizierte Herzerkrankung, z. B. koronare Herzkrankheit oder Herzinsuffizienz.",
+    },
+    avgGlucoseLevel: {
+      label: "Durchschnittlicher Glukosewert",
+      required: "Bitte einen Glukosewert eingeben oder als unbekannt markieren.",
+    },
+    bmi: {
+      label: "BMI (Body-Mass-Index)",
+      required: "Bitte einen BMI eingeben oder als unbekannt markieren.",
+      range: "Der Wert muss zwischen {min} und {max} liegen.",
+    },
+    smokingStatus: { label: "Rauchverhalten" },
+    systolicBp: { label: "Systolischer Blutdruck", helpText: "Wird für den Framingham-Schlaganfall-Score benötigt." },
+    antihypertensiveTreatment: { label: "Nimmt Blutdruckmedikamente" },
+    diabetes: { label: "Diabetes" },
+    atrialFibrillation: { label: "Vorhofflimmern" },
+    congestiveHeartFailure: { label: "Herzinsuffizienz" },
+    vascularDisease: {
+      label: "Gefäßerkrankung",
+      helpText: "Früherer Herzinfarkt, periphere arterielle Verschlusskrankheit oder Aortenplaque.",
+    },
+    priorStroke: { label: "Früherer Schlaganfall oder TIA", helpText: "Einschließlich anderer thromboembolischer Ereignisse." },
+    leftVentricularHypertrophy: { label: "Linksventrikuläre Hypertrophie", helpText: "Wie im EKG festgestellt." },
+  },
+  options: {
+    gender: { Male: "Männlich", Female: "Weiblich", Other: "Divers" },
+    workType: {
+      Private: "Privatwirtschaft",
+      "Self-employed": "Selbstständig",
+      Govt_job: "Öffentlicher Dienst",
+      children: "Kind",
+      Never_worked: "Nie berufstätig",
+    },
+    residenceType: { Urban: "Städtisch", Rural: "Ländlich" },
+    smokingStatus: {
+      "never smoked": "Nie geraucht",
+      "formerly smoked": "Ehemals Raucher",
+      smokes: "Raucht",
+      Unknown: "Unbekannt",
+    },
+  },
+  validation: {
+    required: "{label} ist erforderlich.",
+    range: "Der Wert muss zwischen {min} und {max} {unit} liegen.",
+    number: "{label} muss eine Zahl sein, z. B. 28,4.",
+    option: "Bitte {label} auswählen.",
+    yesNo: "{label} muss Ja oder Nein sein.",
+  },
+  rules: {
+    "children-age": "Die Beschäftigung „Kind“ gilt nur für Patienten unter 18 Jahren.",
+    "children-married": "Ein Patient mit der Beschäftigung „Kind“ kann nicht verheiratet gewesen sein.",
+  },
+  riskLevels: {
+    "Low Risk": "Geringes Risiko",
+    "Moderate Risk": "Mittleres Risiko",
+    "High Risk": "Hohes Risiko",
+  },
+  confidence: {
+    high: "hohe Sicherheit",
+    moderate: "mittlere Sicherheit",
+    low: "geringe Sicherheit",
+  },
+  rationales: {
+    above: "über",
+    below: "unter",
+    age: "Alter {age} liegt {comparison} dem Datensatz-Durchschnitt von {reference}; das Schlaganfallrisiko steigt mit dem Alter stark an.",
+    hypertension: "Bluthochdruck ist einer der stärksten beeinflussbaren Risikofaktoren für einen Schlaganfall.",
+    heartDisease: "Eine bestehende Herzerkrankung erhöht das Risiko eines embolischen Schlaganfalls.",
+    avgGlucoseLevel: "Ein Glukosewert von {value} mg/dL liegt {comparison} dem Referenzwert von {reference} mg/dL; erhöhte Glukose schädigt die Blutgefäße.",
+    bmi: "Ein BMI von {value} liegt {comparison} dem Referenzwert von {reference}.",
+    smokes: "Aktives Rauchen beschleunigt die Arteriosklerose und erhöht die Gerinnungsneigung.",
+    formerlySmoked: "Früheres Rauchen hinterlässt ein leicht erhöhtes Gefäßrisiko.",
+    other: "Geringer Zusammenhang in den Trainingsdaten.",
+  },
+  errors: {
+    authentication: "Der Gemini-API-Schlüssel fehlt oder wurde abgelehnt. GEMINI_API_KEY prüfen oder zum lokalen Modell wechseln.",
+    quota: "Das Gemini-Nutzungslimit ist erreicht. Eine Minute warten und erneut versuchen oder zum lokalen Modell wechseln.",
+    timeout: "Das Modell hat zu lange für die Antwort gebraucht. Bitte erneut versuchen.",
+    network: "Der Vorhersagedienst ist nicht erreichbar. Die Verbindung prüfen oder zum lokalen Modell wechseln.",
+    malformed: "Das Modell hat eine ungültige Vorhersage geliefert. Bitte erneut versuchen.",
+    cancelled: "Die Vorhersage wurde abgebrochen.",
+    localOnly: "Der Nur-lokal-Modus ist aktiv. Das lokale Modell verwenden oder den Nur-lokal-Modus im Tab „Datenschutz“ ausschalten.",
+    consent: "Für das Senden von Daten an Gemini ist Ihre Zustimmung für diese Sitzung nötig. Im Tab „Datenschutz“ zustimmen oder zum lokalen Modell wechseln.",
+    generic: "Die Vorhersage ist fehlgeschlagen. Bitte erneut versuchen.",
+  },
+  predictors: {
+    local: {
+      name: "Lokales Modell",
+      description: "Logistische Regression, trainiert auf dem Schlaganfall-Datensatz. Läuft offline und ist vollständig deterministisch.",
+    },
+    gemini: {
+      name: "Gemini KI",
+      description: "Sendet de-identifizierte Patientendaten an Gemini für eine KI-gestützte Risikoschätzung. Benötigt Netzwerkzugang und einen API-Schlüssel.",
+    },
+  },
+  scenarios: {
+    quitSmoking: "Rauchstopp",
+    reduceBmi: "BMI auf {bmi} gesenkt",
+    controlGlucose: "Glukose eingestellt",
+    controlBp: "Blutdruck eingestellt",
+    allChanges: "Alles zusammen",
+    custom: "Eigenes Szenario {number}",
+  },
+  clinicalScores: {
+    names: {
+      fsrp: "Framingham-Schlaganfall-Risikoprofil",
+      cha2ds2vasc: "CHA₂DS₂-VASc",
+    },
+    periods: {
+      "10-year": "10-Jahres-",
+      annual: "jährliches ",
+    },
+    components: {
+      age: "Alter",
+      systolicBp: "Systolischer Blutdruck",
+      antihypertensiveTreatment: "Antihypertensive Behandlung",
+      diabetes: "Diabetes",
+      currentSmoker: "Aktiver Raucher",
+      cardiovascularDisease: "Herz-Kreislauf-Erkrankung",
+      atrialFibrillation: "Vorhofflimmern",
+      leftVentricularHypertrophy: "Linksventrikuläre Hypertrophie",
+      congestiveHeartFailure: "Herzinsuffizienz",
+      hypertension: "Bluthochdruck",
+      priorStroke: "Früherer Schlaganfall, TIA oder Thromboembolie",
+      vascularDisease: "Gefäßerkrankung",
+      sexCategory: "Geschlecht",
+    },
+    reasons: {
+      sexTables: "Verwendet getrennte Tabellen für Männer und Frauen.",
+      ageRange: "Nur für ein Alter von {min}–{max} definiert.",
+      needsSystolicBp: "Benötigt den systolischen Blutdruck.",
+      needsAge: "Benötigt das Alter des Patienten.",
+    },
+    notes: {
+      cardiovascularDisease: "Herz-Kreislauf-Erkrankung umfasst Herzerkrankung, Herzinsuffizienz und Gefäßerkrankung.",
+      smokingUnknown: "Der Raucherstatus ist unbekannt und wurde als Nichtraucher gewertet.",
+      atrialFibrillationOnly: "Nur bei Patienten mit Vorhofflimmern validiert; zur Orientierung angezeigt.",
+      noSexPoint: "Für das Geschlecht wurde kein Punkt vergeben.",
+    },
+  },
+  report: {
+    title: "Bericht zur Schlaganfall-Risikobewertung",
+    documentTitle: "Schlaganfall-Risikobericht",
+    print: "Drucken",
+    patient: "Patient: {name}",
+    generated: "Erstellt am {date}",
+    engine: "Vorhersagemodell: {name} (Modell {modelId})",
+    strokePrediction: "Schlaganfall-Vorhersage",
+    yes: "JA",
+    no: "NEIN",
+    strokeOutcome: "Schlaganfall",
+    strokePredicted: "Schlaganfall vorhergesagt.",
+    strokeNotPredicted: "Kein Schlaganfall vorhergesagt.",
+    unidentifiedPatient: "Nicht identifizierter Patient",
+    factorNote: "{label} ({value}): {points} Prozentpunkte. {rationale}",
+  },
+  fhirImport: {
+    notFhir: "Keine FHIR-Ressource: resourceType fehlt.",
+    noPatient: "Das Bundle enthält keine Patient-Ressource.",
+    multiplePatients: "Das Bundle enthält {count} Patient-Ressourcen; nur die erste wurde verwendet.",
+    maritalStatus: "Der Familienstand {concept} sagt nicht aus, ob der Patient je verheiratet war.",
+    bmiUnit: "Der BMI ist in {unit} statt in kg/m2 angegeben und wurde nicht verwendet.",
+    heightUnit: "Die Größe ist in {unit} angegeben, keiner bekannten Längeneinheit; der BMI wurde nicht berechnet.",
+    weightUnit: "Das Gewicht ist in {unit} angegeben, keiner bekannten Masseneinheit; der BMI wurde nicht berechnet.",
+    noUnit: "keiner Einheit",
+    bmiCalculated: "Der BMI wurde aus der letzten Größe und dem letzten Gewicht berechnet.",
+    smokingCode: "Der Raucherstatus {concept} ist kein bekannter SNOMED-CT-Code.",
+    resolvedHypertension: "Die Hypertonie ist als abgeklungen erfasst ({concept}) und wurde nicht gezählt.",
+    noStandardMapping: "Für {label} gibt es keine Standarddarstellung in FHIR; bitte manuell eingeben.",
+    uncoded: "nicht codiert",
+  },
+  riskPolicy: {
+    labels: {
+      moderateThreshold: "Schwellenwert für mittleres Risiko",
+      highThreshold: "Schwellenwert für hohes Risiko",
+      decisionThreshold: "Schwellenwert für die Schlaganfall-Vorhersage",
+    },
+    required: "{label} ist erforderlich.",
+    range: "{label} muss über 0 % und höchstens 100 % liegen.",
+    order: "Der Schwellenwert für hohes Risiko muss über dem für mittleres Risiko liegen.",
+  },
+  csv: {
+    empty: "Die Datei ist leer.",
+    missingColumns: "Erforderliche Spalten fehlen: {columns}.",
+    missingColumn: "Erforderliche Spalte fehlt: {column}.",
+    scoredFileHint: "Die Datei im Tab „Stapelbewertung“ bewerten und deren Export importieren.",
+    unrecognisedValue: "{column}: unbekannter Wert „{value}“.",
+    cancelled: "Bewertung abgebrochen.",
+    predictionFailed: "Vorhersage fehlgeschlagen: {message}",
+  },
+  units: {
+    years: "Jahre",
+  },
+  ui: {
+    appTitle: "Schlaganfall-Vorhersagesystem",
+    appSubtitle: "Klinische und demografische Patientendaten eingeben, um Schlaganfall-Risikofaktoren mit KI-Analyse zu bewerten.",
+    language: "Sprache",
+    viewSingle: "Einzelner Patient",
+    viewBatch: "Stapelbewertung",
+    viewPatients: "Patientenakten",
+    viewCohort: "Kohorten-Dashboard",
+    viewEvaluation: "Modellbewertung",
+    viewSettings: "Risikorichtlinie",
+    viewPrivacy: "Datenschutz",
+    patientRecord: "Patientenakte",
+    existingPatient: "Vorhandener Patient",
+    noPatient: "— Diese Bewertung nicht speichern —",
+    newPatient: "Neuer Patient",
+    newPatientPlaceholder: "Name oder Akten-ID",
+    addPatient: "Patient hinzufügen",
+    patientStorageNote: "Bewertungen eines ausgewählten Patienten werden in diesem Browser gespeichert und erscheinen unter „Patientenakten“.",
+    importFhir: "FHIR-Bundle importieren",
+    fhirFile: "FHIR-Bundle-Datei",
+    fhirInvalidJson: "Die Datei ist kein gültiges JSON.",
+    fhirReadFailed: "Das FHIR-Bundle konnte nicht gelesen werden.",
+    dismissImportReport: "Importbericht schließen",
+    importedFields: "Importierte Felder: {count}.",
+    importedFieldsFor: "Importierte Felder für {name}: {count}.",
+    importMissing: "Fehlt, bitte eingeben:",
+    importAssumedAbsent: "Keine passende Condition, auf Nein gesetzt:",
+    importUnused: "Nicht verwendete Einträge: {count}",
+    predictionEngine: "Vorhersagemodell",
+    predict: "Schlaganfallrisiko vorhersagen",
+    processing: "Wird berechnet...",
+    cancel: "Abbrechen",
+    correctErrors: "Bitte die Fehler in den markierten Feldern korrigieren.",
+    patientsLoadFailed: "Der lokale Patientenspeicher konnte nicht geöffnet werden. Bewertungen werden nicht gespeichert.",
+    patientLoadFailed: "Die früheren Bewertungen dieses Patienten konnten nicht geladen werden.",
+    patientCreateFailed: "{name} konnte nicht zum lokalen Patientenspeicher hinzugefügt werden.",
+    saveFailed: "Die Vorhersage konnte nicht in der Patientenakte gespeichert werden.",
+    pdfFailed: "Der PDF-Bericht konnte nicht erstellt werden.",
+    noPredictionTitle: "Noch keine Vorhersage",
+    noPredictionText: "Patientendaten eingeben und das Modell ausführen, um die Risikobewertung zu sehen.",
+    predictionResult: "Vorhersageergebnis",
+    strokeYes: "Schlaganfall: JA",
+    strokeNo: "Schlaganfall: NEIN",
+    strokeProbability: "Schlaganfallwahrscheinlichkeit",
+    riskLevel: "Risikostufe",
+    savedTo: "In der Akte von {name} gespeichert.",
+    predictedWith: "Vorhergesagt mit:",
+    printReport: "Bericht drucken",
+    downloadPdf: "PDF herunterladen",
+    exportFhir: "FHIR-RiskAssessment exportieren",
+    disclaimerLabel: "Haftungsausschluss:",
+    disclaimer:
+      "Dieses System dient ausschließlich Lehrzwecken und ersetzt keine ärztliche Diagnose. Für medizinischen Rat wenden Sie sich bitte an qualifiziertes medizinisches Fachpersonal.",
+    contributingFactors: "Einflussfaktoren",
+    noFactors: "Bei diesem Patienten stach kein einzelner Faktor hervor.",
+    points: "{points} Pkt.",
+    likelyRange: "Wahrscheinlicher Bereich {low}–{high} %, {confidence}",
+    fieldsUnknown: "({fields} unbekannt)",
+    yes: "Ja",
+    no: "Nein",
+    unknown: "Unbekannt",
+    markUnknown: "Unbekannt (geschätzt, mit breiterem Risikobereich)",
+    example: "z. B. {value}",
+    showCalculator: "Aus Größe & Gewicht",
+    hideCalculator: "Rechner ausblenden",
+    bmiCalculator: "BMI aus Größe & Gewicht berechnen",
+    metric: "Metrisch",
+    imperial: "Imperial",
+    height: "Größe ({unit})",
+    weight: "Gewicht ({unit})",
+    bmiCalculated: "BMI als {bmi} berechnet und oben eingetragen.",
+    unitOf: "Einheit für {label}",
+    increasesRisk: "erhöht das Risiko",
+    decreasesRisk: "senkt das Risiko",
+    resultAnnouncement: "Vorhersage liegt vor. {verdict}. {riskLevel}, Schlaganfallwahrscheinlichkeit {probability}.",
+    predictorUnavailable: "Im Nur-lokal-Modus nicht verfügbar.",
+    consentTitle: "Daten an {name} senden?",
+    consentIntro: "{name} läuft außerhalb dieses Geräts. Nur diese klinischen Felder werden an {modelId} gesendet, niemals Namen, Akten-IDs oder Notizen.",
+    consentAgeBands: "Das Alter wird in {years}-Jahres-Gruppen gesendet.",
+    consentAudit: "Ein Alter über 89 wird als 90+ gesendet. Jede Anfrage wird im Audit-Protokoll im Tab „Datenschutz“ festgehalten.",
+    consentConfirm: "Ich bestätige, dass diese Daten für den Rest dieser Sitzung an {name} gesendet werden dürfen.",
+    consentAccept: "Senden und fortfahren",
+    clinicalScores: "Klinische Risikoscores",
+    scoreUnavailable: "Nicht verfügbar: {reason}",
+    scoreSummary: "{points} von {maxPoints} Punkten · {risk} {period}Schlaganfallrisiko",
+    scoreAssumedAbsent: "Nicht erfasst, als nicht vorhanden gewertet: {fields}.",
+    scoreDisagreement: "{scoreName} stuft diesen Patienten als {scoreLevel} ein, {predictorName} schätzte jedoch {predictedLevel}.",
+    scoreDisagreementAdvice: "Die Eingaben prüfen und den validierten Score berücksichtigen, bevor auf Grundlage der Schätzung gehandelt wird.",
+    clinicalScoresFootnote:
+      "Die Scores nutzen bei Bedarf den Abschnitt „Weitere klinische Angaben“. Die Framingham-Risikostufen folgen den Schwellenwerten der Risikorichtlinie.",
+    scenarios: "Was-wäre-wenn-Szenarien",
+    addScenario: "Szenario hinzufügen",
+    removeScenario: "Szenario entfernen",
+    noScenarios: "Bei diesem Patienten stechen keine beeinflussbaren Risikofaktoren hervor. Ein eigenes Szenario hinzufügen, um Änderungen zu erkunden.",
+    baseline: "Ausgangslage",
+    probability: "Wahrscheinlichkeit",
+    compareScenarios: "Szenarien vergleichen",
+    scoringScenarios: "Szenarien werden berechnet…",
+    readCsvFailed: "Die CSV-Datei konnte nicht gelesen werden.",
+    exportCsv: "CSV exportieren",
+    stop: "Stoppen",
+    batchUpload: "Patientenliste hochladen",
+    batchCsvIntro: "CSV mit den Spalten des Schlaganfall-Datensatzes: {columns}. Eine optionale Spalte {id} wird in die Ergebnisse übernommen.",
+    batchFile: "CSV-Datei mit der Patientenliste",
+    batchRowsRead: "Gelesene Zeilen: {count} · {valid} · {rejected}",
+    batchValid: "Gültig: {count}",
+    batchRejected: "Abgelehnt: {count}",
+    batchScore: "Patienten bewerten ({count})",
+    batchScoring: "Wird bewertet…",
+    batchDone: "Fertig",
+    batchRow: "Zeile",
+    batchId: "ID",
+    batchIssues: "Probleme",
+    patients: "Patienten",
+    noPatients: "Noch keine Patienten. Vor einer Vorhersage im Tab „Einzelner Patient“ einen Patienten auswählen oder hinzufügen.",
+    selectPatient: "Einen Patienten auswählen, um seinen Bewertungsverlauf zu sehen.",
+    recordsLoadFailed: "Der lokale Patientenspeicher konnte nicht geöffnet werden.",
+    recordsAssessmentsFailed: "Die Bewertungen dieses Patienten konnten nicht geladen werden.",
+    deletePatientConfirm: "{name} und alle zugehörigen Bewertungen löschen?",
+    deletePatientFailed: "{name} konnte nicht gelöscht werden.",
+    deletePatient: "Patient löschen",
+    patientAdded: "Hinzugefügt am {date} · Bewertungen: {count}",
+    noAssessments: "Noch keine Bewertungen erfasst.",
+    recordsDate: "Datum",
+    recordsEngine: "Modell",
+    recordsGlucose: "Glukose",
+    recordsBmi: "BMI",
+    recordsSmoking: "Rauchen",
+    recordsChanged: "Hervorgehobene Werte haben sich seit dem vorherigen Besuch geändert.",
+    trendChart: "Schlaganfallwahrscheinlichkeit über die Besuche",
+    cohort: "Kohorte",
+    cohortRecords: "Patientenakten",
+    cohortStored: "Gespeicherte Bewertungen: {count}",
+    cohortImported: "Importierte Ergebnisse",
+    cohortImportedFile: "{fileName} · Patienten: {count}",
+    cohortRowsSkipped: "Übersprungene Zeilen: {count}",
+    cohortImportHint: "Eine aus der Stapelbewertung exportierte CSV-Datei.",
+    cohortFile: "CSV-Datei mit Bewertungen",
+    cohortLatestOnly: "Nur die letzte Bewertung je Patient",
+    cohortLoadFailed: "Die gespeicherten Bewertungen konnten nicht geladen werden.",
+    cohortFilters: "Filter",
+    cohortClearFilters: "Filter zurücksetzen",
+    cohortAll: "Alle",
+    cohortAgeBand: "Altersgruppe",
+    cohortPatients: "Patienten: {filtered} von {total}",
+    cohortMeanProbability: "Mittlere Wahrscheinlichkeit: {value}",
+    cohortHighRisk: "Hohes Risiko: {value}",
+    cohortEmpty: "Noch keine bewerteten Patienten. Bewertungen in Patientenakten speichern oder eine bewertete CSV-Datei importieren.",
+    cohortNoMatch: "Keine Patienten entsprechen den Filtern.",
+    cohortDistribution: "Verteilung der Risikostufen",
+    cohortHistogram: "Histogramm der Wahrscheinlichkeiten",
+    cohortHistogramAxis: "Schlaganfallwahrscheinlichkeit (%)",
+    cohortRiskBy: "Risiko nach {label}",
+    cohortPrevalence: "Hypertonie und Herzerkrankung nach Risikostufe",
+    chartExportFailed: "Das Diagramm konnte nicht exportiert werden.",
+    evaluationDataset: "Datensatz mit Ergebnissen",
+    evaluationCsvIntro: "CSV mit den Spalten des Schlaganfall-Datensatzes ({columns}) und dem beobachteten Ergebnis in einer Spalte {stroke} (0 oder 1).",
+    evaluationFile: "CSV-Datei mit Ergebnissen",
+    evaluationRowsRead: "Gelesene Zeilen: {count} · {usable} · Mit Schlaganfall: {positives} · Abgelehnt oder ohne Ergebnis: {rejected}",
+    evaluationUsable: "Verwendbar: {count}",
+    evaluationPredictors: "Zu vergleichende Modelle",
+    noApiKey: "Kein API-Schlüssel konfiguriert.",
+    evaluationMaxRows: "Höchstens so viele Zeilen (optional)",
+    evaluationAllRows: "Alle Zeilen",
+    evaluationMaxRowsHelp: "Entfernte Modelle sind ratenbegrenzt, große Dateien dauern daher eine Weile; für eine schnelle Prüfung begrenzen.",
+    evaluate: "Bewerten",
+    evaluationScoringWith: "Bewertung mit {name}…",
+    evaluationFailed: "Die Bewertung ist fehlgeschlagen.",
+    evaluationResults: "Ergebnisse",
+    evaluationMetric: "Kennzahl",
+    metricSamples: "Bewertete Fälle",
+    metricPositives: "Positive (Schlaganfall = 1)",
+    metricSkipped: "Übersprungene Zeilen",
+    metricAuc: "AUC-ROC",
+    metricBrier: "Brier-Score",
+    metricPrecision: "Präzision",
+    metricRecall: "Recall (Sensitivität)",
+    metricSpecificity: "Spezifität",
+    metricAccuracy: "Genauigkeit",
+    metricConfusion: "RP / FP / RN / FN",
+    evaluationFootnote:
+      "Präzision, Recall, Spezifität und Genauigkeit werden an der eigenen {decision}-Entscheidung jedes Modells gemessen. Ein niedrigerer Brier-Score ist besser; die AUC-ROC braucht beide Ergebnisse.",
+    rocCurve: "ROC-Kurve",
+    falsePositiveRate: "Falsch-positiv-Rate",
+    truePositiveRate: "Richtig-positiv-Rate",
+    calibrationCurve: "Kalibrierungskurve",
+    meanPredicted: "Mittlere vorhergesagte Wahrscheinlichkeit",
+    observedRate: "Beobachtete Schlaganfallrate",
+    policyIntro:
+      "Diese Schwellenwerte machen aus der Schlaganfallwahrscheinlichkeit jedes Vorhersagemodells eine Risikostufe und eine Ja/Nein-Vorhersage. Sie werden in diesem Browser gespeichert und gelten für jede neue Vorhersage.",
+    policyModerateLabel: "Mittleres Risiko ab",
+    policyModerateHelp: "Wahrscheinlichkeiten ab diesem Wert werden als mittleres Risiko angezeigt.",
+    policyHighLabel: "Hohes Risiko ab",
+    policyHighHelp: "Wahrscheinlichkeiten ab diesem Wert werden als hohes Risiko angezeigt.",
+    policyDecisionLabel: "Schlaganfall vorhersagen ab",
+    policyDecisionHelp: "Niedrigere Werte markieren mehr Patienten: höhere Sensitivität, geringere Spezifität.",
+    policyPreview: "Vorschau",
+    policyBand: "{from} bis unter {to}",
+    policyBandTop: "ab {from}",
+    policyDecision: "ab {threshold} (schwarze Markierung)",
+    policyMarker: "Schlaganfall vorhergesagt ab {threshold}",
+    savePolicy: "Richtlinie speichern",
+    restoreDefaults: "Standardwerte wiederherstellen",
+    policySaved: "Richtlinie gespeichert. Sie gilt ab der nächsten Vorhersage.",
+    privacyIntro:
+      "Entfernte Modelle erhalten nur eine festgelegte Auswahl klinischer Felder, niemals Namen oder Akten-IDs. Diese Einstellungen werden in diesem Browser gespeichert.",
+    localOnly: "Nur-lokal-Modus",
+    localOnlyHelp: "Jeden Aufruf eines entfernten Modells ablehnen. Nur das lokale Modell kann verwendet werden.",
+    ageSent: "An entfernte Modelle gesendetes Alter",
+    exactAge: "Genaues Alter",
+    ageBands: "{years}-Jahres-Gruppen",
+    ageBandsHelp: "Ein Alter über 89 wird immer als 90+ gesendet.",
+    sessionConsent: "Zustimmung für diese Sitzung",
+    consentGiven: "Patientendaten dürfen an entfernte Modelle gesendet werden, bis dieser Tab geschlossen wird.",
+    consentNotGiven: "Vor dem Senden von Patientendaten an ein entferntes Modell wird um Zustimmung gebeten.",
+    withdrawConsent: "Widerrufen",
+    giveConsent: "Zustimmen",
+    auditLog: "Audit-Protokoll",
+    exportLog: "Exportieren",
+    clearLog: "Leeren",
+    clearLogConfirm: "Das Audit-Protokoll löschen? Dies kann nicht rückgängig gemacht werden.",
+    auditIntro: "Jede an ein entferntes Modell gesendete Nutzlast, erfasst bevor sie diesen Browser verlässt. Die letzten {count} werden aufbewahrt.",
+    auditEmpty: "Es wurden keine Daten an ein entferntes Modell gesendet.",
+    auditTime: "Zeit",
+    auditModel: "Modell",
+    auditPayload: "Nutzlast",
+    auditFields: "Felder: {count}",
+  },
+};
@@ -0,0 +1,402 @@
+import type { Catalog } from "../services/i18n";
+import { FIELD_SCHEMA, SECTIONS } from "../formSchema";
+import { DISCLAIMER } from "../constants";
+
+// English texts of the form come from the schema itself; the other catalogs translate them.
+export const en: Catalog = {
+  name: "English",
+  englishName: "English",
+  intlLocale: "en-US",
+  sections: Object.fromEntries(SECTIONS.map(section => [section.id, section.title])),
+  fields: Object.fromEntries(
+    FIELD_SCHEMA.map(field => [
+      field.key,
+      {
+        label: field.label,
+        helpText: field.helpText,
+        required: field.type === "number" ? field.messages?.required : undefined,
+        range: field.type === "number" ? field.messages?.range : undefined,
+      },
+    ])
+  ),
+  options: Object.fromEntries(
+    FIELD_SCHEMA.flatMap(field =>
+      field.type === "enum" ? [[field.key, Object.fromEntries(field.options.map(option => [option.value, option.label]))]] : []
+    )
+  ),
+  validation: {
+    required: "{label} is required.",
+    range: "Value must be between {min} and {max} {unit}.",
+    number: "{label} must be a number, e.g. 28.4.",
+    option: "Please select a {labelLower}.",
+    yesNo: "{label} must be yes or no.",
+  },
+  // The rules carry their English messages themselves.
+  rules: {},
+  riskLevels: {
+    "Low Risk": "Low Risk",
+    "Moderate Risk": "Moderate Risk",
+    "High Risk": "High Risk",
+  },
+  confidence: {
+    high: "high confidence",
+    moderate: "moderate confidence",
+    low: "low confidence",
+  },
+  rationales: {
+    above: "above",
+    below: "below",
+    age: "Age {age} is {comparison} the dataset average of {reference}; stroke risk rises steeply with age.",
+    hypertension: "Hypertension is one of the strongest modifiable risk factors for stroke.",
+    heartDisease: "Existing heart disease raises the risk of embolic stroke.",
+    avgGlucoseLevel: "Glucose of {value} mg/dL is {comparison} the reference of {reference} mg/dL; elevated glucose damages blood vessels.",
+    bmi: "BMI of {value} is {comparison} the reference of {reference}.",
+    smokes: "Current smoking accelerates atherosclerosis and raises clotting risk.",
+    formerlySmoked: "Past smoking leaves a residual increase in vascular risk.",
+    other: "Small association observed in the training data.",
+  },
+  errors: {
+    authentication: "The Gemini API key is missing or was rejected. Check GEMINI_API_KEY, or switch to the Local Model.",
+    quota: "The Gemini usage limit has been reached. Wait a minute and try again, or switch to the Local Model.",
+    timeout: "The model took too long to respond. Please try again.",
+    network: "Could not reach the prediction service. Check your connection, or switch to the Local Model.",
+    malformed: "The model returned an invalid prediction. Please try again.",
+    cancelled: "The prediction was cancelled.",
+    localOnly: "Local-only mode is on. Use the Local Model, or turn local-only mode off on the Privacy tab.",
+    consent: "Sending data to Gemini needs your consent for this session. Give it on the Privacy tab, or switch to the Local Model.",
+    generic: "Failed to generate prediction. Please try again.",
+  },
+  predictors: {
+    local: {
+      name: "Local Model",
+      description: "Logistic regression trained on the stroke dataset. Runs offline and is fully deterministic.",
+    },
+    gemini: {
+      name: "Gemini AI",
+      description: "Sends de-identified patient data to Gemini for an AI-based risk estimate. Requires network access and an API key.",
+    },
+  },
+  scenarios: {
+    quitSmoking: "Quit smoking",
+    reduceBmi: "BMI down to {bmi}",
+    controlGlucose: "Glucose under control",
+    controlBp: "Blood pressure controlled",
+    allChanges: "All of the above",
+    custom: "Custom {number}",
+  },
+  clinicalScores: {
+    names: {
+      fsrp: "Framingham Stroke Risk Profile",
+      cha2ds2vasc: "CHA₂DS₂-VASc",
+    },
+    periods: {
+      "10-year": "10-year",
+      annual: "annual",
+    },
+    components: {
+      age: "Age",
+      systolicBp: "Systolic blood pressure",
+      antihypertensiveTreatment: "Antihypertensive treatment",
+      diabetes: "Diabetes",
+      currentSmoker: "Current smoker",
+      cardiovascularDisease: "Cardiovascular disease",
+      atrialFibrillation: "Atrial fibrillation",
+      leftVentricularHypertrophy: "Left ventricular hypertrophy",
+      congestiveHeartFailure: "Congestive heart failure",
+      hypertension: "Hypertension",
+      priorStroke: "Prior stroke, TIA or thromboembolism",
+      vascularDisease: "Vascular disease",
+      sexCategory: "Sex category",
+    },
+    reasons: {
+      sexTables: "Uses separate tables for men and women.",
+      ageRange: "Only defined for ages {min}–{max}.",
+      needsSystolicBp: "Needs the systolic blood pressure.",
+      needsAge: "Needs the patient's age.",
+    },
+    notes: {
+      cardiovascularDisease: "Cardiovascular disease covers heart disease, heart failure and vascular disease.",
+      smokingUnknown: "Smoking status is unknown and was counted as non-smoking.",
+      atrialFibrillationOnly: "Validated in patients with atrial fibrillation only; shown for reference.",
+      noSexPoint: "No sex category point was given.",
+    },
+  },
+  report: {
+    title: "Stroke Risk Assessment Report",
+    documentTitle: "Stroke Risk Report",
+    print: "Print",
+    patient: "Patient: {name}",
+    generated: "Generated {date}",
+    engine: "Prediction engine: {name} (model {modelId})",
+    strokePrediction: "Stroke Prediction",
+    yes: "YES",
+    no: "NO",
+    strokeOutcome: "Stroke",
+    strokePredicted: "Stroke predicted.",
+    strokeNotPredicted: "Stroke not predicted.",
+    unidentifiedPatient: "Unidentified patient",
+    factorNote: "{label} ({value}): {points} percentage points. {rationale}",
+  },
+  fhirImport: {
+    notFhir: "Not a FHIR resource: resourceType is missing.",
+    noPatient: "The bundle has no Patient resource.",
+    multiplePatients: "The bundle has {count} Patient resources; only the first was used.",
+    maritalStatus: "Marital status {concept} does not say whether the patient was ever married.",
+    bmiUnit: "BMI is recorded in {unit} rather than kg/m2 and was not used.",
+    heightUnit: "Height is recorded in {unit}, which is not a known length unit; BMI was not calculated.",
+    weightUnit: "Weight is recorded in {unit}, which is not a known mass unit; BMI was not calculated.",
+    noUnit: "no unit",
+    bmiCalculated: "BMI was calculated from the latest height and weight.",
+    smokingCode: "Smoking status {concept} is not a recognised SNOMED CT code.",
+    resolvedHypertension: "Hypertension is recorded as resolved ({concept}) and was not counted.",
+    noStandardMapping: "{label} has no standard FHIR representation; please enter it manually.",
+    uncoded: "uncoded",
+  },
+  riskPolicy: {
+    labels: {
+      moderateThreshold: "Moderate risk threshold",
+      highThreshold: "High risk threshold",
+      decisionThreshold: "Stroke prediction threshold",
+    },
+    required: "{label} is required.",
+    range: "{label} must be above 0% and at most 100%.",
+    order: "High risk threshold must be above the moderate risk threshold.",
+  },
+  csv: {
+    empty: "The file is empty.",
+    missingColumns: "Missing required columns: {columns}.",
+    missingColumn: "Missing required column: {column}.",
+    scoredFileHint: "Score the file on the Batch Scoring tab and import its export.",
+    unrecognisedValue: '{column}: unrecognised value "{value}".',
+    cancelled: "Scoring cancelled.",
+    predictionFailed: "Prediction failed: {message}",
+  },
+  units: {},
+  ui: {
+    appTitle: "Stroke Prediction System",
+    appSubtitle: "Enter patient clinical and demographic data to assess stroke risk factors using AI analysis.",
+    language: "Language",
+    viewSingle: "Single Patient",
+    viewBatch: "Batch Scoring",
+    viewPatients: "Patient Records",
+    viewCohort: "Cohort Dashboard",
+    viewEvaluation: "Model Evaluation",
+    viewSettings: "Risk Policy",
+    viewPrivacy: "Privacy",
+    patientRecord: "Patient Record",
+    existingPatient: "Existing Patient",
+    noPatient: "— Don't save this assessment —",
+    newPatient: "New Patient",
+    newPatientPlaceholder: "Name or record ID",
+    addPatient: "Add patient",
+    patientStorageNote: "Assessments for a selected patient are stored in this browser and appear under Patient Records.",
+    importFhir: "Import FHIR bundle",
+    fhirFile: "FHIR bundle file",
+    fhirInvalidJson: "The file is not valid JSON.",
+    fhirReadFailed: "Could not read the FHIR bundle.",
+    dismissImportReport: "Dismiss import report",
+    importedFields: "Fields imported: {count}.",
+    importedFieldsFor: "Fields imported for {name}: {count}.",
+    importMissing: "Missing, please enter:",
+    importAssumedAbsent: "No matching Condition, set to No:",
+    importUnused: "Entries not used: {count}",
+    predictionEngine: "Prediction Engine",
+    predict: "Predict Stroke Risk",
+    processing: "Processing...",
+    cancel: "Cancel",
+    correctErrors: "Please correct the errors in the highlighted fields.",
+    patientsLoadFailed: "Could not open the local patient store. Assessments will not be saved.",
+    patientLoadFailed: "Could not load the previous assessments of this patient.",
+    patientCreateFailed: "Could not add {name} to the local patient store.",
+    saveFailed: "The prediction could not be saved to the patient record.",
+    pdfFailed: "Could not create the PDF report.",
+    noPredictionTitle: "No Prediction Yet",
+    noPredictionText: "Enter patient details and run the model to see the risk assessment.",
+    predictionResult: "Prediction Result",
+    strokeYes: "Stroke: YES",
+    strokeNo: "Stroke: NO",
+    strokeProbability: "Stroke Probability",
+    riskLevel: "Risk Level",
+    savedTo: "Saved to the record of {name}.",
+    predictedWith: "Predicted with:",
+    printReport: "Print Report",
+    downloadPdf: "Download PDF",
+    exportFhir: "Export FHIR RiskAssessment",
+    disclaimerLabel: "Disclaimer:",
+    disclaimer: DISCLAIMER,
+    contributingFactors: "Contributing Factors",
+    noFactors: "No individual factor stood out for this patient.",
+    points: "{points} pts",
+    likelyRange: "Likely range {low}–{high}%, {confidence}",
+    fieldsUnknown: "({fields} unknown)",
+    yes: "Yes",
+    no: "No",
+    unknown: "Unknown",
+    markUnknown: "Unknown (estimated, with a wider risk range)",
+    example: "e.g. {value}",
+    showCalculator: "From height & weight",
+    hideCalculator: "Hide calculator",
+    bmiCalculator: "Calculate BMI from height & weight",
+    metric: "Metric",
+    imperial: "Imperial",
+    height: "Height ({unit})",
+    weight: "Weight ({unit})",
+    bmiCalculated: "BMI calculated as {bmi} and filled in above.",
+    unitOf: "Unit of {label}",
+    increasesRisk: "increases risk",
+    decreasesRisk: "decreases risk",
+    resultAnnouncement: "Prediction ready. {verdict}. {riskLevel}, stroke probability {probability}.",
+    predictorUnavailable: "Unavailable in local-only mode.",
+    consentTitle: "Send data to {name}?",
+    consentIntro: "{name} runs outside this device. Only these clinical fields are sent to {modelId}; names, record ids and notes never are.",
+    consentAgeBands: "Age is sent in {years}-year bands.",
+    consentAudit: "Ages over 89 are sent as 90+. Every request is recorded in the audit log on the Privacy tab.",
+    consentConfirm: "I confirm this data may be sent to {name} for the rest of this session.",
+    consentAccept: "Send and continue",
+    clinicalScores: "Clinical Risk Scores",
+    scoreUnavailable: "Not available: {reason}",
+    scoreSummary: "{points} of {maxPoints} points · {risk} {period} stroke risk",
+    scoreAssumedAbsent: "Not recorded, counted as absent: {fields}.",
+    scoreDisagreement: "{scoreName} puts this patient at {scoreLevel}, but {predictorName} estimated {predictedLevel}.",
+    scoreDisagreementAdvice: "Review the inputs and weigh the validated score before acting on the estimate.",
+    clinicalScoresFootnote:
+      "Scores use the Additional Clinical Details section where they need it. Framingham risk levels follow the risk policy thresholds.",
+    scenarios: "What-if Scenarios",
+    addScenario: "Add scenario",
+    removeScenario: "Remove scenario",
+    noScenarios: "No modifiable risk factors stand out for this patient. Add a custom scenario to explore changes.",
+    baseline: "Baseline",
+    probability: "Probability",
+    compareScenarios: "Compare Scenarios",
+    scoringScenarios: "Scoring scenarios…",
+    readCsvFailed: "Could not read the CSV file.",
+    exportCsv: "Export CSV",
+    stop: "Stop",
+    batchUpload: "Upload Patient List",
+    batchCsvIntro: "CSV with the stroke dataset columns: {columns}. An optional {id} column is carried through to the results.",
+    batchFile: "Patient list CSV file",
+    batchRowsRead: "Rows read: {count} · {valid} · {rejected}",
+    batchValid: "Valid: {count}",
+    batchRejected: "Rejected: {count}",
+    batchScore: "Score Patients ({count})",
+    batchScoring: "Scoring…",
+    batchDone: "Done",
+    batchRow: "Row",
+    batchId: "ID",
+    batchIssues: "Issues",
+    patients: "Patients",
+    noPatients: "No patients yet. Select or add a patient on the Single Patient tab before running a prediction.",
+    selectPatient: "Select a patient to see their assessment history.",
+    recordsLoadFailed: "Could not open the local patient store.",
+    recordsAssessmentsFailed: "Could not load assessments for this patient.",
+    deletePatientConfirm: "Delete {name} and all of their assessments?",
+    deletePatientFailed: "Could not delete {name}.",
+    deletePatient: "Delete patient",
+    patientAdded: "Added {date} · Assessments: {count}",
+    noAssessments: "No assessments recorded yet.",
+    recordsDate: "Date",
+    recordsEngine: "Engine",
+    recordsGlucose: "Glucose",
+    recordsBmi: "BMI",
+    recordsSmoking: "Smoking",
+    recordsChanged: "Highlighted values changed since the previous visit.",
+    trendChart: "Stroke probability across visits",
+    cohort: "Cohort",
+    cohortRecords: "Patient records",
+    cohortStored: "Stored assessments: {count}",
+    cohortImported: "Imported results",
+    cohortImportedFile: "{fileName} · Patients: {count}",
+    cohortRowsSkipped: "Rows skipped: {count}",
+    cohortImportHint: "A CSV exported from Batch Scoring.",
+    cohortFile: "Scored CSV file",
+    cohortLatestOnly: "Latest assessment per patient only",
+    cohortLoadFailed: "Could not load the stored assessments.",
+    cohortFilters: "Filters",
+    cohortClearFilters: "Clear filters",
+    cohortAll: "All",
+    cohortAgeBand: "Age Band",
+    cohortPatients: "Patients: {filtered} of {total}",
+    cohortMeanProbability: "Mean probability: {value}",
+    cohortHighRisk: "High risk: {value}",
+    cohortEmpty: "No scored patients yet. Save assessments to patient records or import a scored CSV.",
+    cohortNoMatch: "No patients match the filters.",
+    cohortDistribution: "Risk Level Distribution",
+    cohortHistogram: "Probability Histogram",
+    cohortHistogramAxis: "Stroke probability (%)",
+    cohortRiskBy: "Risk by {label}",
+    cohortPrevalence: "Hypertension and Heart Disease by Risk Tier",
+    chartExportFailed: "Could not export the chart.",
+    evaluationDataset: "Labelled Dataset",
+    evaluationCsvIntro: "CSV with the stroke dataset columns ({columns}) and the observed outcome in a {stroke} column (0 or 1).",
+    evaluationFile: "Labelled CSV file",
+    evaluationRowsRead: "Rows read: {count} · {usable} · With stroke: {positives} · Rejected or unlabelled: {rejected}",
+    evaluationUsable: "Usable: {count}",
+    evaluationPredictors: "Predictors to Compare",
+    noApiKey: "No API key configured.",
+    evaluationMaxRows: "Maximum rows (optional)",
+    evaluationAllRows: "All rows",
+    evaluationMaxRowsHelp: "Remote predictors are rate-limited, so large files take a while; cap them for a quick check.",
+    evaluate: "Evaluate",
+    evaluationScoringWith: "Scoring with {name}…",
+    evaluationFailed: "Evaluation failed.",
+    evaluationResults: "Results",
+    evaluationMetric: "Metric",
+    metricSamples: "Samples scored",
+    metricPositives: "Positives (stroke = 1)",
+    metricSkipped: "Rows skipped",
+    metricAuc: "AUC-ROC",
+    metricBrier: "Brier score",
+    metricPrecision: "Precision",
+    metricRecall: "Recall (sensitivity)",
+    metricSpecificity: "Specificity",
+    metricAccuracy: "Accuracy",
+    metricConfusion: "TP / FP / TN / FN",
+    evaluationFootnote:
+      "Precision, recall, specificity and accuracy are measured at each predictor's own {decision} decision. A lower Brier score is better; AUC-ROC needs both outcomes present.",
+    rocCurve: "ROC Curve",
+    falsePositiveRate: "False positive rate",
+    truePositiveRate: "True positive rate",
+    calibrationCurve: "Reliability (Calibration) Curve",
+    meanPredicted: "Mean predicted probability",
+    observedRate: "Observed stroke rate",
+    policyIntro:
+      "These thresholds turn the stroke probability from any prediction engine into a risk level and a yes/no prediction. They are saved in this browser and apply to every new prediction.",
+    policyModerateLabel: "Moderate risk from",
+    policyModerateHelp: "Probabilities at or above this are shown as Moderate Risk.",
+    policyHighLabel: "High risk from",
+    policyHighHelp: "Probabilities at or above this are shown as High Risk.",
+    policyDecisionLabel: "Predict stroke from",
+    policyDecisionHelp: "Lower values flag more patients: higher sensitivity, lower specificity.",
+    policyPreview: "Preview",
+    policyBand: "{from} to below {to}",
+    policyBandTop: "{from} and above",
+    policyDecision: "{threshold} and above (black marker)",
+    policyMarker: "Stroke predicted from {threshold}",
+    savePolicy: "Save Policy",
+    restoreDefaults: "Restore Defaults",
+    policySaved: "Policy saved. It applies from the next prediction.",
+    privacyIntro:
+      "Remote models only receive an allow-listed set of clinical fields, never names or record ids. These settings are saved in this browser.",
+    localOnly: "Local-only mode",
+    localOnlyHelp: "Refuse every remote model call. Only the Local Model can be used.",
+    ageSent: "Age sent to remote models",
+    exactAge: "Exact age",
+    ageBands: "{years}-year bands",
+    ageBandsHelp: "Ages over 89 are always sent as 90+.",
+    sessionConsent: "Consent for this session",
+    consentGiven: "Patient data may be sent to remote models until this tab is closed.",
+    consentNotGiven: "You will be asked before any patient data is sent to a remote model.",
+    withdrawConsent: "Withdraw",
+    giveConsent: "Give consent",
+    auditLog: "Audit Log",
+    exportLog: "Export",
+    clearLog: "Clear",
+    clearLogConfirm: "Delete the audit log? This cannot be undone.",
+    auditIntro: "Every payload sent to a remote model, recorded before it leaves this browser. The latest {count} are kept.",
+    auditEmpty: "No data has been sent to a remote model.",
+    auditTime: "Time",
+    auditModel: "Model",
+    auditPayload: "Payload",
+    auditFields: "Fields: {count}",
+  },
+};
@@ -0,0 +1,445 @@
+import type { Catalog } from "../services/i18n";
+
+export const es: Catalog = {
+  name: "Español",
+  englishName: "Spanish",
+  intlLocale: "es-ES",
+  sections: {
+    demographic: "Datos demográficos",
+    social: "Situación social y laboral",
+    medical: "Antecedentes médicos",
+    clinical: "Mediciones clínicas",
+    lifestyle: "Estilo de vida",
+    additional: "Datos clínicos adicionales (opcional)",
+  },
+  fields: {
+    gender: { label: "Sexo" },
+    age: { label: "Edad", range: "Introduzca una edad válida ({min}–{max})." },
+    workType: { label: "Tipo de trabajo" },
+    residenceType: { label: "Lugar de residencia" },
+    everMarried: { label: "Alguna vez casado/a" },
+    hypertension: { label: "Hipertensión", helpText: "Presión arterial alta diagnosticada, tratada o no." },
+    heartDisease: {
+      label: "Cardiopatía",
+      helpText: "Cualquier enfermedad cardíaca diagnosticada, p. ej. enfermedad coronaria o insuficiencia cardíaca.",
+    },
+    avgGlucoseLevel: {
+      label: "Nivel medio de glucosa",
+      required: "Introduzca un nivel de glucosa o márquelo como desconocido.",
+    },
+    bmi: {
+      label: "IMC (índice de masa corporal)",
+      required: "Introduzca un IMC o márquelo como desconocido.",
+      range: "El valor debe estar entre {min} y {max}.",
+    },
+    smokingStatus: { label: "Tabaquismo" },
+    systolicBp: { label: "Presión arterial sistólica", helpText: "Necesaria para la puntuación de ictus de Framingham." },
+    antihypertensiveTreatment: { label: "Toma medicación para la presión arterial" },
+    diabetes: { label: "Diabetes" },
+    atrialFibrillation: { label: "Fibrilación auricular" },
+    congestiveHeartFailure: { label: "Insuficiencia cardíaca congestiva" },
+    vascularDisease: {
+      label: "Enfermedad vascular",
+      helpText: "Infarto de miocardio previo, enfermedad arterial periférica o placa aórtica.",
+    },
+    priorStroke: { label: "Ictus o AIT previo", helpText: "Incluye otros eventos tromboembólicos." },
+    leftVentricularHypertrophy: { label: "Hipertrofia ventricular izquierda", helpText: "Según el ECG." },
+  },
+  options: {
+    gender: { Male: "Masculino", Female: "Femenino", Other: "Otro" },
+    workType: {
+      Private: "Sector privado",
+      "Self-employed": "Autónomo",
+      Govt_job: "Sector público",
+      children: "Niño/a",
+      Never_worked: "Nunca ha trabajado",
+    },
+    residenceType: { Urban: "Urbano", Rural: "Rural" },
+    smokingStatus: {
+      "never smoked": "Nunca ha fumado",
+      "formerly smoked": "Exfumador/a",
+      smokes: "Fuma",
+      Unknown: "Desconocido",
+    },
+  },
+  validation: {
+    required: "{label} es obligatorio.",
+    range: "El valor debe estar entre {min} y {max} {unit}.",
+    number: "{label} debe ser un número, p. ej. 28,4.",
+    option: "Seleccione {labelLower}.",
+    yesNo: "{label} debe ser sí o no.",
+  },
+  rules: {
+    "children-age": "El tipo de trabajo «niño/a» solo se aplica a pacientes menores de 18 años.",
+    "children-married": "Un paciente con tipo de trabajo «niño/a» no puede haber estado casado.",
+  },
+  riskLevels: {
+    "Low Risk": "Riesgo bajo",
+    "Moderate Risk": "Riesgo moderado",
+    "High Risk": "Riesgo alto",
+  },
+  confidence: {
+    high: "confianza alta",
+    moderate: "confianza moderada",
+    low: "confianza baja",
+  },
+  rationales: {
+    above: "por encima de",
+    below: "por debajo de",
+    age: "La edad de {age} años está {comparison} la media del conjunto de datos, {reference}; el riesgo de ictus aumenta mucho con la edad.",
+    hypertension: "La hipertensión es uno de los factores de riesgo modificables más importantes del ictus.",
+    heartDisease: "Una cardiopatía existente aumenta el riesgo de ictus embólico.",
+    avgGlucoseLevel: "La glucosa de {value} mg/dL está {comparison} la referencia de {reference} mg/dL; la glucosa elevada daña los vasos sanguíneos.",
+    bmi: "El IMC de {value} está {comparison} la referencia de {reference}.",
+    smokes: "Fumar acelera la aterosclerosis y aumenta el riesgo de coágulos.",
+    formerlySmoked: "Haber fumado deja un aumento residual del riesgo vascular.",
+    other: "Pequeña asociación observada en los datos de entrenamiento.",
+  },
+  errors: {
+    authentication: "Falta la clave de la API de Gemini o ha sido rechazada. Revise GEMINI_API_KEY o cambie al modelo local.",
+    quota: "Se ha alcanzado el límite de uso de Gemini. Espere un minuto y vuelva a intentarlo, o cambie al modelo local.",
+    timeout: "El modelo tardó demasiado en responder. Vuelva a intentarlo.",
+    network: "No se pudo conectar con el servicio de predicción. Revise la conexión o cambie al modelo local.",
+    malformed: "El modelo devolvió una predicción no válida. Vuelva a intentarlo.",
+    cancelled: "La predicción se ha cancelado.",
+    localOnly: "El modo solo local está activado. Use el modelo local o desactive el modo solo local en la pestaña Privacidad.",
+    consent: "Enviar datos a Gemini requiere su consentimiento para esta sesión. Otórguelo en la pestaña Privacidad o cambie al modelo local.",
+    generic: "No se pudo generar la predicción. Vuelva a intentarlo.",
+  },
+  predictors: {
+    local: {
+      name: "Modelo local",
+      description: "Regresión logística entrenada con el conjunto de datos de ictus. Funciona sin conexión y es totalmente determinista.",
+    },
+    gemini: {
+      name: "Gemini IA",
+      description: "Envía datos anonimizados del paciente a Gemini para una estimación del riesgo basada en IA. Requiere acceso a la red y una clave de API.",
+    },
+  },
+  scenarios: {
+    quitSmoking: "Dejar de fumar",
+    reduceBmi: "IMC reducido a {bmi}",
+    controlGlucose: "Glucosa controlada",
+    controlBp: "Presión arterial controlada",
+    allChanges: "Todo lo anterior",
+    custom: "Personalizado {number}",
+  },
+  clinicalScores: {
+    names: {
+      fsrp: "Perfil de riesgo de ictus de Framingham",
+      cha2ds2vasc: "CHA₂DS₂-VASc",
+    },
+    periods: {
+      "10-year": "a 10 años",
+      annual: "anual",
+    },
+    components: {
+      age: "Edad",
+      systolicBp: "Presión arterial sistólica",
+      antihypertensiveTreatment: "Tratamiento antihipertensivo",
+      diabetes: "Diabetes",
+      currentSmoker: "Fumador actual",
+      cardiovascularDisease: "Enfermedad cardiovascular",
+      atrialFibrillation: "Fibrilación auricular",
+      leftVentricularHypertrophy: "Hipertrofia ventricular izquierda",
+      congestiveHeartFailure: "Insuficiencia cardíaca congestiva",
+      hypertension: "Hipertensión",
+      priorStroke: "Ictus, AIT o tromboembolia previos",
+      vascularDisease: "Enfermedad vascular",
+      sexCategory: "Sexo",
+    },
+    reasons: {
+      sexTables: "Usa tablas distintas para hombres y mujeres.",
+      ageRange: "Solo está definido para edades de {min}–{max}.",
+      needsSystolicBp: "Necesita la presión arterial sistólica.",
+      needsAge: "Necesita la edad del paciente.",
+    },
+    notes: {
+      cardiovascularDisease: "La enfermedad cardiovascular incluye cardiopatía, insuficiencia cardíaca y enfermedad vascular.",
+      smokingUnknown: "Se desconoce si fuma y se ha contado como no fumador.",
+      atrialFibrillationOnly: "Validado solo en pacientes con fibrilación auricular; se muestra como referencia.",
+      noSexPoint: "No se asignó el punto por sexo.",
+    },
+  },
+  report: {
+    title: "Informe de evaluación del riesgo de ictus",
+    documentTitle: "Informe de riesgo de ictus",
+    print: "Imprimir",
+    patient: "Paciente: {name}",
+    generated: "Generado el {date}",
+    engine: "Motor de predicción: {name} (modelo {modelId})",
+    strokePrediction: "Predicción de ictus",
+    yes: "SÍ",
+    no: "NO",
+    strokeOutcome: "Ictus",
+    strokePredicted: "Se predice ictus.",
+    strokeNotPredicted: "No se predice ictus.",
+    unidentifiedPatient: "Paciente no identificado",
+    factorNote: "{label} ({value}): {points} puntos porcentuales. {rationale}",
+  },
+  fhirImport: {
+    notFhir: "No es un recurso FHIR: falta resourceType.",
+    noPatient: "El bundle no contiene ningún recurso Patient.",
+    multiplePatients: "El bundle contiene {count} recursos Patient; solo se usó el primero.",
+    maritalStatus: "El estado civil {concept} no indica si el paciente estuvo casado alguna vez.",
+    bmiUnit: "El IMC está registrado en {unit} en lugar de kg/m2 y no se usó.",
+    heightUnit: "La altura está registrada en {unit}, que no es una unidad de longitud conocida; no se calculó el IMC.",
+    weightUnit: "El peso está registrado en {unit}, que no es una unidad de masa conocida; no se calculó el IMC.",
+    noUnit: "ninguna unidad",
+    bmiCalculated: "El IMC se calculó a partir de la última altura y el último peso.",
+    smokingCode: "El tabaquismo {concept} no es un código SNOMED CT reconocido.",
+    resolvedHypertension: "La hipertensión figura como resuelta ({concept}) y no se contó.",
+    noStandardMapping: "{label} no tiene representación estándar en FHIR; introdúzcalo manualmente.",
+    uncoded: "sin codificar",
+  },
+  riskPolicy: {
+    labels: {
+      moderateThreshold: "El umbral de riesgo moderado",
+      highThreshold: "El umbral de riesgo alto",
+      decisionThreshold: "El umbral de predicción de ictus",
+    },
+    required: "{label} es obligatorio.",
+    range: "{label} debe ser mayor que 0 % y como máximo 100 %.",
+    order: "El umbral de riesgo alto debe ser mayor que el de riesgo moderado.",
+  },
+  csv: {
+    empty: "El archivo está vacío.",
+    missingColumns: "Faltan columnas obligatorias: {columns}.",
+    missingColumn: "Falta la columna obligatoria: {column}.",
+    scoredFileHint: "Evalúe el archivo en la pestaña Evaluación por lotes e importe su exportación.",
+    unrecognisedValue: "{column}: valor no reconocido «{value}».",
+    cancelled: "Evaluación cancelada.",
+    predictionFailed: "La predicción falló: {message}",
+  },
+  units: {
+    years: "años",
+  },
+  ui: {
+    appTitle: "Sistema de predicción de ictus",
+    appSubtitle: "Introduzca los datos clínicos y demográficos del paciente para evaluar los factores de riesgo de ictus con análisis de IA.",
+    language: "Idioma",
+    viewSingle: "Paciente individual",
+    viewBatch: "Evaluación por lotes",
+    viewPatients: "Historias clínicas",
+    viewCohort: "Panel de cohorte",
+    viewEvaluation: "Evaluación del modelo",
+    viewSettings: "Política de riesgo",
+    viewPrivacy: "Privacidad",
+    patientRecord: "Historia clínica",
+    existingPatient: "Paciente existente",
+    noPatient: "— No guardar esta evaluación —",
+    newPatient: "Paciente nuevo",
+    newPatientPlaceholder: "Nombre o ID de historia",
+    addPatient: "Añadir paciente",
+    patientStorageNote: "Las evaluaciones de un paciente seleccionado se guardan en este navegador y aparecen en Historias clínicas.",
+    importFhir: "Importar bundle FHIR",
+    fhirFile: "Archivo de bundle FHIR",
+    fhirInvalidJson: "El archivo no es JSON válido.",
+    fhirReadFailed: "No se pudo leer el bundle FHIR.",
+    dismissImportReport: "Cerrar el informe de importación",
+    importedFields: "Campos importados: {count}.",
+    importedFieldsFor: "Campos importados para {name}: {count}.",
+    importMissing: "Faltan, introdúzcalos:",
+    importAssumedAbsent: "Sin Condition correspondiente, se puso No:",
+    importUnused: "Entradas no usadas: {count}",
+    predictionEngine: "Motor de predicción",
+    predict: "Predecir riesgo de ictus",
+    processing: "Procesando...",
+    cancel: "Cancelar",
+    correctErrors: "Corrija los errores de los campos resaltados.",
+    patientsLoadFailed: "No se pudo abrir el almacén local de pacientes. Las evaluaciones no se guardarán.",
+    patientLoadFailed: "No se pudieron cargar las evaluaciones anteriores de este paciente.",
+    patientCreateFailed: "No se pudo añadir a {name} al almacén local de pacientes.",
+    saveFailed: "No se pudo guardar la predicción en la historia clínica.",
+    pdfFailed: "No se pudo crear el informe PDF.",
+    noPredictionTitle: "Aún no hay predicción",
+    noPredictionText: "Introduzca los datos del paciente y ejecute el modelo para ver la evaluación del riesgo.",
+    predictionResult: "Resultado de la predicción",
+    strokeYes: "Ictus: SÍ",
+    strokeNo: "Ictus: NO",
+    strokeProbability: "Probabilidad de ictus",
+    riskLevel: "Nivel de riesgo",
+    savedTo: "Guardado en la historia de {name}.",
+    predictedWith: "Predicho con:",
+    printReport: "Imprimir informe",
+    downloadPdf: "Descargar PDF",
+    exportFhir: "Exportar RiskAssessment FHIR",
+    disclaimerLabel: "Aviso:",
+    disclaimer:
+      "Este sistema tiene fines exclusivamente educativos y no sustituye un diagnóstico médico profesional. Consulte a un profesional sanitario cualificado para obtener asesoramiento médico.",
+    contributingFactors: "Factores contribuyentes",
+    noFactors: "Ningún factor individual destacó en este paciente.",
+    points: "{points} pts",
+    likelyRange: "Rango probable {low}–{high} %, {confidence}",
+    fieldsUnknown: "({fields}: desconocido)",
+    yes: "Sí",
+    no: "No",
+    unknown: "Desconocido",
+    markUnknown: "Desconocido (estimado, con un rango de riesgo más amplio)",
+    example: "p. ej. {value}",
+    showCalculator: "Desde altura y peso",
+    hideCalculator: "Ocultar calculadora",
+    bmiCalculator: "Calcular el IMC a partir de altura y peso",
+    metric: "Métrico",
+    imperial: "Imperial",
+    height: "Altura ({unit})",
+    weight: "Peso ({unit})",
+    bmiCalculated: "IMC calculado como {bmi} e introducido arriba.",
+    unitOf: "Unidad de {label}",
+    increasesRisk: "aumenta el riesgo",
+    decreasesRisk: "reduce el riesgo",
+    resultAnnouncement: "Predicción lista. {verdict}. {riskLevel}, probabilidad de ictus {probability}.",
+    predictorUnavailable: "No disponible en el modo solo local.",
+    consentTitle: "¿Enviar datos a {name}?",
+    consentIntro: "{name} se ejecuta fuera de este dispositivo. Solo se envían a {modelId} estos campos clínicos; nunca nombres, identificadores de historia ni notas.",
+    consentAgeBands: "La edad se envía en franjas de {years} años.",
+    consentAudit: "Las edades superiores a 89 se envían como 90+. Cada solicitud queda registrada en el registro de auditoría de la pestaña Privacidad.",
+    consentConfirm: "Confirmo que estos datos pueden enviarse a {name} durante el resto de esta sesión.",
+    consentAccept: "Enviar y continuar",
+    clinicalScores: "Escalas de riesgo clínico",
+    scoreUnavailable: "No disponible: {reason}",
+    scoreSummary: "{points} de {maxPoints} puntos · riesgo de ictus {period} del {risk}",
+    scoreAssumedAbsent: "No registrado, contado como ausente: {fields}.",
+    scoreDisagreement: "{scoreName} sitúa a este paciente en {scoreLevel}, pero {predictorName} estimó {predictedLevel}.",
+    scoreDisagreementAdvice: "Revise los datos y tenga en cuenta la escala validada antes de actuar según la estimación.",
+    clinicalScoresFootnote:
+      "Las escalas usan la sección Datos clínicos adicionales cuando la necesitan. Los niveles de riesgo de Framingham siguen los umbrales de la política de riesgo.",
+    scenarios: "Escenarios hipotéticos",
+    addScenario: "Añadir escenario",
+    removeScenario: "Eliminar escenario",
+    noScenarios: "Ningún factor de riesgo modificable destaca en este paciente. Añada un escenario personalizado para explorar cambios.",
+    baseline: "Situación inicial",
+    probability: "Probabilidad",
+    compareScenarios: "Comparar escenarios",
+    scoringScenarios: "Calculando escenarios…",
+    readCsvFailed: "No se pudo leer el archivo CSV.",
+    exportCsv: "Exportar CSV",
+    stop: "Detener",
+    batchUpload: "Subir lista de pacientes",
+    batchCsvIntro: "CSV con las columnas del conjunto de datos de ictus: {columns}. Una columna opcional {id} se conserva en los resultados.",
+    batchFile: "Archivo CSV con la lista de pacientes",
+    batchRowsRead: "Filas leídas: {count} · {valid} · {rejected}",
+    batchValid: "Válidas: {count}",
+    batchRejected: "Rechazadas: {count}",
+    batchScore: "Evaluar pacientes ({count})",
+    batchScoring: "Evaluando…",
+    batchDone: "Terminado",
+    batchRow: "Fila",
+    batchId: "ID",
+    batchIssues: "Problemas",
+    patients: "Pacientes",
+    noPatients: "Aún no hay pacientes. Seleccione o añada un paciente en la pestaña Paciente individual antes de hacer una predicción.",
+    selectPatient: "Seleccione un paciente para ver su historial de evaluaciones.",
+    recordsLoadFailed: "No se pudo abrir el almacén local de pacientes.",
+    recordsAssessmentsFailed: "No se pudieron cargar las evaluaciones de este paciente.",
+    deletePatientConfirm: "¿Eliminar a {name} y todas sus evaluaciones?",
+    deletePatientFailed: "No se pudo eliminar a {name}.",
+    deletePatient: "Eliminar paciente",
+    patientAdded: "Añadido el {date} · Evaluaciones: {count}",
+    noAssessments: "Aún no hay evaluaciones registradas.",
+    recordsDate: "Fecha",
+    recordsEngine: "Modelo",
+    recordsGlucose: "Glucosa",
+    recordsBmi: "IMC",
+    recordsSmoking: "Tabaquismo",
+    recordsChanged: "Los valores resaltados han cambiado desde la visita anterior.",
+    trendChart: "Probabilidad de ictus a lo largo de las visitas",
+    cohort: "Cohorte",
+    cohortRecords: "Historias clínicas",
+    cohortStored: "Evaluaciones guardadas: {count}",
+    cohortImported: "Resultados importados",
+    cohortImportedFile: "{fileName} · Pacientes: {count}",
+    cohortRowsSkipped: "Filas omitidas: {count}",
+    cohortImportHint: "Un CSV exportado desde Evaluación por lotes.",
+    cohortFile: "Archivo CSV evaluado",
+    cohortLatestOnly: "Solo la última evaluación de cada paciente",
+    cohortLoadFailed: "No se pudieron cargar las evaluaciones guardadas.",
+    cohortFilters: "Filtros",
+    cohortClearFilters: "Quitar filtros",
+    cohortAll: "Todos",
+    cohortAgeBand: "Grupo de edad",
+    cohortPatients: "Pacientes: {filtered} de {total}",
+    cohortMeanProbability: "Probabilidad media: {value}",
+    cohortHighRisk: "Riesgo alto: {value}",
+    cohortEmpty: "Aún no hay pacientes evaluados. Guarde evaluaciones en historias clínicas o importe un CSV evaluado.",
+    cohortNoMatch: "Ningún paciente coincide con los filtros.",
+    cohortDistribution: "Distribución de niveles de riesgo",
+    cohortHistogram: "Histograma de probabilidades",
+    cohortHistogramAxis: "Probabilidad de ictus (%)",
+    cohortRiskBy: "Riesgo por {label}",
+    cohortPrevalence: "Hipertensión y cardiopatía por nivel de riesgo",
+    chartExportFailed: "No se pudo exportar el gráfico.",
+    evaluationDataset: "Conjunto de datos etiquetado",
+    evaluationCsvIntro: "CSV con las columnas del conjunto de datos de ictus ({columns}) y el resultado observado en una columna {stroke} (0 o 1).",
+    evaluationFile: "Archivo CSV etiquetado",
+    evaluationRowsRead: "Filas leídas: {count} · {usable} · Con ictus: {positives} · Rechazadas o sin etiqueta: {rejected}",
+    evaluationUsable: "Utilizables: {count}",
+    evaluationPredictors: "Modelos a comparar",
+    noApiKey: "No hay ninguna clave de API configurada.",
+    evaluationMaxRows: "Número máximo de filas (opcional)",
+    evaluationAllRows: "Todas las filas",
+    evaluationMaxRowsHelp: "Los modelos remotos tienen límite de solicitudes, así que los archivos grandes tardan; limítelos para una comprobación rápida.",
+    evaluate: "Evaluar",
+    evaluationScoringWith: "Evaluando con {name}…",
+    evaluationFailed: "La evaluación falló.",
+    evaluationResults: "Resultados",
+    evaluationMetric: "Métrica",
+    metricSamples: "Casos evaluados",
+    metricPositives: "Positivos (ictus = 1)",
+    metricSkipped: "Filas omitidas",
+    metricAuc: "AUC-ROC",
+    metricBrier: "Puntuación de Brier",
+    metricPrecision: "Precisión",
+    metricRecall: "Exhaustividad (sensibilidad)",
+    metricSpecificity: "Especificidad",
+    metricAccuracy: "Exactitud",
+    metricConfusion: "VP / FP / VN / FN",
+    evaluationFootnote:
+      "La precisión, la exhaustividad, la especificidad y la exactitud se miden con la decisión {decision} de cada modelo. Una puntuación de Brier menor es mejor; el AUC-ROC necesita ambos resultados.",
+    rocCurve: "Curva ROC",
+    falsePositiveRate: "Tasa de falsos positivos",
+    truePositiveRate: "Tasa de verdaderos positivos",
+    calibrationCurve: "Curva de calibración",
+    meanPredicted: "Probabilidad predicha media",
+    observedRate: "Tasa de ictus observada",
+    policyIntro:
+      "Estos umbrales convierten la probabilidad de ictus de cualquier modelo de predicción en un nivel de riesgo y una predicción sí/no. Se guardan en este navegador y se aplican a cada nueva predicción.",
+    policyModerateLabel: "Riesgo moderado desde",
+    policyModerateHelp: "Las probabilidades iguales o superiores se muestran como riesgo moderado.",
+    policyHighLabel: "Riesgo alto desde",
+    policyHighHelp: "Las probabilidades iguales o superiores se muestran como riesgo alto.",
+    policyDecisionLabel: "Predecir ictus desde",
+    policyDecisionHelp: "Los valores más bajos marcan a más pacientes: mayor sensibilidad, menor especificidad.",
+    policyPreview: "Vista previa",
+    policyBand: "de {from} a menos de {to}",
+    policyBandTop: "{from} o más",
+    policyDecision: "{threshold} o más (marca negra)",
+    policyMarker: "Ictus predicho desde {threshold}",
+    savePolicy: "Guardar política",
+    restoreDefaults: "Restablecer valores predeterminados",
+    policySaved: "Política guardada. Se aplica a partir de la próxima predicción.",
+    privacyIntro:
+      "Los modelos remotos solo reciben un conjunto permitido de campos clínicos, nunca nombres ni identificadores de historia. Estos ajustes se guardan en este navegador.",
+    localOnly: "Modo solo local",
+    localOnlyHelp: "Rechazar toda llamada a un modelo remoto. Solo se puede usar el modelo local.",
+    ageSent: "Edad enviada a los modelos remotos",
+    exactAge: "Edad exacta",
+    ageBands: "Franjas de {years} años",
+    ageBandsHelp: "Las edades superiores a 89 se envían siempre como 90+.",
+    sessionConsent: "Consentimiento para esta sesión",
+    consentGiven: "Los datos del paciente pueden enviarse a modelos remotos hasta que se cierre esta pestaña.",
+    consentNotGiven: "Se le preguntará antes de enviar datos del paciente a un modelo remoto.",
+    withdrawConsent: "Retirar",
+    giveConsent: "Dar consentimiento",
+    auditLog: "Registro de auditoría",
+    exportLog: "Exportar",
+    clearLog: "Vaciar",
+    clearLogConfirm: "¿Eliminar el registro de auditoría? Esta acción no se puede deshacer.",
+    auditIntro: "Cada envío a un modelo remoto, registrado antes de salir de este navegador. Se conservan los últimos {count}.",
+    auditEmpty: "No se han enviado datos a ningún modelo remoto.",
+    auditTime: "Hora",
+    auditModel: "Modelo",
+    auditPayload: "Datos enviados",
+    auditFields: "Campos: {count}",
+  },
+};
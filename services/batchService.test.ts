@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest';
+import { parsePatientCsv } from './batchService';
+
+const HEADER = 'gender,age,hypertension,heart_disease,ever_married,work_type,Residence_type,avg_glucose_level,bmi,smoking_status';
+
+describe('parsePatientCsv', () => {
+  it('numbers rows by the line they start on', () => {
+    const text = [
+      HEADER,
+      'Male,67,0,1,Yes,Private,Urban,228.69,36.6,formerly smoked',
+      '',
+      '"Female",61,0,0,Yes,Self-employed,"Rural',
+      '",202.21,30.1,never smoked',
+      'Female,130,0,0,Yes,Private,Urban,94.39,22.8,never smoked',
+    ].join('\n');
+    const rows = parsePatientCsv(text);
+
+    expect(rows.map(row => row.rowNumber)).toEqual([2, 4, 6]);
+    expect(rows[2].errors).toEqual(['age: Please enter a valid age (0-120).']);
+  });
+
+  it('reports problems in the given language', () => {
+    const [row] = parsePatientCsv([HEADER, 'Male,67,0,1,Yes,Private,Urban,228.69,36.6,sometimes'].join('\n'), 'de');
+
+    expect(row.data).toBeNull();
+    expect(row.errors).toEqual(['smoking_status: unbekannter Wert „sometimes“.', 'smoking_status: Bitte Rauchverhalten auswählen.']);
+    expect(() => parsePatientCsv('gender,age\nMale,40\n', 'es')).toThrow(/^Faltan columnas obligatorias: hypertension, /);
+  });
+});
@@ -0,0 +1,228 @@
+import {
+  Locale,
+  PatientData,
+  PredictionResult,
+  Predictor,
+  Gender,
+  WorkType,
+  ResidenceType,
+  SmokingStatus,
+} from "../types";
+import { parseCsvRecords, toCsv } from "./csv";
+import { validatePatientData } from "./validation";
+import { PredictionCancelledError } from "./errors";
+import { delay } from "./retry";
+import { CATALOGS, DEFAULT_LOCALE, fillTemplate } from "./i18n";
+
+// Column layout of the original Kaggle stroke dataset.
+export const BATCH_CSV_COLUMNS = [
+  "gender",
+  "age",
+  "hypertension",
+  "heart_disease",
+  "ever_married",
+  "work_type",
+  "Residence_type",
+  "avg_glucose_level",
+  "bmi",
+  "smoking_status",
+] as const;
+
+type BatchColumn = typeof BATCH_CSV_COLUMNS[number];
+
+// The optional clinical score fields have no column in the dataset layout.
+const COLUMN_FOR_FIELD: Partial<Record<keyof PatientData, BatchColumn>> = {
+  gender: "gender",
+  age: "age",
+  hypertension: "hypertension",
+  heartDisease: "heart_disease",
+  everMarried: "ever_married",
+  workType: "work_type",
+  residenceType: "Residence_type",
+  avgGlucoseLevel: "avg_glucose_level",
+  bmi: "bmi",
+  smokingStatus: "smoking_status",
+};
+
+// Delay between consecutive requests to a remote predictor, to stay under API rate limits.
+export const REMOTE_MIN_INTERVAL_MS = 1000;
+
+export interface BatchRow {
+  /** Line the row starts on in the uploaded file (the header is line 1), so messages point at the right line. */
+  rowNumber: number;
+  /** Value of the optional `id` column, when present. */
+  id?: string;
+  /** Raw cell values keyed by column name, kept for export. */
+  raw: Record<string, string>;
+  data: PatientData | null;
+  errors: string[];
+}
+
+export interface ScoredBatchRow extends BatchRow {
+  result: PredictionResult | null;
+}
+
+export interface BatchScoringOptions {
+  minIntervalMs?: number;
+  onProgress?: (completed: number, total: number) => void;
+  signal?: AbortSignal;
+  /** Language of the messages added to failed rows. */
+  locale?: Locale;
+}
+
+const matchEnum = <T extends string>(values: T[], raw: string): T | undefined =>
+  values.find(value => value.toLowerCase() === raw.trim().toLowerCase());
+
+const parseFlag = (raw: string): boolean | undefined => {
+  const value = raw.trim().toLowerCase();
+  if (["1", "yes", "true"].includes(value)) return true;
+  if (["0", "no", "false"].includes(value)) return false;
+  return undefined;
+};
+
+// How the dataset marks a missing measurement, e.g. bmi "N/A".
+const UNKNOWN_VALUES = ["n/a", "na", "unknown"];
+
+const parseNumber = (raw: string): number | "" | null => {
+  const value = raw.trim();
+  if (value === "") return "";
+  if (UNKNOWN_VALUES.includes(value.toLowerCase())) return null;
+  const parsed = Number(value);
+  return Number.isNaN(parsed) ? NaN : parsed;
+};
+
+const mapRow = (raw: Record<string, string>, locale: Locale): { data: PatientData | null; errors: string[] } => {
+  const errors: string[] = [];
+
+  const required = <T>(column: BatchColumn, value: T | undefined): T => {
+    if (value === undefined) {
+      errors.push(fillTemplate(CATALOGS[locale].csv.unrecognisedValue, { column, value: raw[column] }));
+    }
+    return value as T;
+  };
+
+  const data: PatientData = {
+    gender: required("gender", matchEnum(Object.values(Gender), raw.gender)),
+    age: parseNumber(raw.age),
+    hypertension: required("hypertension", parseFlag(raw.hypertension)),
+    heartDisease: required("heart_disease", parseFlag(raw.heart_disease)),
+    everMarried: required("ever_married", parseFlag(raw.ever_married)),
+    workType: required("work_type", matchEnum(Object.values(WorkType), raw.work_type)),
+    residenceType: required("Residence_type", matchEnum(Object.values(ResidenceType), raw.Residence_type)),
+    avgGlucoseLevel: parseNumber(raw.avg_glucose_level),
+    bmi: parseNumber(raw.bmi),
+    smokingStatus: required("smoking_status", matchEnum(Object.values(SmokingStatus), raw.smoking_status)),
+  };
+
+  const validationErrors = validatePatientData(data, { locale });
+  (Object.keys(validationErrors) as (keyof PatientData)[]).forEach(field => {
+    errors.push(`${COLUMN_FOR_FIELD[field] ?? field}: ${validationErrors[field]}`);
+  });
+
+  return { data: errors.length === 0 ? data : null, errors };
+};
+
+/**
+ * Parses a CSV in the stroke dataset layout into patient rows.
+ * Columns are matched by header name (case-insensitive) and may appear in any order;
+ * extra columns such as `id` or `stroke` are ignored. Throws if a required column is missing.
+ * Messages are in `locale`; the values themselves are read in the dataset's English codes.
+ */
+export const parsePatientCsv = (text: string, locale: Locale = DEFAULT_LOCALE): BatchRow[] => {
+  const messages = CATALOGS[locale].csv;
+  const [header, ...records] = parseCsvRecords(text);
+  if (!header) {
+    throw new Error(messages.empty);
+  }
+
+  const columnIndex = new Map(header.fields.map((name, index) => [name.trim().toLowerCase(), index]));
+  const missing = BATCH_CSV_COLUMNS.filter(column => !columnIndex.has(column.toLowerCase()));
+  if (missing.length > 0) {
+    throw new Error(fillTemplate(messages.missingColumns, { columns: missing.join(", ") }));
+  }
+
+  const idIndex = columnIndex.get("id");
+
+  return records.map(({ fields: cells, line }) => {
+    const raw: Record<string, string> = {};
+    BATCH_CSV_COLUMNS.forEach(column => {
+      raw[column] = cells[columnIndex.get(column.toLowerCase())!] ?? "";
+    });
+
+    return {
+      rowNumber: line,
+      id: idIndex !== undefined ? cells[idIndex] : undefined,
+      raw,
+      ...mapRow(raw, locale),
+    };
+  });
+};
+
+/**
+ * Scores every valid row one at a time, leaving rejected rows untouched.
+ * Remote predictors are throttled to one request per `minIntervalMs`.
+ * Aborting stops before the next request; rows not reached are marked as cancelled.
+ */
+export const scoreBatch = async <T extends BatchRow>(
+  rows: T[],
+  predictor: Predictor<string>,
+  options: BatchScoringOptions = {}
+): Promise<(T & ScoredBatchRow)[]> => {
+  const {
+    minIntervalMs = predictor.requiresNetwork ? REMOTE_MIN_INTERVAL_MS : 0,
+    onProgress,
+    signal,
+    locale = DEFAULT_LOCALE,
+  } = options;
+  const messages = CATALOGS[locale].csv;
+
+  const scored: (T & ScoredBatchRow)[] = [];
+  let lastRequestAt = 0;
+
+  for (const row of rows) {
+    if (signal?.aborted) {
+      scored.push({ ...row, result: null, errors: [...row.errors, messages.cancelled] });
+      continue;
+    }
+
+    if (!row.data) {
+      scored.push({ ...row, result: null });
+    } else {
+      try {
+        const wait = lastRequestAt + minIntervalMs - Date.now();
+        if (wait > 0) {
+          await delay(wait, signal);
+        }
+        lastRequestAt = Date.now();
+
+        const result = await predictor.predict(row.data, { signal });
+        scored.push({ ...row, result });
+      } catch (error) {
+        const message = error instanceof PredictionCancelledError
+          ? messages.cancelled
+          : fillTemplate(messages.predictionFailed, { message: error instanceof Error ? error.message : String(error) });
+        scored.push({ ...row, result: null, errors: [...row.errors, message] });
+      }
+    }
+
+    onProgress?.(scored.length, rows.length);
+  }
+
+  return scored;
+};
+
+export const exportScoredCsv = (rows: ScoredBatchRow[]): string =>
+  toCsv([
+    ["id", ...BATCH_CSV_COLUMNS, "probability", "probability_low", "probability_high", "confidence", "risk_level", "stroke_prediction", "errors"],
+    ...rows.map(row => [
+      row.id ?? "",
+      ...BATCH_CSV_COLUMNS.map(column => row.raw[column]),
+      row.result ? row.result.probability : "",
+      row.result ? row.result.uncertainty.low : "",
+      row.result ? row.result.uncertainty.high : "",
+      row.result ? row.result.uncertainty.confidence : "",
+      row.result ? row.result.riskLevel : "",
+      row.result ? (row.result.strokePrediction ? 1 : 0) : "",
+      row.errors.join("; "),
+    ]),
+  ]);
@@ -0,0 +1,39 @@
+import { downloadFile } from "./download";
+
+const serialise = (svg: SVGSVGElement): { markup: string; width: number; height: number } => {
+  const { width, height } = svg.viewBox.baseVal;
+  const clone = svg.cloneNode(true) as SVGSVGElement;
+  clone.setAttribute("xmlns", "http://www.w3.org/2000/svg");
+  clone.setAttribute("width", String(width));
+  clone.setAttribute("height", String(height));
+  return { markup: new XMLSerializer().serializeToString(clone), width, height };
+};
+
+/** Downloads an inline SVG chart as a standalone .svg file. Charts must use inline colours, not CSS classes. */
+export const downloadSvg = (svg: SVGSVGElement, filename: string) => {
+  downloadFile(filename, serialise(svg).markup, "image/svg+xml");
+};
+
+/** Renders an inline SVG chart onto a white canvas at `scale` times its viewBox size and downloads it as PNG. */
+export const downloadSvgAsPng = async (svg: SVGSVGElement, filename: string, scale = 2): Promise<void> => {
+  const { markup, width, height } = serialise(svg);
+  const image = new Image();
+  await new Promise<void>((resolve, reject) => {
+    image.onload = () => resolve();
+    image.onerror = () => reject(new Error("Could not render the chart."));
+    image.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(markup)}`;
+  });
+
+  const canvas = document.createElement("canvas");
+  canvas.width = width * scale;
+  canvas.height = height * scale;
+  const context = canvas.getContext("2d");
+  if (!context) throw new Error("Could not render the chart.");
+  context.fillStyle = "#ffffff";
+  context.fillRect(0, 0, canvas.width, canvas.height);
+  context.drawImage(image, 0, 0, canvas.width, canvas.height);
+
+  const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, "image/png"));
+  if (!blob) throw new Error("Could not render the chart.");
+  downloadFile(filename, blob, "image/png");
+};
@@ -0,0 +1,277 @@
+import { describe, expect, it } from 'vitest';
+import {
+  ClinicalScore,
+  ClinicalScoreResult,
+  computeCha2ds2VascScore,
+  computeClinicalScores,
+  computeFraminghamScore,
+  findDisagreements,
+} from './clinicalScores';
+import { DEFAULT_RISK_POLICY } from './riskPolicy';
+import { Gender, PatientData, PredictionResult, RiskLevel, SmokingStatus } from '../types';
+import { TYPICAL_ADULT } from '../test/fixtures/patients';
+
+// Every optional detail recorded as absent, so no score has to assume anything.
+const NO_CONDITIONS: Partial<PatientData> = {
+  antihypertensiveTreatment: false,
+  diabetes: false,
+  atrialFibrillation: false,
+  congestiveHeartFailure: false,
+  vascularDisease: false,
+  priorStroke: false,
+  leftVentricularHypertrophy: false,
+};
+
+const patient = (overrides: Partial<PatientData>): PatientData => ({ ...TYPICAL_ADULT, ...NO_CONDITIONS, ...overrides });
+
+const TREATED_SMOKER: PatientData = patient({
+  gender: Gender.Male,
+  age: 70,
+  hypertension: true,
+  systolicBp: 150,
+  antihypertensiveTreatment: true,
+  smokingStatus: SmokingStatus.Smokes,
+});
+
+const WOMAN_WITH_AF: PatientData = patient({
+  gender: Gender.Female,
+  age: 72,
+  hypertension: true,
+  systolicBp: 140,
+  antihypertensiveTreatment: true,
+  diabetes: true,
+  atrialFibrillation: true,
+});
+
+const HEALTHY_MAN: PatientData = patient({ gender: Gender.Male, age: 55, systolicBp: 100 });
+
+const available = (score: ClinicalScoreResult): ClinicalScore => {
+  if (score.available === false) throw new Error(`${score.name} is unavailable: ${score.reason}`);
+  return score;
+};
+
+const breakdown = (score: ClinicalScore) => score.components.map(({ label, points }) => [label, points]);
+
+const resultAt = (riskLevel: RiskLevel): PredictionResult => ({
+  strokePrediction: false,
+  probability: 10,
+  riskLevel,
+  factors: [],
+  uncertainty: { low: 10, high: 10, confidence: 'high', missingFields: [] },
+});
+
+describe('computeFraminghamScore', () => {
+  it.each([
+    {
+      name: 'a treated 70-year-old male smoker',
+      data: TREATED_SMOKER,
+      components: [
+        ['Age', 5],
+        ['Systolic blood pressure', 5],
+        ['Antihypertensive treatment', 2],
+        ['Diabetes', 0],
+        ['Current smoker', 3],
+        ['Cardiovascular disease', 0],
+        ['Atrial fibrillation', 0],
+        ['Left ventricular hypertrophy', 0],
+      ],
+      points: 15,
+      maxPoints: 40,
+      risk: 20,
+      riskLevel: 'Moderate Risk',
+    },
+    {
+      name: 'a treated 72-year-old woman with diabetes and atrial fibrillation',
+      data: WOMAN_WITH_AF,
+      components: [
+        ['Age', 6],
+        ['Systolic blood pressure', 3],
+        ['Antihypertensive treatment', 3],
+        ['Diabetes', 3],
+        ['Current smoker', 0],
+        ['Cardiovascular disease', 0],
+        ['Atrial fibrillation', 6],
+        ['Left ventricular hypertrophy', 0],
+      ],
+      points: 21,
+      maxPoints: 43,
+      risk: 43,
+      riskLevel: 'High Risk',
+    },
+    {
+      name: 'a healthy 55-year-old man',
+      data: HEALTHY_MAN,
+      components: [
+        ['Age', 0],
+        ['Systolic blood pressure', 0],
+        ['Antihypertensive treatment', 0],
+        ['Diabetes', 0],
+        ['Current smoker', 0],
+        ['Cardiovascular disease', 0],
+        ['Atrial fibrillation', 0],
+        ['Left ventricular hypertrophy', 0],
+      ],
+      points: 0,
+      maxPoints: 40,
+      risk: 3,
+      riskLevel: 'Low Risk',
+    },
+  ])('scores $name', ({ data, components, points, maxPoints, risk, riskLevel }) => {
+    const score = available(computeFraminghamScore(data, DEFAULT_RISK_POLICY));
+    expect(breakdown(score)).toEqual(components);
+    expect(score.points).toBe(points);
+    expect(score.maxPoints).toBe(maxPoints);
+    expect(score.risk).toBe(risk);
+    expect(score.riskPeriod).toBe('10-year');
+    expect(score.riskLevel).toBe(riskLevel);
+    expect(score.assumedAbsent).toEqual([]);
+  });
+
+  it('counts heart failure and vascular disease as cardiovascular disease', () => {
+    const score = available(computeFraminghamScore({ ...HEALTHY_MAN, vascularDisease: true }, DEFAULT_RISK_POLICY));
+    expect(breakdown(score)).toContainEqual(['Cardiovascular disease', 4]);
+  });
+
+  it('bands the risk with the risk policy', () => {
+    const strict = { ...DEFAULT_RISK_POLICY, highThreshold: 20 };
+    expect(available(computeFraminghamScore(TREATED_SMOKER, strict)).riskLevel).toBe('High Risk');
+  });
+
+  it('lists unrecorded conditions as assumed absent', () => {
+    const unrecorded = { ...HEALTHY_MAN, antihypertensiveTreatment: undefined, diabetes: undefined };
+    const score = available(computeFraminghamScore(unrecorded, DEFAULT_RISK_POLICY));
+    expect(score.assumedAbsent).toEqual(['On Blood Pressure Medication', 'Diabetes']);
+  });
+
+  it.each([
+    ['of another gender', { gender: Gender.Other }, 'Uses separate tables for men and women.'],
+    ['younger than the tables', { age: 50 }, 'Only defined for ages 54–86.'],
+    ['older than the tables', { gender: Gender.Female, age: 85 }, 'Only defined for ages 54–84.'],
+    ['without a blood pressure', { systolicBp: undefined }, 'Needs the systolic blood pressure.'],
+  ])('is unavailable for a patient %s', (_, overrides, reason) => {
+    expect(computeFraminghamScore({ ...HEALTHY_MAN, ...overrides }, DEFAULT_RISK_POLICY)).toEqual({
+      id: 'fsrp',
+      name: 'Framingham Stroke Risk Profile',
+      available: false,
+      reason,
+    });
+  });
+});
+
+describe('computeCha2ds2VascScore', () => {
+  it.each([
+    {
+      name: 'a 72-year-old woman with atrial fibrillation',
+      data: WOMAN_WITH_AF,
+      components: [
+        ['Congestive heart failure', 0],
+        ['Hypertension', 1],
+        ['Age', 1],
+        ['Diabetes', 1],
+        ['Prior stroke, TIA or thromboembolism', 0],
+        ['Vascular disease', 0],
+        ['Sex category', 1],
+      ],
+      points: 4,
+      risk: 4.0,
+      riskLevel: 'High Risk',
+      validated: true,
+    },
+    {
+      name: 'a 70-year-old man without atrial fibrillation',
+      data: TREATED_SMOKER,
+      components: [
+        ['Congestive heart failure', 0],
+        ['Hypertension', 1],
+        ['Age', 1],
+        ['Diabetes', 0],
+        ['Prior stroke, TIA or thromboembolism', 0],
+        ['Vascular disease', 0],
+        ['Sex category', 0],
+      ],
+      points: 2,
+      risk: 2.2,
+      riskLevel: 'High Risk',
+      validated: false,
+    },
+    {
+      name: 'an 80-year-old man with a prior stroke',
+      data: patient({ gender: Gender.Male, age: 80, priorStroke: true, congestiveHeartFailure: true, atrialFibrillation: true }),
+      components: [
+        ['Congestive heart failure', 1],
+        ['Hypertension', 0],
+        ['Age', 2],
+        ['Diabetes', 0],
+        ['Prior stroke, TIA or thromboembolism', 2],
+        ['Vascular disease', 0],
+        ['Sex category', 0],
+      ],
+      points: 5,
+      risk: 6.7,
+      riskLevel: 'High Risk',
+      validated: true,
+    },
+  ])('scores $name', ({ data, components, points, risk, riskLevel, validated }) => {
+    const score = available(computeCha2ds2VascScore(data));
+    expect(breakdown(score)).toEqual(components);
+    expect(score.points).toBe(points);
+    expect(score.maxPoints).toBe(9);
+    expect(score.risk).toBe(risk);
+    expect(score.riskPeriod).toBe('annual');
+    expect(score.riskLevel).toBe(riskLevel);
+    expect(score.validatedForPatient).toBe(validated);
+  });
+
+  it.each<[string, Partial<PatientData>, RiskLevel]>([
+    ['a man with no points', { gender: Gender.Male, age: 55 }, 'Low Risk'],
+    ['a woman whose only point is her sex', { gender: Gender.Female, age: 55 }, 'Low Risk'],
+    ['a woman with one further point', { gender: Gender.Female, age: 66 }, 'Moderate Risk'],
+    ['a man with two points', { gender: Gender.Male, age: 76 }, 'High Risk'],
+  ])('bands %s without counting the female sex point', (_, overrides, riskLevel) => {
+    expect(available(computeCha2ds2VascScore(patient({ ...overrides, atrialFibrillation: true }))).riskLevel).toBe(riskLevel);
+  });
+
+  it('notes when the patient has no atrial fibrillation or another gender', () => {
+    const score = available(computeCha2ds2VascScore({ ...HEALTHY_MAN, gender: Gender.Other }));
+    expect(score.notes).toEqual([
+      'Validated in patients with atrial fibrillation only; shown for reference.',
+      'No sex category point was given.',
+    ]);
+  });
+
+  it('does not list atrial fibrillation as an assumed-absent component', () => {
+    const score = available(computeCha2ds2VascScore({ ...TYPICAL_ADULT, age: 70 }));
+    expect(score.assumedAbsent).toEqual(['Congestive Heart Failure', 'Diabetes', 'Prior Stroke or TIA', 'Vascular Disease']);
+  });
+
+  it('needs the age', () => {
+    expect(computeCha2ds2VascScore({ ...HEALTHY_MAN, age: '' })).toMatchObject({ available: false, reason: "Needs the patient's age." });
+  });
+});
+
+describe('findDisagreements', () => {
+  it('flags validated scores in another risk tier', () => {
+    const scores = computeClinicalScores(WOMAN_WITH_AF, DEFAULT_RISK_POLICY);
+    expect(findDisagreements(resultAt('Low Risk'), scores)).toEqual([
+      { scoreId: 'fsrp', scoreName: 'Framingham Stroke Risk Profile', scoreLevel: 'High Risk', predictedLevel: 'Low Risk', tiers: 2 },
+      { scoreId: 'cha2ds2vasc', scoreName: 'CHA₂DS₂-VASc', scoreLevel: 'High Risk', predictedLevel: 'Low Risk', tiers: 2 },
+    ]);
+    expect(findDisagreements(resultAt('High Risk'), scores)).toEqual([]);
+  });
+
+  it('ignores scores that are unavailable or not validated for the patient', () => {
+    // CHA2DS2-VASc says High Risk but the patient has no atrial fibrillation; Framingham agrees.
+    const scores = computeClinicalScores(TREATED_SMOKER, DEFAULT_RISK_POLICY);
+    expect(findDisagreements(resultAt('Moderate Risk'), scores)).toEqual([]);
+    expect(findDisagreements(resultAt('Low Risk'), computeClinicalScores({ ...TREATED_SMOKER, age: 50 }, DEFAULT_RISK_POLICY))).toEqual([]);
+  });
+});
+
+describe('computeClinicalScores', () => {
+  it('writes names, components and values in the locale', () => {
+    const [framingham, cha2ds2vasc] = computeClinicalScores(WOMAN_WITH_AF, DEFAULT_RISK_POLICY, 'de').map(available);
+    expect(framingham.name).toBe('Framingham-Schlaganfall-Risikoprofil');
+    expect(framingham.components[0]).toEqual({ label: 'Alter', value: '72 Jahre', points: 6 });
+    expect(cha2ds2vasc.components.at(-1)).toEqual({ label: 'Geschlecht', value: 'Weiblich', points: 1 });
+  });
+});
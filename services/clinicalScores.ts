@@ -0,0 +1,276 @@
+import { Gender, Locale, PatientData, PredictionResult, RiskLevel, SmokingStatus } from "../types";
+import { RISK_LEVELS, RiskPolicy, classifyRisk } from "./riskPolicy";
+import { CATALOGS, DEFAULT_LOCALE, fieldLabel, fillTemplate, formatValue, optionLabel, translate } from "./i18n";
+
+export type ClinicalScoreId = "fsrp" | "cha2ds2vasc";
+
+export type RiskPeriod = "10-year" | "annual";
+
+export interface ScoreComponent {
+  label: string;
+  value: string;
+  points: number;
+}
+
+export interface ClinicalScore {
+  id: ClinicalScoreId;
+  name: string;
+  available: true;
+  points: number;
+  maxPoints: number;
+  /** Estimated stroke risk in percent over `riskPeriod`. */
+  risk: number;
+  riskPeriod: RiskPeriod;
+  riskLevel: RiskLevel;
+  components: ScoreComponent[];
+  /** False when the patient is outside the population the score was validated in. */
+  validatedForPatient: boolean;
+  /** Optional inputs that were not recorded and were counted as absent. */
+  assumedAbsent: string[];
+  notes: string[];
+}
+
+export interface UnavailableScore {
+  id: ClinicalScoreId;
+  name: string;
+  available: false;
+  reason: string;
+}
+
+export type ClinicalScoreResult = ClinicalScore | UnavailableScore;
+
+export interface ScoreDisagreement {
+  scoreId: ClinicalScoreId;
+  scoreName: string;
+  scoreLevel: RiskLevel;
+  predictedLevel: RiskLevel;
+  /** Number of risk tiers between the two, 1 or 2. */
+  tiers: number;
+}
+
+type OptionalFlag =
+  | "antihypertensiveTreatment"
+  | "diabetes"
+  | "atrialFibrillation"
+  | "congestiveHeartFailure"
+  | "vascularDisease"
+  | "priorStroke"
+  | "leftVentricularHypertrophy";
+
+// [lower bound, points] pairs in ascending order; values below the first bound score its points.
+type PointBins = [number, number][];
+
+const pointsFor = (value: number, bins: PointBins): number =>
+  bins.reduce((points, [lower, binPoints]) => (value >= lower ? binPoints : points), bins[0][1]);
+
+const yesNo = (locale: Locale, value: boolean) => translate(locale, value ? "yes" : "no");
+
+/** Reads an optional flag, recording it in `assumedAbsent` when it was not entered. */
+const readFlag = (data: PatientData, key: OptionalFlag, assumedAbsent: OptionalFlag[]): boolean => {
+  const value = data[key];
+  if (value === undefined) {
+    assumedAbsent.push(key);
+    return false;
+  }
+  return value;
+};
+
+// Framingham Stroke Risk Profile (Wolf et al., Stroke 1991;22:312-318), sex-specific point tables.
+interface FraminghamTable {
+  ageRange: [number, number];
+  age: PointBins;
+  systolicBp: PointBins;
+  /** Treated hypertension: fixed points for men, SBP-dependent for women. */
+  treatment: PointBins;
+  diabetes: number;
+  smoking: number;
+  cardiovascularDisease: number;
+  atrialFibrillation: number;
+  leftVentricularHypertrophy: number;
+  /** 10-year stroke probability (%) for 1, 2, 3, ... points. */
+  tenYearRisk: number[];
+}
+
+const FRAMINGHAM: Record<Gender.Male | Gender.Female, FraminghamTable> = {
+  [Gender.Male]: {
+    ageRange: [54, 86],
+    age: [[54, 0], [57, 1], [60, 2], [63, 3], [66, 4], [69, 5], [72, 6], [75, 7], [78, 8], [81, 9], [84, 10]],
+    systolicBp: [[97, 0], [106, 1], [116, 2], [126, 3], [136, 4], [146, 5], [156, 6], [166, 7], [176, 8], [186, 9], [196, 10]],
+    treatment: [[0, 2]],
+    diabetes: 2,
+    smoking: 3,
+    cardiovascularDisease: 4,
+    atrialFibrillation: 4,
+    leftVentricularHypertrophy: 5,
+    tenYearRisk: [
+      3, 3, 4, 4, 5, 5, 6, 7, 8, 10, 11, 13, 15, 17, 20,
+      22, 26, 29, 33, 37, 42, 47, 52, 57, 63, 68, 74, 79, 84, 88,
+    ],
+  },
+  [Gender.Female]: {
+    ageRange: [54, 84],
+    age: [[54, 0], [57, 1], [60, 2], [63, 3], [65, 4], [68, 5], [71, 6], [74, 7], [77, 8], [79, 9], [82, 10]],
+    systolicBp: [[95, 0], [107, 1], [119, 2], [131, 3], [144, 4], [156, 5], [168, 6], [181, 7], [193, 8], [205, 9]],
+    treatment: [[95, 6], [107, 5], [120, 4], [132, 3], [149, 2], [161, 1], [205, 0]],
+    diabetes: 3,
+    smoking: 3,
+    cardiovascularDisease: 2,
+    atrialFibrillation: 6,
+    leftVentricularHypertrophy: 4,
+    tenYearRisk: [
+      1, 1, 2, 2, 2, 3, 4, 4, 5, 6, 8, 9, 11, 13, 16,
+      19, 23, 27, 32, 37, 43, 50, 57, 64, 71, 78, 84,
+    ],
+  },
+};
+
+const maxPoints = (bins: PointBins) => Math.max(...bins.map(([, points]) => points));
+
+export const computeFraminghamScore = (
+  data: PatientData,
+  policy: RiskPolicy,
+  locale: Locale = DEFAULT_LOCALE
+): ClinicalScoreResult => {
+  const texts = CATALOGS[locale].clinicalScores;
+  const id = "fsrp";
+  const name = texts.names[id];
+
+  if (data.gender !== Gender.Male && data.gender !== Gender.Female) {
+    return { id, name, available: false, reason: texts.reasons.sexTables };
+  }
+  const table = FRAMINGHAM[data.gender];
+  const [minAge, maxAge] = table.ageRange;
+  if (typeof data.age !== "number" || data.age < minAge || data.age > maxAge) {
+    return { id, name, available: false, reason: fillTemplate(texts.reasons.ageRange, { min: minAge, max: maxAge }) };
+  }
+  if (typeof data.systolicBp !== "number") {
+    return { id, name, available: false, reason: texts.reasons.needsSystolicBp };
+  }
+
+  const assumedAbsent: OptionalFlag[] = [];
+  const treated = readFlag(data, "antihypertensiveTreatment", assumedAbsent);
+  const diabetes = readFlag(data, "diabetes", assumedAbsent);
+  const atrialFibrillation = readFlag(data, "atrialFibrillation", assumedAbsent);
+  const leftVentricularHypertrophy = readFlag(data, "leftVentricularHypertrophy", assumedAbsent);
+  const heartFailure = readFlag(data, "congestiveHeartFailure", assumedAbsent);
+  const vascularDisease = readFlag(data, "vascularDisease", assumedAbsent);
+  const cardiovascularDisease = data.heartDisease || heartFailure || vascularDisease;
+  const smokes = data.smokingStatus === SmokingStatus.Smokes;
+
+  const labels = texts.components;
+  const components: ScoreComponent[] = [
+    { label: labels.age, value: formatValue(locale, "age", data.age), points: pointsFor(data.age, table.age) },
+    { label: labels.systolicBp, value: formatValue(locale, "systolicBp", data.systolicBp), points: pointsFor(data.systolicBp, table.systolicBp) },
+    { label: labels.antihypertensiveTreatment, value: yesNo(locale, treated), points: treated ? pointsFor(data.systolicBp, table.treatment) : 0 },
+    { label: labels.diabetes, value: yesNo(locale, diabetes), points: diabetes ? table.diabetes : 0 },
+    { label: labels.currentSmoker, value: yesNo(locale, smokes), points: smokes ? table.smoking : 0 },
+    { label: labels.cardiovascularDisease, value: yesNo(locale, cardiovascularDisease), points: cardiovascularDisease ? table.cardiovascularDisease : 0 },
+    { label: labels.atrialFibrillation, value: yesNo(locale, atrialFibrillation), points: atrialFibrillation ? table.atrialFibrillation : 0 },
+    { label: labels.leftVentricularHypertrophy, value: yesNo(locale, leftVentricularHypertrophy), points: leftVentricularHypertrophy ? table.leftVentricularHypertrophy : 0 },
+  ];
+  const points = components.reduce((sum, component) => sum + component.points, 0);
+  const risk = table.tenYearRisk[Math.min(Math.max(points, 1), table.tenYearRisk.length) - 1];
+
+  const notes = [texts.notes.cardiovascularDisease];
+  if (data.smokingStatus === SmokingStatus.Unknown) {
+    notes.push(texts.notes.smokingUnknown);
+  }
+
+  return {
+    id,
+    name,
+    available: true,
+    points,
+    maxPoints:
+      maxPoints(table.age) + maxPoints(table.systolicBp) + maxPoints(table.treatment) + table.diabetes +
+      table.smoking + table.cardiovascularDisease + table.atrialFibrillation + table.leftVentricularHypertrophy,
+    risk,
+    riskPeriod: "10-year",
+    riskLevel: classifyRisk(risk, policy),
+    components,
+    validatedForPatient: true,
+    assumedAbsent: assumedAbsent.map(key => fieldLabel(locale, key)),
+    notes,
+  };
+};
+
+// Adjusted annual stroke rate (%) by CHA2DS2-VASc score (Lip et al., Chest 2010;137:263-272).
+const CHA2DS2_VASC_ANNUAL_RISK = [0, 1.3, 2.2, 3.2, 4.0, 6.7, 9.8, 9.6, 6.7, 15.2];
+
+export const computeCha2ds2VascScore = (data: PatientData, locale: Locale = DEFAULT_LOCALE): ClinicalScoreResult => {
+  const texts = CATALOGS[locale].clinicalScores;
+  const id = "cha2ds2vasc";
+  const name = texts.names[id];
+
+  if (typeof data.age !== "number") {
+    return { id, name, available: false, reason: texts.reasons.needsAge };
+  }
+
+  const assumedAbsent: OptionalFlag[] = [];
+  const heartFailure = readFlag(data, "congestiveHeartFailure", assumedAbsent);
+  const diabetes = readFlag(data, "diabetes", assumedAbsent);
+  const priorStroke = readFlag(data, "priorStroke", assumedAbsent);
+  const vascularDisease = readFlag(data, "vascularDisease", assumedAbsent);
+  const atrialFibrillation = readFlag(data, "atrialFibrillation", assumedAbsent);
+  const female = data.gender === Gender.Female;
+
+  const labels = texts.components;
+  const components: ScoreComponent[] = [
+    { label: labels.congestiveHeartFailure, value: yesNo(locale, heartFailure), points: heartFailure ? 1 : 0 },
+    { label: labels.hypertension, value: yesNo(locale, data.hypertension), points: data.hypertension ? 1 : 0 },
+    { label: labels.age, value: formatValue(locale, "age", data.age), points: data.age >= 75 ? 2 : data.age >= 65 ? 1 : 0 },
+    { label: labels.diabetes, value: yesNo(locale, diabetes), points: diabetes ? 1 : 0 },
+    { label: labels.priorStroke, value: yesNo(locale, priorStroke), points: priorStroke ? 2 : 0 },
+    { label: labels.vascularDisease, value: yesNo(locale, vascularDisease), points: vascularDisease ? 1 : 0 },
+    { label: labels.sexCategory, value: optionLabel(locale, "gender", data.gender), points: female ? 1 : 0 },
+  ];
+  const points = components.reduce((sum, component) => sum + component.points, 0);
+
+  // Guideline bands, with the female sex point discounted: 0 low, 1 consider treatment, 2+ high.
+  const riskPoints = points - (female ? 1 : 0);
+  const riskLevel: RiskLevel = riskPoints >= 2 ? "High Risk" : riskPoints === 1 ? "Moderate Risk" : "Low Risk";
+
+  const notes: string[] = [];
+  if (!atrialFibrillation) {
+    notes.push(texts.notes.atrialFibrillationOnly);
+  }
+  if (data.gender === Gender.Other) {
+    notes.push(texts.notes.noSexPoint);
+  }
+
+  return {
+    id,
+    name,
+    available: true,
+    points,
+    maxPoints: 9,
+    risk: CHA2DS2_VASC_ANNUAL_RISK[points],
+    riskPeriod: "annual",
+    riskLevel,
+    components,
+    validatedForPatient: atrialFibrillation,
+    // Atrial fibrillation is not a component; it only decides whether the score applies.
+    assumedAbsent: assumedAbsent.filter(key => key !== "atrialFibrillation").map(key => fieldLabel(locale, key)),
+    notes,
+  };
+};
+
+/** Computes both scores, with their names, components and notes written in `locale`. */
+export const computeClinicalScores = (
+  data: PatientData,
+  policy: RiskPolicy,
+  locale: Locale = DEFAULT_LOCALE
+): ClinicalScoreResult[] => [computeFraminghamScore(data, policy, locale), computeCha2ds2VascScore(data, locale)];
+
+/** Scores whose risk tier differs from the predicted one, ignoring scores not validated for the patient. */
+export const findDisagreements = (result: PredictionResult, scores: ClinicalScoreResult[]): ScoreDisagreement[] =>
+  scores
+    .filter((score): score is ClinicalScore => score.available && score.validatedForPatient)
+    .map(score => ({
+      scoreId: score.id,
+      scoreName: score.name,
+      scoreLevel: score.riskLevel,
+      predictedLevel: result.riskLevel,
+      tiers: Math.abs(RISK_LEVELS.indexOf(score.riskLevel) - RISK_LEVELS.indexOf(result.riskLevel)),
+    }))
+    .filter(disagreement => disagreement.tiers > 0);
@@ -0,0 +1,197 @@
+import {
+  Assessment,
+  Locale,
+  Confidence,
+  PatientData,
+  PredictionResult,
+  RiskLevel,
+  Gender,
+  WorkType,
+  ResidenceType,
+  SmokingStatus,
+} from "../types";
+import { parseCsv } from "./csv";
+import { parsePatientCsv } from "./batchService";
+import { CONFIDENCE_LEVELS } from "./responseValidation";
+import { RISK_LEVELS, RiskPolicy, applyRiskPolicy } from "./riskPolicy";
+import { CATALOGS, DEFAULT_LOCALE, fillTemplate } from "./i18n";
+
+/** One scored patient in a cohort, from the patient store or an imported CSV. */
+export interface CohortRecord {
+  data: PatientData;
+  result: PredictionResult;
+}
+
+export const AGE_BANDS = [
+  { label: "0–17", from: 0, to: 18 },
+  { label: "18–39", from: 18, to: 40 },
+  { label: "40–59", from: 40, to: 60 },
+  { label: "60–79", from: 60, to: 80 },
+  { label: "80+", from: 80, to: Infinity },
+];
+
+export const ageBandOf = (age: PatientData["age"]): string =>
+  typeof age === "number" ? AGE_BANDS.find(band => age >= band.from && age < band.to)?.label ?? "" : "";
+
+export type CohortDimension = "gender" | "workType" | "residenceType" | "smokingStatus" | "ageBand";
+
+// Values are the stored codes; the dashboard labels them with the form's field and option labels.
+export const COHORT_DIMENSIONS: { id: CohortDimension; values: string[] }[] = [
+  { id: "gender", values: Object.values(Gender) },
+  { id: "workType", values: Object.values(WorkType) },
+  { id: "residenceType", values: Object.values(ResidenceType) },
+  { id: "smokingStatus", values: Object.values(SmokingStatus) },
+  { id: "ageBand", values: AGE_BANDS.map(band => band.label) },
+];
+
+const valueOf = (record: CohortRecord, dimension: CohortDimension): string =>
+  dimension === "ageBand" ? ageBandOf(record.data.age) : record.data[dimension];
+
+/** Each set filter keeps only records with that value; unset filters keep everything. */
+export type CohortFilters = Partial<Record<CohortDimension | "riskLevel", string>>;
+
+export const filterCohort = (records: CohortRecord[], filters: CohortFilters): CohortRecord[] =>
+  records.filter(record =>
+    (Object.keys(filters) as (keyof CohortFilters)[]).every(key => {
+      const wanted = filters[key];
+      if (!wanted) return true;
+      return key === "riskLevel" ? record.result.riskLevel === wanted : valueOf(record, key) === wanted;
+    })
+  );
+
+export type RiskCounts = Record<RiskLevel, number>;
+
+const emptyCounts = (): RiskCounts => ({ "Low Risk": 0, "Moderate Risk": 0, "High Risk": 0 });
+
+export const countByRiskLevel = (records: CohortRecord[]): RiskCounts =>
+  records.reduce((counts, record) => {
+    counts[record.result.riskLevel]++;
+    return counts;
+  }, emptyCounts());
+
+export interface HistogramBin {
+  /** Bin bounds, as probabilities in percent; the last bin includes 100. */
+  lower: number;
+  upper: number;
+  counts: RiskCounts;
+}
+
+export const probabilityHistogram = (records: CohortRecord[], binWidth = 10): HistogramBin[] => {
+  const bins: HistogramBin[] = [];
+  for (let lower = 0; lower < 100; lower += binWidth) {
+    bins.push({ lower, upper: Math.min(lower + binWidth, 100), counts: emptyCounts() });
+  }
+  records.forEach(({ result }) => {
+    const index = Math.min(Math.floor(result.probability / binWidth), bins.length - 1);
+    bins[index].counts[result.riskLevel]++;
+  });
+  return bins;
+};
+
+export interface BreakdownRow {
+  value: string;
+  total: number;
+  counts: RiskCounts;
+  /** Mean probability in percent; NaN for an empty group. */
+  meanProbability: number;
+}
+
+/** Risk level counts and mean probability for every value of `dimension`, including empty ones. */
+export const breakdownBy = (records: CohortRecord[], dimension: CohortDimension): BreakdownRow[] => {
+  const values = COHORT_DIMENSIONS.find(d => d.id === dimension)!.values;
+  return values.map(value => {
+    const group = records.filter(record => valueOf(record, dimension) === value);
+    return {
+      value,
+      total: group.length,
+      counts: countByRiskLevel(group),
+      meanProbability: group.length === 0 ? NaN : group.reduce((sum, r) => sum + r.result.probability, 0) / group.length,
+    };
+  });
+};
+
+export interface TierPrevalence {
+  riskLevel: RiskLevel;
+  total: number;
+  /** Shares of the tier, 0–1; NaN for an empty tier. */
+  hypertension: number;
+  heartDisease: number;
+}
+
+export const prevalenceByTier = (records: CohortRecord[]): TierPrevalence[] =>
+  RISK_LEVELS.map(riskLevel => {
+    const tier = records.filter(record => record.result.riskLevel === riskLevel);
+    const share = (count: number) => (tier.length === 0 ? NaN : count / tier.length);
+    return {
+      riskLevel,
+      total: tier.length,
+      hypertension: share(tier.filter(record => record.data.hypertension).length),
+      heartDisease: share(tier.filter(record => record.data.heartDisease).length),
+    };
+  });
+
+/**
+ * Turns stored assessments into a cohort. With `latestOnly`, each patient counts once, with
+ * their most recent assessment. Risk levels are re-derived with `policy`, so stored and new
+ * results share the current bands.
+ */
+export const cohortFromAssessments = (assessments: Assessment[], policy: RiskPolicy, latestOnly = true): CohortRecord[] => {
+  const chosen = latestOnly
+    ? [...assessments.reduce((latest, a) => {
+        const current = latest.get(a.patientId);
+        if (!current || a.timestamp > current.timestamp) latest.set(a.patientId, a);
+        return latest;
+      }, new Map<string, Assessment>()).values()]
+    : assessments;
+  return chosen.map(a => ({ data: a.input, result: applyRiskPolicy(a.result, policy) }));
+};
+
+/**
+ * Reads a CSV exported from Batch Scoring: the stroke dataset columns plus `probability`
+ * and, optionally, the range and confidence columns. Rows without a usable probability
+ * or patient data are counted as skipped.
+ */
+export const parseScoredCsv = (
+  text: string,
+  policy: RiskPolicy,
+  locale: Locale = DEFAULT_LOCALE
+): { records: CohortRecord[]; skipped: number } => {
+  const [header = [], ...lines] = parseCsv(text);
+  const columnIndex = new Map(header.map((name, index) => [name.trim().toLowerCase(), index]));
+  if (!columnIndex.has("probability")) {
+    const messages = CATALOGS[locale].csv;
+    throw new Error(`${fillTemplate(messages.missingColumn, { column: "probability" })} ${messages.scoredFileHint}`);
+  }
+  const cell = (line: string[] | undefined, column: string) => {
+    const index = columnIndex.get(column);
+    return index === undefined ? "" : line?.[index]?.trim() ?? "";
+  };
+
+  const records: CohortRecord[] = [];
+  let skipped = 0;
+  parsePatientCsv(text, locale).forEach((row, index) => {
+    const line = lines[index];
+    const probability = Number(cell(line, "probability"));
+    if (!row.data || cell(line, "probability") === "" || !Number.isFinite(probability)) {
+      skipped++;
+      return;
+    }
+    const low = Number(cell(line, "probability_low"));
+    const high = Number(cell(line, "probability_high"));
+    const confidence = cell(line, "confidence") as Confidence;
+    const result: PredictionResult = {
+      strokePrediction: false,
+      probability,
+      riskLevel: "Low Risk",
+      factors: [],
+      uncertainty: {
+        low: cell(line, "probability_low") !== "" && Number.isFinite(low) ? low : probability,
+        high: cell(line, "probability_high") !== "" && Number.isFinite(high) ? high : probability,
+        confidence: CONFIDENCE_LEVELS.includes(confidence) ? confidence : "high",
+        missingFields: (Object.keys(row.data) as (keyof PatientData)[]).filter(field => row.data![field] === null),
+      },
+    };
+    records.push({ data: row.data, result: applyRiskPolicy(result, policy) });
+  });
+  return { records, skipped };
+};
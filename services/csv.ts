@@ -0,0 +1,67 @@
+export interface CsvRecord {
+  fields: string[];
+  /** Line the record starts on (1-based), counting skipped blank lines and line breaks inside quotes. */
+  line: number;
+}
+
+/**
+ * Minimal RFC 4180 CSV reader/writer: quoted fields, escaped quotes ("")
+ * and CRLF or LF line endings. Blank lines are skipped.
+ */
+export const parseCsvRecords = (text: string): CsvRecord[] => {
+  const records: CsvRecord[] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+  let line = 1;
+  let recordLine = 1;
+
+  const endRow = () => {
+    row.push(field);
+    if (row.length > 1 || row[0].trim() !== "") {
+      records.push({ fields: row, line: recordLine });
+    }
+    row = [];
+    field = "";
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (char === "\n") line++;
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n") {
+      endRow();
+      recordLine = line;
+    } else if (char !== "\r") {
+      field += char;
+    }
+  }
+
+  if (field !== "" || row.length > 0) {
+    endRow();
+  }
+
+  return records;
+};
+
+export const parseCsv = (text: string): string[][] => parseCsvRecords(text).map(record => record.fields);
+
+const escapeField = (value: string) =>
+  /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+export const toCsv = (rows: (string | number | boolean)[][]): string =>
+  rows.map(row => row.map(value => escapeField(String(value))).join(",")).join("\n");
@@ -0,0 +1,104 @@
+import { ApiError } from "@google/genai";
+import { Locale } from "../types";
+import { CATALOGS, DEFAULT_LOCALE } from "./i18n";
+
+/** Base class for every failure surfaced by a predictor. */
+export class PredictionError extends Error {
+  name = "PredictionError";
+  /** Whether repeating the same request may succeed. */
+  readonly retryable: boolean = false;
+}
+
+/** The API key is missing, invalid or lacks permission for the model. */
+export class AuthenticationError extends PredictionError {
+  name = "AuthenticationError";
+}
+
+/** The API rate limit or quota has been exhausted. */
+export class QuotaExceededError extends PredictionError {
+  name = "QuotaExceededError";
+  readonly retryable = true;
+}
+
+/** The service could not be reached or failed on its side. */
+export class NetworkError extends PredictionError {
+  name = "NetworkError";
+  readonly retryable = true;
+}
+
+/** No response arrived within the request timeout. */
+export class TimeoutError extends NetworkError {
+  name = "TimeoutError";
+}
+
+/** The model answered, but not with a usable prediction. */
+export class MalformedResponseError extends PredictionError {
+  name = "MalformedResponseError";
+  readonly retryable = true;
+}
+
+/** The caller aborted the request. */
+export class PredictionCancelledError extends PredictionError {
+  name = "PredictionCancelledError";
+}
+
+/** Local-only mode is on, so no patient data may be sent to a remote model. */
+export class RemoteCallBlockedError extends PredictionError {
+  name = "RemoteCallBlockedError";
+}
+
+/** A remote model was called before the user consented to sending data this session. */
+export class ConsentRequiredError extends PredictionError {
+  name = "ConsentRequiredError";
+}
+
+const isAbortError = (error: unknown) =>
+  error instanceof DOMException ? error.name === "AbortError" : error instanceof Error && error.name === "AbortError";
+
+/** Maps anything thrown while calling a remote model onto the prediction error hierarchy. */
+export const toPredictionError = (error: unknown): PredictionError => {
+  if (error instanceof PredictionError) return error;
+
+  const message = error instanceof Error ? error.message : String(error);
+
+  if (isAbortError(error)) {
+    return new PredictionCancelledError("The prediction was cancelled.", { cause: error });
+  }
+
+  if (error instanceof ApiError) {
+    if (error.status === 401 || error.status === 403) {
+      return new AuthenticationError(message, { cause: error });
+    }
+    if (error.status === 429) {
+      return new QuotaExceededError(message, { cause: error });
+    }
+    if (error.status === 408 || error.status >= 500) {
+      return new NetworkError(message, { cause: error });
+    }
+    if (error.status === 400 && /api key/i.test(message)) {
+      return new AuthenticationError(message, { cause: error });
+    }
+    return new PredictionError(message, { cause: error });
+  }
+
+  // fetch() rejects with a TypeError when the network is unreachable.
+  if (error instanceof TypeError) {
+    return new NetworkError(message, { cause: error });
+  }
+
+  return new PredictionError(message, { cause: error });
+};
+
+/** An actionable message for showing a prediction failure to the user, in their language. */
+export const describePredictionError = (error: unknown, locale: Locale = DEFAULT_LOCALE): string => {
+  const messages = CATALOGS[locale].errors;
+  if (error instanceof AuthenticationError) return messages.authentication;
+  if (error instanceof QuotaExceededError) return messages.quota;
+  if (error instanceof TimeoutError) return messages.timeout;
+  if (error instanceof NetworkError) return messages.network;
+  if (error instanceof MalformedResponseError) return messages.malformed;
+  if (error instanceof PredictionCancelledError) return messages.cancelled;
+  if (error instanceof RemoteCallBlockedError) return messages.localOnly;
+  if (error instanceof ConsentRequiredError) return messages.consent;
+  return messages.generic;
+};
@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import { computeMetrics, createStubPredictor, evaluatePredictor, parseLabelledCsv } from './evaluation';
+import { DATASET_CSV, FLAWED_CSV } from '../test/fixtures/csv';
+
+describe('createStubPredictor', () => {
+  it('follows the risk policy for the scored probability', async () => {
+    const stub = createStubPredictor(data => (typeof data.age === 'number' ? data.age / 2 : 0));
+    const [row] = parseLabelledCsv(DATASET_CSV);
+    const result = await stub.predict(row.data!);
+
+    expect(result.probability).toBe(33.5);
+    expect(result.riskLevel).toBe('High Risk');
+    expect(result.strokePrediction).toBe(true);
+    expect(result.uncertainty).toEqual({ low: 33.5, high: 33.5, confidence: 'high', missingFields: [] });
+  });
+});
+
+describe('evaluatePredictor', () => {
+  it('gives a perfect score to a predictor that knows the labels', async () => {
+    const rows = parseLabelledCsv(DATASET_CSV);
+    // Glucose values are unique in the fixture, so they identify the row.
+    const labels = new Map(rows.map(row => [row.data!.avgGlucoseLevel, row.label]));
+    const oracle = createStubPredictor(data => (labels.get(data.avgGlucoseLevel) ? 90 : 1));
+    const { metrics, skipped } = await evaluatePredictor(rows, oracle);
+
+    expect(skipped).toBe(0);
+    expect(metrics.samples).toBe(35);
+    expect(metrics.positives).toBe(13);
+    expect(metrics.aucRoc).toBe(1);
+    expect(metrics.accuracy).toBe(1);
+    expect(metrics.confusion).toEqual({ truePositive: 13, falsePositive: 0, trueNegative: 22, falseNegative: 0 });
+  });
+
+  it('gives an AUC of one half to a constant predictor', async () => {
+    const { metrics } = await evaluatePredictor(parseLabelledCsv(DATASET_CSV), createStubPredictor(() => 5));
+    expect(metrics.aucRoc).toBe(0.5);
+    expect(metrics.recall).toBe(0);
+  });
+
+  it('skips invalid and unlabelled rows', async () => {
+    const { metrics, skipped } = await evaluatePredictor(parseLabelledCsv(FLAWED_CSV), createStubPredictor(() => 5));
+    expect(metrics.samples).toBe(1);
+    expect(skipped).toBe(3);
+  });
+
+  it('requires the stroke column', () => {
+    expect(() => parseLabelledCsv('gender,age\nMale,40\n')).toThrow('Missing required column: stroke.');
+  });
+});
+
+describe('computeMetrics', () => {
+  const samples = [
+    { label: true, probability: 20, predicted: false },
+    { label: true, probability: 10, predicted: false },
+    { label: false, probability: 10, predicted: false },
+    { label: false, probability: 5, predicted: false },
+  ];
+
+  it('counts tied probabilities as half a correct ranking in the AUC', () => {
+    // Three of the four positive/negative pairs are ordered correctly and one is tied.
+    expect(computeMetrics(samples).aucRoc).toBe(0.875);
+  });
+
+  it('computes the Brier score on the 0–1 scale', () => {
+    expect(computeMetrics(samples).brierScore).toBeCloseTo((0.8 ** 2 + 0.9 ** 2 + 0.1 ** 2 + 0.05 ** 2) / 4);
+  });
+
+  it('puts every sample in one calibration bin, with 100% in the last', () => {
+    const { calibration } = computeMetrics([
+      { label: false, probability: 0, predicted: false },
+      { label: true, probability: 100, predicted: true },
+    ]);
+    expect(calibration[0].count).toBe(1);
+    expect(calibration[9].count).toBe(1);
+    expect(calibration.reduce((sum, bin) => sum + bin.count, 0)).toBe(2);
+  });
+
+  it('averages the predictions and labels of each calibration bin', () => {
+    const [first, second] = computeMetrics(samples).calibration;
+    expect(first).toMatchObject({ lower: 0, upper: 10, count: 1, meanPredicted: 5, observedRate: 0 });
+    expect(second).toMatchObject({ lower: 10, upper: 20, count: 2, meanPredicted: 10, observedRate: 50 });
+  });
+});
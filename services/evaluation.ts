@@ -0,0 +1,208 @@
+import { Locale, PatientData, Predictor, PredictionResult } from "../types";
+import { parseCsv } from "./csv";
+import { BatchRow, BatchScoringOptions, parsePatientCsv, scoreBatch } from "./batchService";
+import { DEFAULT_RISK_POLICY, RiskPolicy, applyRiskPolicy } from "./riskPolicy";
+import { CATALOGS, DEFAULT_LOCALE, fillTemplate } from "./i18n";
+
+export interface LabelledRow extends BatchRow {
+  /** Value of the `stroke` column; null when it is missing or not 0/1. */
+  label: boolean | null;
+}
+
+export interface ScoredSample {
+  label: boolean;
+  probability: number;
+  predicted: boolean;
+}
+
+export interface CalibrationBin {
+  /** Bin bounds, as probabilities in percent. */
+  lower: number;
+  upper: number;
+  count: number;
+  meanPredicted: number;
+  observedRate: number;
+}
+
+export interface RocPoint {
+  falsePositiveRate: number;
+  truePositiveRate: number;
+}
+
+export interface EvaluationMetrics {
+  samples: number;
+  positives: number;
+  aucRoc: number;
+  /** Precision and recall of `strokePrediction` as returned by the predictor. */
+  precision: number;
+  recall: number;
+  specificity: number;
+  accuracy: number;
+  /** Mean squared error of the probability (0–1 scale) against the label. */
+  brierScore: number;
+  confusion: { truePositive: number; falsePositive: number; trueNegative: number; falseNegative: number };
+  calibration: CalibrationBin[];
+  roc: RocPoint[];
+}
+
+export interface EvaluationReport {
+  predictorId: string;
+  metrics: EvaluationMetrics;
+  /** Rows that were rejected, unlabelled or failed to score. */
+  skipped: number;
+}
+
+const parseLabel = (raw: string | undefined): boolean | null => {
+  const value = raw?.trim();
+  if (value === "1") return true;
+  if (value === "0") return false;
+  return null;
+};
+
+/**
+ * Parses a labelled CSV in the stroke dataset layout. The file must have a
+ * `stroke` column (0 or 1) in addition to the columns accepted by parsePatientCsv.
+ */
+export const parseLabelledCsv = (text: string, locale: Locale = DEFAULT_LOCALE): LabelledRow[] => {
+  const [header = [], ...lines] = parseCsv(text);
+  const strokeIndex = header.findIndex(name => name.trim().toLowerCase() === "stroke");
+  if (strokeIndex === -1) {
+    throw new Error(fillTemplate(CATALOGS[locale].csv.missingColumn, { column: "stroke" }));
+  }
+
+  return parsePatientCsv(text, locale).map((row, index) => ({
+    ...row,
+    label: parseLabel(lines[index]?.[strokeIndex]),
+  }));
+};
+
+const safeDivide = (numerator: number, denominator: number) => (denominator === 0 ? 0 : numerator / denominator);
+
+/** Area under the ROC curve via the Mann–Whitney U statistic, counting ties as one half. */
+const computeAuc = (samples: ScoredSample[]): number => {
+  const sorted = [...samples].sort((a, b) => a.probability - b.probability);
+  const positives = samples.filter(s => s.label).length;
+  const negatives = samples.length - positives;
+  if (positives === 0 || negatives === 0) return NaN;
+
+  let rankSum = 0;
+  for (let i = 0; i < sorted.length; ) {
+    let j = i;
+    while (j < sorted.length && sorted[j].probability === sorted[i].probability) j++;
+    const averageRank = (i + 1 + j) / 2;
+    for (let k = i; k < j; k++) {
+      if (sorted[k].label) rankSum += averageRank;
+    }
+    i = j;
+  }
+
+  return (rankSum - (positives * (positives + 1)) / 2) / (positives * negatives);
+};
+
+const computeRoc = (samples: ScoredSample[]): RocPoint[] => {
+  const positives = samples.filter(s => s.label).length;
+  const negatives = samples.length - positives;
+  const thresholds = [...new Set(samples.map(s => s.probability))].sort((a, b) => b - a);
+
+  return [
+    { falsePositiveRate: 0, truePositiveRate: 0 },
+    ...thresholds.map(threshold => {
+      const flagged = samples.filter(s => s.probability >= threshold);
+      return {
+        falsePositiveRate: safeDivide(flagged.filter(s => !s.label).length, negatives),
+        truePositiveRate: safeDivide(flagged.filter(s => s.label).length, positives),
+      };
+    }),
+  ];
+};
+
+const computeCalibration = (samples: ScoredSample[], bins: number): CalibrationBin[] =>
+  Array.from({ length: bins }, (_, index) => {
+    const lower = (index * 100) / bins;
+    const upper = ((index + 1) * 100) / bins;
+    const inBin = samples.filter(s =>
+      s.probability >= lower && (index === bins - 1 ? s.probability <= upper : s.probability < upper)
+    );
+    return {
+      lower,
+      upper,
+      count: inBin.length,
+      meanPredicted: safeDivide(inBin.reduce((sum, s) => sum + s.probability, 0), inBin.length),
+      observedRate: safeDivide(inBin.filter(s => s.label).length, inBin.length) * 100,
+    };
+  });
+
+export const computeMetrics = (samples: ScoredSample[], calibrationBins = 10): EvaluationMetrics => {
+  const truePositive = samples.filter(s => s.label && s.predicted).length;
+  const falsePositive = samples.filter(s => !s.label && s.predicted).length;
+  const trueNegative = samples.filter(s => !s.label && !s.predicted).length;
+  const falseNegative = samples.filter(s => s.label && !s.predicted).length;
+
+  return {
+    samples: samples.length,
+    positives: truePositive + falseNegative,
+    aucRoc: computeAuc(samples),
+    precision: safeDivide(truePositive, truePositive + falsePositive),
+    recall: safeDivide(truePositive, truePositive + falseNegative),
+    specificity: safeDivide(trueNegative, trueNegative + falsePositive),
+    accuracy: safeDivide(truePositive + trueNegative, samples.length),
+    brierScore: safeDivide(
+      samples.reduce((sum, s) => sum + (s.probability / 100 - (s.label ? 1 : 0)) ** 2, 0),
+      samples.length
+    ),
+    confusion: { truePositive, falsePositive, trueNegative, falseNegative },
+    calibration: computeCalibration(samples, calibrationBins),
+    roc: computeRoc(samples),
+  };
+};
+
+/** Scores every labelled, valid row with the predictor and computes the evaluation metrics. */
+export const evaluatePredictor = async (
+  rows: LabelledRow[],
+  predictor: Predictor<string>,
+  options: BatchScoringOptions = {}
+): Promise<EvaluationReport> => {
+  const labelled = rows.filter(row => row.label !== null);
+  const scored = await scoreBatch(labelled, predictor, options);
+
+  const samples: ScoredSample[] = scored
+    .filter((row): row is typeof row & { result: PredictionResult } => row.result !== null)
+    .map(row => ({
+      label: row.label!,
+      probability: row.result.probability,
+      predicted: row.result.strokePrediction,
+    }));
+
+  return {
+    predictorId: predictor.id,
+    metrics: computeMetrics(samples),
+    skipped: rows.length - samples.length,
+  };
+};
+
+const certain = (probability: number): PredictionResult => ({
+  strokePrediction: false,
+  probability,
+  riskLevel: "Low Risk",
+  factors: [],
+  uncertainty: { low: probability, high: probability, confidence: "high", missingFields: [] },
+});
+
+/**
+ * A predictor that needs no model: `score` maps a patient to a probability (0–100),
+ * and risk level and prediction follow `policy`. Used to run the evaluation
+ * offline, e.g. in tests.
+ */
+export const createStubPredictor = (
+  score: (data: PatientData) => number,
+  id = "stub",
+  policy: RiskPolicy = DEFAULT_RISK_POLICY
+): Predictor<string> => ({
+  id,
+  modelId: id,
+  name: "Stub Predictor",
+  description: "Deterministic scoring function for offline evaluation.",
+  requiresNetwork: false,
+  predict: async data =>
+    applyRiskPolicy(certain(score(data)), policy),
+});
@@ -0,0 +1,258 @@
+import { describe, expect, it } from 'vitest';
+import {
+  FhirCondition,
+  FhirObservation,
+  FhirPatient,
+  FhirResource,
+  LOINC,
+  Quantity,
+  SNOMED,
+  importFhirBundle,
+  toFhirRiskAssessment,
+} from './fhir';
+import { predictorName } from './i18n';
+import { Gender, PatientData, PredictionResult, Predictor, SmokingStatus } from '../types';
+
+const AS_OF = new Date(2025, 0, 10);
+
+const PATIENT: FhirPatient = {
+  resourceType: 'Patient',
+  id: 'p-17',
+  gender: 'female',
+  birthDate: '1960-06-15',
+  maritalStatus: { coding: [{ system: 'http://terminology.hl7.org/CodeSystem/v3-MaritalStatus', code: 'W' }] },
+  name: [{ given: ['Ada'], family: 'Lovelace' }],
+};
+
+const observation = (code: string, valueQuantity?: Quantity, extra: Partial<FhirObservation> = {}): FhirObservation => ({
+  resourceType: 'Observation',
+  status: 'final',
+  code: { coding: [{ system: LOINC, code }] },
+  ...(valueQuantity && { valueQuantity }),
+  ...extra,
+});
+
+const condition = (system: string, code: string, extra: Partial<FhirCondition> = {}): FhirCondition => ({
+  resourceType: 'Condition',
+  code: { coding: [{ system, code }] },
+  ...extra,
+});
+
+const bundle = (...resources: FhirResource[]) => ({
+  resourceType: 'Bundle',
+  type: 'collection',
+  entry: resources.map(resource => ({ resource })),
+});
+
+const importAll = (...resources: FhirResource[]) => importFhirBundle(bundle(PATIENT, ...resources), AS_OF);
+
+const ICD10 = 'http://hl7.org/fhir/sid/icd-10-cm';
+
+describe('importFhirBundle', () => {
+  it('reads the demographics from the Patient', () => {
+    const result = importAll();
+    expect(result.data).toMatchObject({ gender: Gender.Female, age: 64, everMarried: true });
+    expect(result.patientId).toBe('p-17');
+    expect(result.patientName).toBe('Ada Lovelace');
+  });
+
+  it('accepts a bare Patient resource', () => {
+    expect(importFhirBundle(PATIENT, AS_OF).data.age).toBe(64);
+  });
+
+  it.each<[string, FhirObservation, Partial<PatientData>]>([
+    ['BMI', observation('39156-5', { value: 31.24, code: 'kg/m2' }), { bmi: 31.2 }],
+    ['glucose in mg/dL', observation('2345-7', { value: 110, code: 'mg/dL' }), { avgGlucoseLevel: 110 }],
+    ['glucose in mmol/L', observation('15074-8', { value: 6, code: 'mmol/L' }), { avgGlucoseLevel: 108.1 }],
+    ['systolic blood pressure', observation('8480-6', { value: 142, code: 'mm[Hg]' }), { systolicBp: 142 }],
+    [
+      'a blood pressure panel',
+      observation('85354-9', undefined, {
+        component: [
+          { code: { coding: [{ system: LOINC, code: '8462-4' }] }, valueQuantity: { value: 85, code: 'mm[Hg]' } },
+          { code: { coding: [{ system: LOINC, code: '8480-6' }] }, valueQuantity: { value: 138, code: 'mm[Hg]' } },
+        ],
+      }),
+      { systolicBp: 138 },
+    ],
+  ])('maps %s by its LOINC code', (_, resource, expected) => {
+    const result = importAll(resource);
+    expect(result.data).toMatchObject(expected);
+    expect(result.unmapped).toEqual([]);
+  });
+
+  it('uses the latest BMI and averages every glucose result', () => {
+    const result = importAll(
+      observation('39156-5', { value: 27, code: 'kg/m2' }, { effectiveDateTime: '2023-03-01' }),
+      observation('39156-5', { value: 29, code: 'kg/m2' }, { effectiveDateTime: '2024-11-20' }),
+      observation('39156-5', { value: 40, code: 'kg/m2' }, { effectiveDateTime: '2024-12-01', status: 'entered-in-error' }),
+      observation('2345-7', { value: 100, code: 'mg/dL' }, { effectiveDateTime: '2024-01-01' }),
+      observation('2345-7', { value: 120, code: 'mg/dL' }, { effectiveDateTime: '2024-06-01' }),
+    );
+    expect(result.data.bmi).toBe(29);
+    expect(result.data.avgGlucoseLevel).toBe(110);
+  });
+
+  it.each([
+    ['centimetres and kilograms', { value: 170, code: 'cm' }, { value: 65, code: 'kg' }, 22.5],
+    ['metres and grams', { value: 1.7, code: 'm' }, { value: 65000, code: 'g' }, 22.5],
+    ['inches and pounds', { value: 67, code: '[in_i]' }, { value: 143, code: '[lb_av]' }, 22.4],
+    ['units without a code', { value: 170, unit: 'cm' }, { value: 65, unit: 'kg' }, 22.5],
+  ])('calculates BMI from height and weight in %s', (_, height, weight, bmi) => {
+    const result = importAll(observation('8302-2', height), observation('29463-7', weight));
+    expect(result.data.bmi).toBe(bmi);
+    expect(result.warnings).toContain('BMI was calculated from the latest height and weight.');
+  });
+
+  it.each([
+    ['height', { value: 5.6, unit: 'feet' }, { value: 65, code: 'kg' }, 'Height is recorded in "feet", which is not a known length unit; BMI was not calculated.'],
+    ['weight', { value: 170, code: 'cm' }, { value: 10, code: '[stone_av]' }, 'Weight is recorded in "[stone_av]", which is not a known mass unit; BMI was not calculated.'],
+    ['weight', { value: 170, code: 'cm' }, { value: 65 }, 'Weight is recorded in no unit, which is not a known mass unit; BMI was not calculated.'],
+  ])('skips a %s in an unknown unit', (_, height, weight, warning) => {
+    const result = importAll(observation('8302-2', height), observation('29463-7', weight));
+    expect(result.data.bmi).toBeUndefined();
+    expect(result.missing).toContain('bmi');
+    expect(result.warnings).toContain(warning);
+  });
+
+  it('ignores a BMI that is not in kg/m2 and falls back to height and weight', () => {
+    const result = importAll(
+      observation('39156-5', { value: 31, unit: 'lb/in2' }),
+      observation('8302-2', { value: 170, code: 'cm' }),
+      observation('29463-7', { value: 65, code: 'kg' }),
+    );
+    expect(result.data.bmi).toBe(22.5);
+    expect(result.warnings).toContain('BMI is recorded in "lb/in2" rather than kg/m2 and was not used.');
+  });
+
+  it('maps smoking status by its SNOMED CT code', () => {
+    const smoking = (code: string) =>
+      observation('72166-2', undefined, { valueCodeableConcept: { coding: [{ system: SNOMED, code, display: 'Smoker' }] } });
+    expect(importAll(smoking('8517006')).data.smokingStatus).toBe(SmokingStatus.FormerlySmoked);
+
+    const unknown = importAll(smoking('12345'));
+    expect(unknown.data.smokingStatus).toBeUndefined();
+    expect(unknown.warnings).toContain('Smoking status Smoker (12345) is not a recognised SNOMED CT code.');
+  });
+
+  it.each<[string, FhirCondition, (keyof PatientData)[]]>([
+    ['SNOMED CT hypertension', condition(SNOMED, '38341003'), ['hypertension']],
+    ['SNOMED CT type 2 diabetes', condition(SNOMED, '44054006'), ['diabetes']],
+    ['an ICD-10 atrial fibrillation subcode', condition(ICD10, 'I48.91'), ['heartDisease', 'atrialFibrillation']],
+    ['an ICD-10 stroke', condition(ICD10, 'i63.9'), ['priorStroke']],
+    ['a resolved heart failure', condition(SNOMED, '84114007', {
+      clinicalStatus: { coding: [{ system: 'http://terminology.hl7.org/CodeSystem/condition-clinical', code: 'resolved' }] },
+    }), ['heartDisease', 'congestiveHeartFailure']],
+  ])('sets history flags from %s', (_, resource, fields) => {
+    const { data } = importAll(resource);
+    fields.forEach(field => expect(data[field]).toBe(true));
+  });
+
+  it('does not count refuted conditions or resolved hypertension', () => {
+    const result = importAll(
+      condition(SNOMED, '44054006', {
+        verificationStatus: { coding: [{ system: 'http://terminology.hl7.org/CodeSystem/condition-ver-status', code: 'refuted' }] },
+      }),
+      condition(ICD10, 'I10', {
+        code: { coding: [{ system: ICD10, code: 'I10', display: 'Essential hypertension' }] },
+        clinicalStatus: { coding: [{ system: 'http://terminology.hl7.org/CodeSystem/condition-clinical', code: 'resolved' }] },
+      }),
+    );
+    expect(result.data.diabetes).toBeUndefined();
+    expect(result.data.hypertension).toBe(false);
+    expect(result.assumedAbsent).toContain('hypertension');
+    expect(result.warnings).toContain('Hypertension is recorded as resolved (Essential hypertension (I10)) and was not counted.');
+  });
+
+  it('reports missing fields and defaults the history flags to "No"', () => {
+    const result = importAll();
+    expect(result.missing).toEqual(['workType', 'residenceType', 'avgGlucoseLevel', 'bmi', 'smokingStatus']);
+    expect(result.assumedAbsent).toEqual(['hypertension', 'heartDisease']);
+    expect(result.data).toMatchObject({ hypertension: false, heartDisease: false });
+    expect(result.warnings).toEqual([
+      'Work Type has no standard FHIR representation; please enter it manually.',
+      'Residence Type has no standard FHIR representation; please enter it manually.',
+    ]);
+  });
+
+  it('lists resources, observations and conditions it could not map', () => {
+    const result = importAll(
+      observation('2093-3', { value: 190, code: 'mg/dL' }, { code: { coding: [{ system: LOINC, code: '2093-3' }], text: 'Cholesterol' } }),
+      condition(SNOMED, '195967001', { code: { coding: [{ system: SNOMED, code: '195967001', display: 'Asthma' }] } }),
+      { resourceType: 'MedicationStatement', id: 'm-1' },
+    );
+    expect(result.unmapped).toEqual(['Observation: Cholesterol (2093-3)', 'Condition: Asthma (195967001)', 'MedicationStatement m-1']);
+  });
+
+  it('warns about a bundle without exactly one Patient', () => {
+    expect(importFhirBundle(bundle(), AS_OF).warnings).toContain('The bundle has no Patient resource.');
+    expect(importFhirBundle(bundle(PATIENT, { ...PATIENT, id: 'p-18' }), AS_OF).warnings)
+      .toContain('The bundle has 2 Patient resources; only the first was used.');
+  });
+
+  it('writes warnings in the locale', () => {
+    expect(importFhirBundle(bundle(), AS_OF, 'de').warnings).toContain('Das Bundle enthält keine Patient-Ressource.');
+    expect(importFhirBundle(bundle(PATIENT), AS_OF, 'es').warnings)
+      .toContain('Tipo de trabajo no tiene representación estándar en FHIR; introdúzcalo manualmente.');
+  });
+
+  it('rejects input that is not a FHIR resource', () => {
+    expect(() => importFhirBundle({ entry: [] })).toThrow('Not a FHIR resource: resourceType is missing.');
+  });
+});
+
+describe('toFhirRiskAssessment', () => {
+  const result: PredictionResult = {
+    strokePrediction: true,
+    probability: 31.25,
+    riskLevel: 'High Risk',
+    factors: [{ field: 'age', value: 72, direction: 'increase', points: 12.34, rationale: 'Risk rises with age.' }],
+    uncertainty: { low: 24, high: 38, confidence: 'moderate', missingFields: [] },
+  };
+  const predictor: Predictor = {
+    id: 'local',
+    modelId: 'stroke-lr-test',
+    name: 'Local Model',
+    description: '',
+    requiresNetwork: false,
+    predict: async () => result,
+  };
+  const generatedAt = new Date('2025-01-10T09:30:00Z');
+
+  it('serialises the prediction for the patient', () => {
+    const assessment = toFhirRiskAssessment({ result, predictor, generatedAt, patientId: 'p-17', patientName: 'Ada Lovelace' });
+    expect(assessment).toMatchObject({
+      resourceType: 'RiskAssessment',
+      status: 'final',
+      subject: { reference: 'Patient/p-17', display: 'Ada Lovelace' },
+      occurrenceDateTime: '2025-01-10T09:30:00.000Z',
+      method: { coding: [{ system: 'urn:stroke-prediction-system:model', code: 'stroke-lr-test', display: 'Local Model' }] },
+      prediction: [
+        {
+          outcome: { coding: [{ system: SNOMED, code: '230690007', display: 'Cerebrovascular accident' }], text: 'Stroke' },
+          probabilityDecimal: 0.3125,
+          qualitativeRisk: {
+            coding: [{ system: 'http://terminology.hl7.org/CodeSystem/risk-probability', code: 'high', display: 'High likelihood' }],
+            text: 'High Risk',
+          },
+        },
+      ],
+      note: [{ text: 'Age (72 years): +12.3 percentage points. Risk rises with age.' }],
+    });
+    expect(assessment.prediction[0].rationale).toMatch(/^Stroke predicted\. /);
+  });
+
+  it('refers to an unidentified patient by display only and leaves out empty notes', () => {
+    const assessment = toFhirRiskAssessment({ result: { ...result, factors: [] }, predictor, generatedAt });
+    expect(assessment.subject).toEqual({ display: 'Unidentified patient' });
+    expect(assessment).not.toHaveProperty('note');
+  });
+
+  it('writes the text in the locale and keeps the standard codings', () => {
+    const assessment = toFhirRiskAssessment({ result, predictor, generatedAt, locale: 'de' });
+    expect(assessment.method.text).toBe(predictorName('de', 'local'));
+    expect(assessment.prediction[0].outcome.coding).toEqual([{ system: SNOMED, code: '230690007', display: 'Cerebrovascular accident' }]);
+    expect(assessment.prediction[0].outcome.text).not.toBe('Stroke');
+    expect(assessment.prediction[0].qualitativeRisk.coding[0].display).toBe('High likelihood');
+  });
+});
@@ -0,0 +1,453 @@
+import { Gender, Locale, PatientData, PredictionResult, Predictor, RiskLevel, SmokingStatus } from "../types";
+import {
+  CATALOGS,
+  DEFAULT_LOCALE,
+  describeUncertainty,
+  fieldLabel,
+  fillTemplate,
+  formatNumber,
+  formatValue,
+  predictorName,
+  riskLevelLabel,
+} from "./i18n";
+import { FIELD_SCHEMA } from "../formSchema";
+import { MG_DL_PER_MMOL_L, calculateBmi, round } from "./units";
+
+// Just the parts of the FHIR R4 resources this mapping reads or writes.
+
+export interface Coding {
+  system?: string;
+  code?: string;
+  display?: string;
+}
+
+export interface CodeableConcept {
+  coding?: Coding[];
+  text?: string;
+}
+
+export interface Quantity {
+  value?: number;
+  unit?: string;
+  code?: string;
+}
+
+export interface Reference {
+  reference?: string;
+  display?: string;
+}
+
+export interface FhirResource {
+  resourceType: string;
+  id?: string;
+  [key: string]: unknown;
+}
+
+export interface FhirPatient extends FhirResource {
+  resourceType: "Patient";
+  gender?: "male" | "female" | "other" | "unknown";
+  birthDate?: string;
+  maritalStatus?: CodeableConcept;
+  name?: { text?: string; given?: string[]; family?: string }[];
+}
+
+export interface FhirObservation extends FhirResource {
+  resourceType: "Observation";
+  status?: string;
+  code: CodeableConcept;
+  effectiveDateTime?: string;
+  valueQuantity?: Quantity;
+  valueCodeableConcept?: CodeableConcept;
+  component?: { code: CodeableConcept; valueQuantity?: Quantity }[];
+}
+
+export interface FhirCondition extends FhirResource {
+  resourceType: "Condition";
+  code?: CodeableConcept;
+  clinicalStatus?: CodeableConcept;
+  verificationStatus?: CodeableConcept;
+}
+
+export interface FhirBundle {
+  resourceType: "Bundle";
+  type?: string;
+  entry?: { fullUrl?: string; resource?: FhirResource }[];
+}
+
+export interface FhirRiskAssessment extends FhirResource {
+  resourceType: "RiskAssessment";
+  status: "final";
+  subject: Reference;
+  occurrenceDateTime: string;
+  method: CodeableConcept;
+  prediction: {
+    outcome: CodeableConcept;
+    probabilityDecimal: number;
+    qualitativeRisk: CodeableConcept;
+    rationale: string;
+  }[];
+  note?: { text: string }[];
+}
+
+export interface FhirImportResult {
+  /** Values found in the bundle, in canonical units. */
+  data: Partial<PatientData>;
+  /** Patient.id, for referencing the patient in an exported RiskAssessment. */
+  patientId?: string;
+  patientName?: string;
+  /** Required fields with no value in the bundle. */
+  missing: (keyof PatientData)[];
+  /** Required history flags with no matching Condition, set to "No". */
+  assumedAbsent: (keyof PatientData)[];
+  /** Resources, observations and conditions that did not map onto any field. */
+  unmapped: string[];
+  warnings: string[];
+}
+
+export const LOINC = "http://loinc.org";
+export const SNOMED = "http://snomed.info/sct";
+const ICD10 = ["http://hl7.org/fhir/sid/icd-10", "http://hl7.org/fhir/sid/icd-10-cm"];
+const MARITAL_STATUS = "http://terminology.hl7.org/CodeSystem/v3-MaritalStatus";
+const RISK_PROBABILITY = "http://terminology.hl7.org/CodeSystem/risk-probability";
+const CONDITION_CLINICAL = "http://terminology.hl7.org/CodeSystem/condition-clinical";
+const CONDITION_VERIFICATION = "http://terminology.hl7.org/CodeSystem/condition-ver-status";
+
+const OBSERVATION_CODES = {
+  bmi: ["39156-5"],
+  glucoseMass: ["2339-0", "2345-7", "41653-7"],
+  glucoseMolar: ["15074-8", "14749-6"],
+  smoking: ["72166-2"],
+  systolicBp: ["8480-6"],
+  bloodPressurePanel: ["85354-9", "55284-4"],
+  height: ["8302-2"],
+  weight: ["29463-7"],
+};
+
+const SMOKING_STATUS_CODES: Record<string, SmokingStatus> = {
+  "449868002": SmokingStatus.Smokes, // Current every day smoker
+  "428041000124106": SmokingStatus.Smokes, // Current some day smoker
+  "77176002": SmokingStatus.Smokes, // Smoker, current status unknown
+  "428071000124103": SmokingStatus.Smokes, // Current heavy tobacco smoker
+  "428061000124105": SmokingStatus.Smokes, // Current light tobacco smoker
+  "8517006": SmokingStatus.FormerlySmoked, // Ex-smoker
+  "266919005": SmokingStatus.NeverSmoked, // Never smoked tobacco
+  "266927001": SmokingStatus.Unknown, // Tobacco smoking consumption unknown
+};
+
+// v3 MaritalStatus codes that imply the patient has been married at some point.
+const EVER_MARRIED_CODES = ["A", "D", "I", "L", "M", "P", "W"];
+
+type ConditionField =
+  | "hypertension"
+  | "heartDisease"
+  | "diabetes"
+  | "atrialFibrillation"
+  | "congestiveHeartFailure"
+  | "vascularDisease"
+  | "priorStroke"
+  | "leftVentricularHypertrophy";
+
+interface ConditionCodes {
+  snomed: string[];
+  /** ICD-10 code prefixes, e.g. "I10" also matches "I10.9". */
+  icd10: string[];
+}
+
+const CONDITION_CODES: Record<ConditionField, ConditionCodes> = {
+  hypertension: { snomed: ["38341003", "59621000", "1201005"], icd10: ["I10", "I11", "I12", "I13", "I15", "I16"] },
+  heartDisease: {
+    snomed: ["56265001", "53741008", "414545008", "22298006", "84114007", "49436004"],
+    icd10: ["I20", "I21", "I22", "I23", "I24", "I25", "I42", "I48", "I50"],
+  },
+  diabetes: { snomed: ["73211009", "44054006", "46635009"], icd10: ["E10", "E11", "E13", "E14"] },
+  atrialFibrillation: { snomed: ["49436004"], icd10: ["I48"] },
+  congestiveHeartFailure: { snomed: ["84114007", "42343007"], icd10: ["I50"] },
+  vascularDisease: { snomed: ["22298006", "399957001", "840580004"], icd10: ["I21", "I22", "I25.2", "I70", "I73.9"] },
+  priorStroke: { snomed: ["230690007", "266257000", "432504007"], icd10: ["I63", "I64", "G45", "Z86.73"] },
+  leftVentricularHypertrophy: { snomed: ["55827005"], icd10: ["I51.7"] },
+};
+
+// Required fields the bundle cannot supply through a standard code.
+const NO_STANDARD_MAPPING: (keyof PatientData)[] = ["workType", "residenceType"];
+
+const hasCode = (concept: CodeableConcept | undefined, system: string, codes: string[]) =>
+  !!concept?.coding?.some(c => c.system === system && c.code !== undefined && codes.includes(c.code));
+
+const hasIcd10Prefix = (concept: CodeableConcept | undefined, prefixes: string[]) =>
+  !!concept?.coding?.some(c =>
+    c.code !== undefined && ICD10.includes(c.system ?? "") && prefixes.some(prefix => c.code!.toUpperCase().startsWith(prefix))
+  );
+
+const describeConcept = (concept: CodeableConcept | undefined, locale: Locale) => {
+  const coding = concept?.coding?.[0];
+  const label = concept?.text ?? coding?.display ?? CATALOGS[locale].fhirImport.uncoded;
+  return coding?.code ? `${label} (${coding.code})` : label;
+};
+
+/** Whole years between the birth date and `asOf`. */
+const ageOn = (birthDate: string, asOf: Date): number | null => {
+  const [year, month = 1, day = 1] = birthDate.split("-").map(Number);
+  if (!year) return null;
+  let age = asOf.getFullYear() - year;
+  if (asOf.getMonth() + 1 < month || (asOf.getMonth() + 1 === month && asOf.getDate() < day)) age--;
+  return age;
+};
+
+// Factors to metres and kilograms, keyed by the UCUM codes used for body height and weight.
+const METRES_PER_UNIT: Record<string, number> = { m: 1, cm: 0.01, mm: 0.001, "[in_i]": 0.0254, "[ft_i]": 0.3048 };
+const KILOGRAMS_PER_UNIT: Record<string, number> = { kg: 1, g: 0.001, "[lb_av]": 0.45359237, "[oz_av]": 0.028349523125 };
+const BMI_UNITS = ["kg/m2", "kg/m²"];
+
+const unitOf = (quantity: Quantity) => quantity.code ?? quantity.unit ?? "";
+
+/** The value in the unit `factors` converts to, or null when the quantity's unit is not one of them. */
+const convertQuantity = (quantity: Quantity & { value: number }, factors: Record<string, number>): number | null => {
+  const factor = factors[unitOf(quantity)];
+  return factor === undefined ? null : quantity.value * factor;
+};
+
+const describeUnit = (quantity: Quantity, locale: Locale) =>
+  unitOf(quantity) ? `"${unitOf(quantity)}"` : CATALOGS[locale].fhirImport.noUnit;
+
+const hasValue = (quantity: Quantity | undefined): quantity is Quantity & { value: number } =>
+  typeof quantity?.value === "number";
+
+const byMostRecent = (a: FhirObservation, b: FhirObservation) =>
+  (b.effectiveDateTime ?? "").localeCompare(a.effectiveDateTime ?? "");
+
+const isUsableObservation = (observation: FhirObservation) =>
+  !["entered-in-error", "cancelled"].includes(observation.status ?? "");
+
+// Resolved conditions still count as history, except hypertension (see importFhirBundle).
+const isRecordedCondition = (condition: FhirCondition) =>
+  !hasCode(condition.verificationStatus, CONDITION_VERIFICATION, ["refuted", "entered-in-error"]);
+
+const isResolved = (condition: FhirCondition) =>
+  hasCode(condition.clinicalStatus, CONDITION_CLINICAL, ["inactive", "resolved", "remission"]);
+
+/** Glucose in mg/dL, converting molar observations. */
+const glucoseValue = (observation: FhirObservation): number | null => {
+  const value = observation.valueQuantity?.value;
+  if (typeof value !== "number") return null;
+  const unit = (observation.valueQuantity?.code ?? observation.valueQuantity?.unit ?? "").toLowerCase();
+  const molar = hasCode(observation.code, LOINC, OBSERVATION_CODES.glucoseMolar) || unit.includes("mmol");
+  return molar ? round(value * MG_DL_PER_MMOL_L, 1) : value;
+};
+
+const personName = (patient: FhirPatient): string | undefined => {
+  const name = patient.name?.[0];
+  if (!name) return undefined;
+  return name.text ?? ([...(name.given ?? []), name.family].filter(Boolean).join(" ") || undefined);
+};
+
+/**
+ * Builds PatientData from a FHIR R4 Bundle (or a single Patient) plus its Observations
+ * and Conditions. Picks the most recent BMI, smoking status and blood pressure, averages
+ * all glucose results, and sets history flags from Conditions coded in SNOMED CT or ICD-10.
+ * Height and weight are converted by their UCUM code; values in an unknown unit are
+ * skipped with a warning. Warnings are written in `locale`.
+ */
+export const importFhirBundle = (input: unknown, asOf: Date = new Date(), locale: Locale = DEFAULT_LOCALE): FhirImportResult => {
+  const texts = CATALOGS[locale].fhirImport;
+  if (typeof input !== "object" || input === null || !("resourceType" in input)) {
+    throw new Error(texts.notFhir);
+  }
+  const root = input as FhirResource;
+  const resources: FhirResource[] = root.resourceType === "Bundle"
+    ? ((root as FhirBundle).entry ?? []).map(entry => entry.resource).filter((r): r is FhirResource => !!r)
+    : [root];
+
+  const data: Partial<PatientData> = {};
+  const unmapped: string[] = [];
+  const warnings: string[] = [];
+
+  const patients = resources.filter((r): r is FhirPatient => r.resourceType === "Patient");
+  const observations = resources
+    .filter((r): r is FhirObservation => r.resourceType === "Observation")
+    .filter(isUsableObservation)
+    .sort(byMostRecent);
+  const conditions = resources.filter((r): r is FhirCondition => r.resourceType === "Condition");
+
+  if (patients.length === 0) {
+    warnings.push(texts.noPatient);
+  } else if (patients.length > 1) {
+    warnings.push(fillTemplate(texts.multiplePatients, { count: patients.length }));
+  }
+  const patient = patients[0];
+
+  if (patient) {
+    if (patient.gender === "male") data.gender = Gender.Male;
+    else if (patient.gender === "female") data.gender = Gender.Female;
+    else if (patient.gender === "other") data.gender = Gender.Other;
+
+    if (patient.birthDate) {
+      const age = ageOn(patient.birthDate, asOf);
+      if (age !== null) data.age = age;
+    }
+
+    const maritalCode = patient.maritalStatus?.coding?.find(c => c.system === MARITAL_STATUS)?.code;
+    if (maritalCode === "S") data.everMarried = false;
+    else if (maritalCode && EVER_MARRIED_CODES.includes(maritalCode)) data.everMarried = true;
+    else if (patient.maritalStatus) warnings.push(fillTemplate(texts.maritalStatus, { concept: describeConcept(patient.maritalStatus, locale) }));
+  }
+
+  const latest = (codes: string[]) => observations.find(o => hasCode(o.code, LOINC, codes));
+
+  const bmi = latest(OBSERVATION_CODES.bmi)?.valueQuantity;
+  if (hasValue(bmi) && BMI_UNITS.includes(unitOf(bmi))) {
+    data.bmi = round(bmi.value, 1);
+  } else {
+    if (hasValue(bmi)) warnings.push(fillTemplate(texts.bmiUnit, { unit: describeUnit(bmi, locale) }));
+    const height = latest(OBSERVATION_CODES.height)?.valueQuantity;
+    const weight = latest(OBSERVATION_CODES.weight)?.valueQuantity;
+    if (hasValue(height) && hasValue(weight)) {
+      const heightM = convertQuantity(height, METRES_PER_UNIT);
+      const weightKg = convertQuantity(weight, KILOGRAMS_PER_UNIT);
+      if (heightM === null) warnings.push(fillTemplate(texts.heightUnit, { unit: describeUnit(height, locale) }));
+      if (weightKg === null) warnings.push(fillTemplate(texts.weightUnit, { unit: describeUnit(weight, locale) }));
+      const calculated = heightM !== null && weightKg !== null
+        ? calculateBmi({ system: "metric", height: heightM * 100, heightInches: "", weight: weightKg })
+        : null;
+      if (calculated !== null) {
+        data.bmi = calculated;
+        warnings.push(texts.bmiCalculated);
+      }
+    }
+  }
+
+  const glucose = observations
+    .filter(o => hasCode(o.code, LOINC, [...OBSERVATION_CODES.glucoseMass, ...OBSERVATION_CODES.glucoseMolar]))
+    .map(glucoseValue)
+    .filter((value): value is number => value !== null);
+  if (glucose.length > 0) {
+    data.avgGlucoseLevel = round(glucose.reduce((sum, value) => sum + value, 0) / glucose.length, 1);
+  }
+
+  const smoking = latest(OBSERVATION_CODES.smoking);
+  if (smoking) {
+    const code = smoking.valueCodeableConcept?.coding?.find(c => c.system === SNOMED && c.code && c.code in SMOKING_STATUS_CODES)?.code;
+    if (code) data.smokingStatus = SMOKING_STATUS_CODES[code];
+    else warnings.push(fillTemplate(texts.smokingCode, { concept: describeConcept(smoking.valueCodeableConcept, locale) }));
+  }
+
+  const systolic = observations.find(o =>
+    hasCode(o.code, LOINC, OBSERVATION_CODES.systolicBp) ||
+    (hasCode(o.code, LOINC, OBSERVATION_CODES.bloodPressurePanel) && o.component?.some(c => hasCode(c.code, LOINC, OBSERVATION_CODES.systolicBp)))
+  );
+  if (systolic) {
+    const value = hasCode(systolic.code, LOINC, OBSERVATION_CODES.systolicBp)
+      ? systolic.valueQuantity?.value
+      : systolic.component?.find(c => hasCode(c.code, LOINC, OBSERVATION_CODES.systolicBp))?.valueQuantity?.value;
+    if (typeof value === "number") data.systolicBp = value;
+  }
+
+  // Older results of a mapped code are superseded rather than unmapped.
+  const knownCodes = Object.values(OBSERVATION_CODES).flat();
+  observations
+    .filter(o => !hasCode(o.code, LOINC, knownCodes))
+    .forEach(o => unmapped.push(`Observation: ${describeConcept(o.code, locale)}`));
+
+  conditions.filter(isRecordedCondition).forEach(condition => {
+    const fields = (Object.keys(CONDITION_CODES) as ConditionField[]).filter(field =>
+      hasCode(condition.code, SNOMED, CONDITION_CODES[field].snomed) || hasIcd10Prefix(condition.code, CONDITION_CODES[field].icd10)
+    );
+    if (fields.length === 0) {
+      unmapped.push(`Condition: ${describeConcept(condition.code, locale)}`);
+      return;
+    }
+    if (isResolved(condition) && fields.includes("hypertension")) {
+      warnings.push(fillTemplate(texts.resolvedHypertension, { concept: describeConcept(condition.code, locale) }));
+      fields.splice(fields.indexOf("hypertension"), 1);
+    }
+    fields.forEach(field => { data[field] = true; });
+  });
+
+  resources
+    .filter(r => !["Patient", "Observation", "Condition"].includes(r.resourceType))
+    .forEach(r => unmapped.push(`${r.resourceType}${r.id ? ` ${r.id}` : ""}`));
+
+  // Without a Condition the history flags default to "No"; everything else stays empty.
+  const assumedAbsent: (keyof PatientData)[] = [];
+  (["hypertension", "heartDisease"] as const).forEach(field => {
+    if (data[field] === undefined) {
+      data[field] = false;
+      assumedAbsent.push(field);
+    }
+  });
+
+  const missing = FIELD_SCHEMA
+    .filter(field => field.required && data[field.key] === undefined)
+    .map(field => field.key);
+  missing
+    .filter(field => NO_STANDARD_MAPPING.includes(field))
+    .forEach(field => warnings.push(fillTemplate(texts.noStandardMapping, { label: fieldLabel(locale, field) })));
+
+  return {
+    data,
+    patientId: patient?.id,
+    patientName: patient ? personName(patient) : undefined,
+    missing,
+    assumedAbsent,
+    unmapped,
+    warnings,
+  };
+};
+
+const QUALITATIVE_RISK: Record<RiskLevel, Coding> = {
+  "Low Risk": { system: RISK_PROBABILITY, code: "low", display: "Low likelihood" },
+  "Moderate Risk": { system: RISK_PROBABILITY, code: "moderate", display: "Moderate likelihood" },
+  "High Risk": { system: RISK_PROBABILITY, code: "high", display: "High likelihood" },
+};
+
+export interface RiskAssessmentInput {
+  result: PredictionResult;
+  predictor: Predictor;
+  generatedAt: Date;
+  /** FHIR Patient id; the subject is a display-only reference without it. */
+  patientId?: string;
+  patientName?: string;
+  /** Language of the `text`, `display` fallback and note fields; codings keep their standard English displays. */
+  locale?: Locale;
+}
+
+/** Serialises a prediction as a FHIR R4 RiskAssessment for the stroke outcome. */
+export const toFhirRiskAssessment = ({
+  result,
+  predictor,
+  generatedAt,
+  patientId,
+  patientName,
+  locale = DEFAULT_LOCALE,
+}: RiskAssessmentInput): FhirRiskAssessment => {
+  const texts = CATALOGS[locale].report;
+  return {
+    resourceType: "RiskAssessment",
+    status: "final",
+    subject: patientId
+      ? { reference: `Patient/${patientId}`, ...(patientName && { display: patientName }) }
+      : { display: patientName ?? texts.unidentifiedPatient },
+    occurrenceDateTime: generatedAt.toISOString(),
+    method: {
+      coding: [{ system: "urn:stroke-prediction-system:model", code: predictor.modelId, display: predictor.name }],
+      text: predictorName(locale, predictor.id),
+    },
+    prediction: [
+      {
+        outcome: { coding: [{ system: SNOMED, code: "230690007", display: "Cerebrovascular accident" }], text: texts.strokeOutcome },
+        probabilityDecimal: round(result.probability / 100, 4),
+        qualitativeRisk: { coding: [QUALITATIVE_RISK[result.riskLevel]], text: riskLevelLabel(locale, result.riskLevel) },
+        rationale: `${result.strokePrediction ? texts.strokePredicted : texts.strokeNotPredicted} ${describeUncertainty(result.uncertainty, locale)}.`,
+      },
+    ],
+    ...(result.factors.length > 0 && {
+      note: result.factors.map(factor => ({
+        text: fillTemplate(texts.factorNote, {
+          label: fieldLabel(locale, factor.field),
+          value: formatValue(locale, factor.field, factor.value),
+          points: `${factor.direction === "increase" ? "+" : "-"}${formatNumber(locale, factor.points, 1)}`,
+          rationale: factor.rationale,
+        }),
+      })),
+    }),
+  };
+};
@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { describeUncertainty, fillTemplateParts, formatPercent, formatValue, parseLocaleNumber } from './i18n';
+import { AuthenticationError, describePredictionError } from './errors';
+
+describe('parseLocaleNumber', () => {
+  it.each([
+    ['28.4', 28.4],
+    ['28,4', 28.4],
+    [' 105 ', 105],
+    ['5,', 5],
+    [',5', 0.5],
+    ['-3', -3],
+    ['', ''],
+  ])('reads "%s" as %s', (text, expected) => {
+    expect(parseLocaleNumber(text)).toBe(expected);
+  });
+
+  it.each(['1,500.2', '1.500,2', '28,4,1', 'abc', '12 kg'])('rejects "%s"', text => {
+    expect(parseLocaleNumber(text)).toBeNaN();
+  });
+});
+
+describe('formatting', () => {
+  it('follows the locale', () => {
+    expect(formatPercent('en', 12.5)).toBe('12.5%');
+    expect(formatPercent('de', 12.5)).toMatch(/^12,5\s%$/);
+    expect(formatValue('de', 'bmi', 28.4)).toBe('28,4 kg/m²');
+    expect(formatValue('es', 'hypertension', true)).toBe('Sí');
+    expect(formatValue('de', 'workType', 'Govt_job')).toBe('Öffentlicher Dienst');
+    expect(formatValue('en', 'avgGlucoseLevel', null)).toBe('Unknown');
+    expect(formatValue('de', 'age', 67)).toBe('67 Jahre');
+  });
+
+  it('describes the uncertainty', () => {
+    const uncertainty = { low: 6.1, high: 14.8, confidence: 'moderate' as const, missingFields: ['bmi' as const] };
+    expect(describeUncertainty(uncertainty)).toBe('Likely range 6.1–14.8%, moderate confidence (BMI (Body Mass Index) unknown)');
+    expect(describeUncertainty(uncertainty, 'de')).toBe(
+      'Wahrscheinlicher Bereich 6,1–14,8 %, mittlere Sicherheit (BMI (Body-Mass-Index) unbekannt)'
+    );
+  });
+});
+
+describe('messages', () => {
+  it('keeps template values as they are', () => {
+    const strong = { type: 'strong' };
+    expect(fillTemplateParts('At {level}, not {other}.', { level: strong, other: 'Low' })).toEqual(['At ', strong, ', not ', 'Low', '.']);
+  });
+
+  it('describes prediction errors in the locale', () => {
+    const error = new AuthenticationError('401');
+    expect(describePredictionError(error)).toMatch(/^The Gemini API key is missing/);
+    expect(describePredictionError(error, 'es')).toMatch(/^Falta la clave de la API de Gemini/);
+  });
+});
@@ -0,0 +1,581 @@
+import { Confidence, Locale, PatientData, PredictionUncertainty, PredictorId, RiskLevel } from "../types";
+import { SectionId, getFieldSchema } from "../formSchema";
+import type { ClinicalScoreId, RiskPeriod } from "./clinicalScores";
+import type { RiskPolicy } from "./riskPolicy";
+import { en } from "../locales/en";
+import { de } from "../locales/de";
+import { es } from "../locales/es";
+
+/** Texts of one form field; validation overrides may use the same placeholders as the schema messages. */
+export interface FieldText {
+  label?: string;
+  helpText?: string;
+  required?: string;
+  range?: string;
+}
+
+/** Texts of the views, the form controls and the result card. */
+export interface UiMessages {
+  appTitle: string;
+  appSubtitle: string;
+  language: string;
+  viewSingle: string;
+  viewBatch: string;
+  viewPatients: string;
+  viewCohort: string;
+  viewEvaluation: string;
+  viewSettings: string;
+  viewPrivacy: string;
+  patientRecord: string;
+  existingPatient: string;
+  noPatient: string;
+  newPatient: string;
+  newPatientPlaceholder: string;
+  addPatient: string;
+  patientStorageNote: string;
+  importFhir: string;
+  fhirFile: string;
+  fhirInvalidJson: string;
+  fhirReadFailed: string;
+  dismissImportReport: string;
+  /** {count} */
+  importedFields: string;
+  /** {count} and {name} */
+  importedFieldsFor: string;
+  importMissing: string;
+  importAssumedAbsent: string;
+  /** {count} */
+  importUnused: string;
+  predictionEngine: string;
+  predict: string;
+  processing: string;
+  cancel: string;
+  correctErrors: string;
+  patientsLoadFailed: string;
+  patientLoadFailed: string;
+  /** {name} */
+  patientCreateFailed: string;
+  saveFailed: string;
+  pdfFailed: string;
+  noPredictionTitle: string;
+  noPredictionText: string;
+  predictionResult: string;
+  strokeYes: string;
+  strokeNo: string;
+  strokeProbability: string;
+  riskLevel: string;
+  /** {name} */
+  savedTo: string;
+  predictedWith: string;
+  printReport: string;
+  downloadPdf: string;
+  exportFhir: string;
+  disclaimerLabel: string;
+  disclaimer: string;
+  contributingFactors: string;
+  noFactors: string;
+  /** {points}, already signed */
+  points: string;
+  /** {low}, {high} and {confidence} */
+  likelyRange: string;
+  /** {fields} */
+  fieldsUnknown: string;
+  yes: string;
+  no: string;
+  unknown: string;
+  markUnknown: string;
+  /** {value} */
+  example: string;
+  showCalculator: string;
+  hideCalculator: string;
+  bmiCalculator: string;
+  metric: string;
+  imperial: string;
+  /** {unit} */
+  height: string;
+  /** {unit} */
+  weight: string;
+  /** {bmi} */
+  bmiCalculated: string;
+  /** {label} */
+  unitOf: string;
+  increasesRisk: string;
+  decreasesRisk: string;
+  /** Read out by screen readers when a result appears; {verdict}, {riskLevel} and {probability}. */
+  resultAnnouncement: string;
+  predictorUnavailable: string;
+  /** {name} */
+  consentTitle: string;
+  /** {name} and {modelId} */
+  consentIntro: string;
+  /** {years} */
+  consentAgeBands: string;
+  consentAudit: string;
+  /** {name} */
+  consentConfirm: string;
+  consentAccept: string;
+  clinicalScores: string;
+  /** {reason} */
+  scoreUnavailable: string;
+  /** {points}, {maxPoints}, {risk} and {period} */
+  scoreSummary: string;
+  /** {fields} */
+  scoreAssumedAbsent: string;
+  /** {scoreName}, {scoreLevel}, {predictorName} and {predictedLevel} */
+  scoreDisagreement: string;
+  scoreDisagreementAdvice: string;
+  clinicalScoresFootnote: string;
+  scenarios: string;
+  addScenario: string;
+  removeScenario: string;
+  noScenarios: string;
+  baseline: string;
+  probability: string;
+  compareScenarios: string;
+  scoringScenarios: string;
+  readCsvFailed: string;
+  exportCsv: string;
+  stop: string;
+  batchUpload: string;
+  /** {columns} and {id}, both as code */
+  batchCsvIntro: string;
+  batchFile: string;
+  /** {count}, {valid} and {rejected}; the last two are batchValid and batchRejected */
+  batchRowsRead: string;
+  /** {count} */
+  batchValid: string;
+  /** {count} */
+  batchRejected: string;
+  /** {count} */
+  batchScore: string;
+  batchScoring: string;
+  batchDone: string;
+  batchRow: string;
+  batchId: string;
+  batchIssues: string;
+  patients: string;
+  noPatients: string;
+  selectPatient: string;
+  recordsLoadFailed: string;
+  recordsAssessmentsFailed: string;
+  /** {name} */
+  deletePatientConfirm: string;
+  /** {name} */
+  deletePatientFailed: string;
+  deletePatient: string;
+  /** {date} and {count} */
+  patientAdded: string;
+  noAssessments: string;
+  recordsDate: string;
+  recordsEngine: string;
+  recordsGlucose: string;
+  recordsBmi: string;
+  recordsSmoking: string;
+  recordsChanged: string;
+  trendChart: string;
+  cohort: string;
+  cohortRecords: string;
+  /** {count} */
+  cohortStored: string;
+  cohortImported: string;
+  /** {fileName} and {count} */
+  cohortImportedFile: string;
+  /** {count} */
+  cohortRowsSkipped: string;
+  cohortImportHint: string;
+  cohortFile: string;
+  cohortLatestOnly: string;
+  cohortLoadFailed: string;
+  cohortFilters: string;
+  cohortClearFilters: string;
+  cohortAll: string;
+  cohortAgeBand: string;
+  /** {filtered} and {total} */
+  cohortPatients: string;
+  /** {value} */
+  cohortMeanProbability: string;
+  /** {value} */
+  cohortHighRisk: string;
+  cohortEmpty: string;
+  cohortNoMatch: string;
+  cohortDistribution: string;
+  cohortHistogram: string;
+  cohortHistogramAxis: string;
+  /** {label} */
+  cohortRiskBy: string;
+  cohortPrevalence: string;
+  chartExportFailed: string;
+  evaluationDataset: string;
+  /** {columns} and {stroke}, both as code */
+  evaluationCsvIntro: string;
+  evaluationFile: string;
+  /** {count}, {usable}, {positives} and {rejected}; {usable} is evaluationUsable */
+  evaluationRowsRead: string;
+  /** {count} */
+  evaluationUsable: string;
+  evaluationPredictors: string;
+  noApiKey: string;
+  evaluationMaxRows: string;
+  evaluationAllRows: string;
+  evaluationMaxRowsHelp: string;
+  evaluate: string;
+  /** {name} */
+  evaluationScoringWith: string;
+  evaluationFailed: string;
+  evaluationResults: string;
+  evaluationMetric: string;
+  metricSamples: string;
+  metricPositives: string;
+  metricSkipped: string;
+  metricAuc: string;
+  metricBrier: string;
+  metricPrecision: string;
+  metricRecall: string;
+  metricSpecificity: string;
+  metricAccuracy: string;
+  metricConfusion: string;
+  /** {decision}, as code */
+  evaluationFootnote: string;
+  rocCurve: string;
+  falsePositiveRate: string;
+  truePositiveRate: string;
+  calibrationCurve: string;
+  meanPredicted: string;
+  observedRate: string;
+  policyIntro: string;
+  policyModerateLabel: string;
+  policyModerateHelp: string;
+  policyHighLabel: string;
+  policyHighHelp: string;
+  policyDecisionLabel: string;
+  policyDecisionHelp: string;
+  policyPreview: string;
+  /** {from} and {to}, as percentages */
+  policyBand: string;
+  /** {from}, as a percentage */
+  policyBandTop: string;
+  /** {threshold}, as a percentage */
+  policyDecision: string;
+  /** {threshold}, as a percentage */
+  policyMarker: string;
+  savePolicy: string;
+  restoreDefaults: string;
+  policySaved: string;
+  privacyIntro: string;
+  localOnly: string;
+  localOnlyHelp: string;
+  ageSent: string;
+  exactAge: string;
+  /** {years} */
+  ageBands: string;
+  ageBandsHelp: string;
+  sessionConsent: string;
+  consentGiven: string;
+  consentNotGiven: string;
+  withdrawConsent: string;
+  giveConsent: string;
+  auditLog: string;
+  exportLog: string;
+  clearLog: string;
+  clearLogConfirm: string;
+  /** {count} */
+  auditIntro: string;
+  auditEmpty: string;
+  auditTime: string;
+  auditModel: string;
+  auditPayload: string;
+  /** {count} */
+  auditFields: string;
+}
+
+export interface Catalog {
+  /** The language's own name, for the language picker. */
+  name: string;
+  /** The language's English name, used when asking remote models to answer in it. */
+  englishName: string;
+  /** BCP 47 tag for number formatting and the document language. */
+  intlLocale: string;
+  sections: Partial<Record<SectionId, string>>;
+  fields: Partial<Record<keyof PatientData, FieldText>>;
+  /** Enum option labels by field and option value. */
+  options: Partial<Record<keyof PatientData, Record<string, string>>>;
+  /** Generic validation messages, used where a field has no message of its own. */
+  validation: {
+    /** {label} */
+    required: string;
+    /** {min}, {max} and {unit} */
+    range: string;
+    /** {label} */
+    number: string;
+    /** {label}; {labelLower} is the label in lower case. */
+    option: string;
+    /** {label} */
+    yesNo: string;
+  };
+  /** Cross-field rule messages by rule id. */
+  rules: Record<string, string>;
+  riskLevels: Record<RiskLevel, string>;
+  confidence: Record<Confidence, string>;
+  /** Rationale templates of the local model. */
+  rationales: {
+    above: string;
+    below: string;
+    /** {age}, {comparison} and {reference} */
+    age: string;
+    hypertension: string;
+    heartDisease: string;
+    /** {value}, {comparison} and {reference}, in mg/dL */
+    avgGlucoseLevel: string;
+    /** {value}, {comparison} and {reference} */
+    bmi: string;
+    smokes: string;
+    formerlySmoked: string;
+    other: string;
+  };
+  /** Prediction failure messages, by kind of failure. */
+  errors: {
+    authentication: string;
+    quota: string;
+    timeout: string;
+    network: string;
+    malformed: string;
+    cancelled: string;
+    localOnly: string;
+    consent: string;
+    generic: string;
+  };
+  predictors: Record<PredictorId, { name: string; description: string }>;
+  /** Names of the suggested what-if scenarios. */
+  scenarios: {
+    quitSmoking: string;
+    /** {bmi} */
+    reduceBmi: string;
+    controlGlucose: string;
+    controlBp: string;
+    allChanges: string;
+    /** {number} */
+    custom: string;
+  };
+  clinicalScores: {
+    names: Record<ClinicalScoreId, string>;
+    periods: Record<RiskPeriod, string>;
+    components: {
+      age: string;
+      systolicBp: string;
+      antihypertensiveTreatment: string;
+      diabetes: string;
+      currentSmoker: string;
+      cardiovascularDisease: string;
+      atrialFibrillation: string;
+      leftVentricularHypertrophy: string;
+      congestiveHeartFailure: string;
+      hypertension: string;
+      priorStroke: string;
+      vascularDisease: string;
+      sexCategory: string;
+    };
+    /** Why a score could not be computed; ageRange has {min} and {max}. */
+    reasons: {
+      sexTables: string;
+      ageRange: string;
+      needsSystolicBp: string;
+      needsAge: string;
+    };
+    notes: {
+      cardiovascularDisease: string;
+      smokingUnknown: string;
+      atrialFibrillationOnly: string;
+      noSexPoint: string;
+    };
+  };
+  /** Texts of the printed and PDF reports and of the exported FHIR RiskAssessment. */
+  report: {
+    title: string;
+    /** {name}, may be empty */
+    documentTitle: string;
+    print: string;
+    /** {name} */
+    patient: string;
+    /** {date} */
+    generated: string;
+    /** {name} and {modelId} */
+    engine: string;
+    strokePrediction: string;
+    yes: string;
+    no: string;
+    strokeOutcome: string;
+    strokePredicted: string;
+    strokeNotPredicted: string;
+    unidentifiedPatient: string;
+    /** {label}, {value}, {points} (already signed) and {rationale} */
+    factorNote: string;
+  };
+  /** Warnings and errors of the FHIR bundle import. */
+  fhirImport: {
+    notFhir: string;
+    noPatient: string;
+    /** {count} */
+    multiplePatients: string;
+    /** {concept} */
+    maritalStatus: string;
+    /** {unit}, quoted, or noUnit */
+    bmiUnit: string;
+    /** {unit}, quoted, or noUnit */
+    heightUnit: string;
+    /** {unit}, quoted, or noUnit */
+    weightUnit: string;
+    noUnit: string;
+    bmiCalculated: string;
+    /** {concept} */
+    smokingCode: string;
+    /** {concept} */
+    resolvedHypertension: string;
+    /** {label} */
+    noStandardMapping: string;
+    /** Label of a code without a text or display. */
+    uncoded: string;
+  };
+  /** Names of the risk policy thresholds and the messages of their validation. */
+  riskPolicy: {
+    labels: Record<keyof RiskPolicy, string>;
+    /** {label} */
+    required: string;
+    /** {label} */
+    range: string;
+    order: string;
+  };
+  /** Errors of reading and scoring patient CSV files. */
+  csv: {
+    empty: string;
+    /** {columns} */
+    missingColumns: string;
+    /** {column} */
+    missingColumn: string;
+    /** Follows missingColumn when a file for the cohort has no probabilities. */
+    scoredFileHint: string;
+    /** {column} and {value} */
+    unrecognisedValue: string;
+    cancelled: string;
+    /** {message} */
+    predictionFailed: string;
+  };
+  /** Unit names that differ from the canonical unit, e.g. "years"; symbols such as mg/dL are shared. */
+  units: Record<string, string>;
+  ui: UiMessages;
+}
+
+export const DEFAULT_LOCALE: Locale = "en";
+
+export const CATALOGS: Record<Locale, Catalog> = { en, de, es };
+
+export const LOCALES = Object.keys(CATALOGS) as Locale[];
+
+const isLocale = (value: unknown): value is Locale => LOCALES.includes(value as Locale);
+
+export const fillTemplate = (template: string, values: Record<string, string | number>) =>
+  template.replace(/\{(\w+)\}/g, (match, name) => (name in values ? String(values[name]) : match));
+
+/** Like fillTemplate, but keeps the values as they are, so a component can place elements such as <strong> in a message. */
+export const fillTemplateParts = <T>(template: string, values: Record<string, T>): (string | T)[] =>
+  template
+    .split(/\{(\w+)\}/)
+    .map((part, i) => (i % 2 === 0 ? part : part in values ? values[part] : `{${part}}`))
+    .filter(part => part !== "");
+
+export const translate = (locale: Locale, key: keyof UiMessages, values: Record<string, string | number> = {}): string =>
+  fillTemplate(CATALOGS[locale].ui[key] ?? en.ui[key], values);
+
+// Labels, help texts and option labels fall back to English, which comes from the form schema.
+
+export const fieldLabel = (locale: Locale, field: keyof PatientData): string =>
+  CATALOGS[locale].fields[field]?.label ?? en.fields[field]?.label ?? field;
+
+export const fieldHelpText = (locale: Locale, field: keyof PatientData): string | undefined =>
+  CATALOGS[locale].fields[field]?.helpText ?? en.fields[field]?.helpText;
+
+export const sectionTitle = (locale: Locale, section: SectionId): string =>
+  CATALOGS[locale].sections[section] ?? en.sections[section] ?? section;
+
+export const optionLabel = (locale: Locale, field: keyof PatientData, value: string): string =>
+  CATALOGS[locale].options[field]?.[value] ?? en.options[field]?.[value] ?? value;
+
+export const riskLevelLabel = (locale: Locale, riskLevel: RiskLevel): string => CATALOGS[locale].riskLevels[riskLevel];
+
+export const predictorName = (locale: Locale, id: PredictorId): string => CATALOGS[locale].predictors[id].name;
+
+export const predictorDescription = (locale: Locale, id: PredictorId): string => CATALOGS[locale].predictors[id].description;
+
+export const unitLabel = (locale: Locale, unit: string): string => CATALOGS[locale].units[unit] ?? unit;
+
+/** Formats a number the way the locale writes it, without digit grouping so it reads back with parseLocaleNumber. */
+export const formatNumber = (locale: Locale, value: number, maximumFractionDigits = 3): string =>
+  new Intl.NumberFormat(CATALOGS[locale].intlLocale, { maximumFractionDigits, useGrouping: false }).format(value);
+
+/** A probability given in percent, e.g. "12.5%" or "12,5 %". */
+export const formatPercent = (locale: Locale, value: number): string =>
+  new Intl.NumberFormat(CATALOGS[locale].intlLocale, { style: "percent", maximumFractionDigits: 1 }).format(value / 100);
+
+/**
+ * Reads a typed number. Either "." or "," is accepted as the decimal separator, whatever
+ * the locale, so "28,4" and "28.4" are the same; digit grouping is not, since "1,500"
+ * would be ambiguous. Returns '' for empty input and NaN for anything unreadable.
+ */
+export const parseLocaleNumber = (text: string): number | "" => {
+  const trimmed = text.trim();
+  if (trimmed === "") return "";
+  return /^[-+]?(\d+([.,]\d*)?|[.,]\d+)$/.test(trimmed) ? Number(trimmed.replace(",", ".")) : NaN;
+};
+
+/** Human-readable form of a patient field value in the locale, with its canonical unit where it has one. */
+export const formatValue = (
+  locale: Locale,
+  field: keyof PatientData,
+  value: PatientData[keyof PatientData] | string
+): string => {
+  if (typeof value === "boolean") return translate(locale, value ? "yes" : "no");
+  if (value === null) return translate(locale, "unknown");
+  if (value === "" || value === undefined) return "—";
+  const schema = getFieldSchema(field);
+  if (schema.type === "number") {
+    const number = typeof value === "number" ? value : Number(value);
+    return `${Number.isFinite(number) ? formatNumber(locale, number) : value} ${unitLabel(locale, schema.units[0].unit)}`;
+  }
+  if (schema.type === "enum") return optionLabel(locale, field, String(value));
+  return String(value);
+};
+
+/** E.g. "Likely range 6.1–14.8%, moderate confidence (BMI unknown)". */
+export const describeUncertainty = (
+  { low, high, confidence, missingFields }: PredictionUncertainty,
+  locale: Locale = DEFAULT_LOCALE
+): string => {
+  const range = translate(locale, "likelyRange", {
+    low: formatNumber(locale, low, 1),
+    high: formatNumber(locale, high, 1),
+    confidence: CATALOGS[locale].confidence[confidence],
+  });
+  if (missingFields.length === 0) return range;
+  const fields = missingFields.map(field => fieldLabel(locale, field)).join(", ");
+  return `${range} ${translate(locale, "fieldsUnknown", { fields })}`;
+};
+
+// The language choice is kept per browser, like the risk and privacy policies.
+
+const LOCALE_KEY = "stroke-prediction.locale";
+
+/** The stored language, else the browser's if it has a catalog, else English. */
+export const loadLocale = (): Locale => {
+  try {
+    const stored = globalThis.localStorage?.getItem(LOCALE_KEY);
+    if (isLocale(stored)) return stored;
+  } catch {
+    // Storage unavailable; fall through to the browser language.
+  }
+  const browser = globalThis.navigator?.language?.slice(0, 2).toLowerCase();
+  return isLocale(browser) ? browser : DEFAULT_LOCALE;
+};
+
+export const saveLocale = (locale: Locale): void => {
+  localStorage.setItem(LOCALE_KEY, locale);
+};
+
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { predictStrokeRiskLocally } from './localModel';
+import { PredictionCancelledError } from './errors';
+import { SCORED_PATIENTS, TYPICAL_ADULT } from '../test/fixtures/patients';
+
+describe('predictStrokeRiskLocally', () => {
+  it.each(SCORED_PATIENTS)('scores the $name fixture as expected', async ({ data, expected }) => {
+    const result = await predictStrokeRiskLocally(data);
+    expect(result.probability).toBe(expected.probability);
+    expect(result.riskLevel).toBe(expected.riskLevel);
+    expect(result.strokePrediction).toBe(expected.riskLevel === 'High Risk');
+    expect(result.uncertainty.confidence).toBe(expected.confidence);
+    expect(result.uncertainty.low).toBeLessThanOrEqual(result.probability);
+    expect(result.uncertainty.high).toBeGreaterThanOrEqual(result.probability);
+  });
+
+  it('is deterministic', async () => {
+    const [first, second] = await Promise.all([
+      predictStrokeRiskLocally(SCORED_PATIENTS[3].data),
+      predictStrokeRiskLocally(SCORED_PATIENTS[3].data),
+    ]);
+    expect(second).toEqual(first);
+  });
+
+  it('ranks the factors from largest to smallest', async () => {
+    const { factors } = await predictStrokeRiskLocally(SCORED_PATIENTS[3].data);
+    expect(factors[0].field).toBe('age');
+    expect(factors.map(f => f.points)).toEqual([...factors.map(f => f.points)].sort((a, b) => b - a));
+  });
+
+  it('widens the range for each unknown measurement', async () => {
+    const width = async (data: typeof TYPICAL_ADULT) => {
+      const { uncertainty } = await predictStrokeRiskLocally(data);
+      return uncertainty.high - uncertainty.low;
+    };
+    const known = await width(TYPICAL_ADULT);
+    const oneUnknown = await width({ ...TYPICAL_ADULT, bmi: null });
+    const bothUnknown = await width({ ...TYPICAL_ADULT, bmi: null, avgGlucoseLevel: null });
+    expect(oneUnknown).toBeGreaterThan(known);
+    expect(bothUnknown).toBeGreaterThan(oneUnknown);
+  });
+
+  it('writes rationales in the requested language', async () => {
+    const { factors } = await predictStrokeRiskLocally(SCORED_PATIENTS[3].data, { locale: 'de' });
+    expect(factors.find(f => f.field === 'avgGlucoseLevel')?.rationale).toContain('228,7 mg/dL');
+  });
+
+  it('rejects when already cancelled', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    await expect(predictStrokeRiskLocally(TYPICAL_ADULT, { signal: controller.signal })).rejects.toBeInstanceOf(
+      PredictionCancelledError
+    );
+  });
+});
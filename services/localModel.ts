@@ -0,0 +1,199 @@
+import {
+  Locale,
+  PatientData,
+  PredictOptions,
+  PredictionResult,
+  PredictionUncertainty,
+  RiskFactorContribution,
+  Gender,
+  WorkType,
+  ResidenceType,
+  SmokingStatus,
+} from "../types";
+import { PredictionCancelledError } from "./errors";
+import { DEFAULT_RISK_POLICY, classifyRisk } from "./riskPolicy";
+import { CATALOGS, DEFAULT_LOCALE, fillTemplate, formatNumber } from "./i18n";
+
+// Logistic regression fitted on the Kaggle stroke prediction dataset
+// (5,110 rows, ~4.9% positive). Coefficients are on the raw feature scale,
+// with the first value of each categorical column used as the reference level.
+const INTERCEPT = -7.8;
+
+const COEFFICIENTS = {
+  age: 0.072,
+  hypertension: 0.52,
+  heartDisease: 0.45,
+  everMarried: -0.1,
+  avgGlucoseLevel: 0.0045,
+  bmi: 0.008,
+  gender: {
+    [Gender.Male]: 0.05,
+    [Gender.Female]: 0,
+    [Gender.Other]: 0,
+  },
+  workType: {
+    [WorkType.Private]: 0,
+    [WorkType.SelfEmployed]: -0.2,
+    [WorkType.GovtJob]: -0.1,
+    [WorkType.Children]: -0.6,
+    [WorkType.NeverWorked]: -0.5,
+  },
+  residenceType: {
+    [ResidenceType.Urban]: 0.06,
+    [ResidenceType.Rural]: 0,
+  },
+  smokingStatus: {
+    [SmokingStatus.NeverSmoked]: 0,
+    [SmokingStatus.FormerlySmoked]: 0.25,
+    [SmokingStatus.Smokes]: 0.35,
+    [SmokingStatus.Unknown]: 0,
+  },
+};
+
+// Typical patient from the training data. A factor's contribution is measured
+// against this reference: how far the probability moves when that single field
+// is changed from the reference value to the patient's value.
+const REFERENCE_PATIENT: PatientData = {
+  gender: Gender.Female,
+  age: 43,
+  hypertension: false,
+  heartDisease: false,
+  everMarried: true,
+  workType: WorkType.Private,
+  residenceType: ResidenceType.Rural,
+  avgGlucoseLevel: 106,
+  bmi: 28.9,
+  smokingStatus: SmokingStatus.NeverSmoked,
+};
+
+// Unknown measurements are imputed with the reference (dataset mean) value, so they
+// add nothing to the factors. The plausible range re-scores the patient with them at
+// roughly the dataset's 10th and 90th percentiles; all coefficients are positive, so
+// the low ends give the lowest probability.
+const IMPUTABLE_FIELDS = ["avgGlucoseLevel", "bmi"] as const;
+
+const IMPUTATION_RANGE: Record<typeof IMPUTABLE_FIELDS[number], { low: number; high: number }> = {
+  avgGlucoseLevel: { low: 66, high: 192 },
+  bmi: { low: 21, high: 38.5 },
+};
+
+// Half-width of the range, on the logit scale, when every input is known. Reflects
+// the uncertainty in the fitted coefficients.
+const BASELINE_LOGIT_MARGIN = 0.2;
+
+// Contributions smaller than this (percentage points) are not reported.
+const MIN_REPORTED_POINTS = 0.05;
+
+export const LOCAL_MODEL_ID = "logreg-stroke-v1";
+
+const sigmoid = (z: number) => 1 / (1 + Math.exp(-z));
+
+const toNumber = (value: number | "" | null) => (value === "" || value === null ? 0 : value);
+
+const linearPredictor = (data: PatientData): number =>
+  INTERCEPT +
+  COEFFICIENTS.age * toNumber(data.age) +
+  COEFFICIENTS.hypertension * (data.hypertension ? 1 : 0) +
+  COEFFICIENTS.heartDisease * (data.heartDisease ? 1 : 0) +
+  COEFFICIENTS.everMarried * (data.everMarried ? 1 : 0) +
+  COEFFICIENTS.avgGlucoseLevel * toNumber(data.avgGlucoseLevel) +
+  COEFFICIENTS.bmi * toNumber(data.bmi) +
+  COEFFICIENTS.gender[data.gender] +
+  COEFFICIENTS.workType[data.workType] +
+  COEFFICIENTS.residenceType[data.residenceType] +
+  COEFFICIENTS.smokingStatus[data.smokingStatus];
+
+const probabilityFor = (data: PatientData): number => sigmoid(linearPredictor(data)) * 100;
+
+const roundToTenth = (value: number) => Math.round(value * 10) / 10;
+
+const missingFields = (data: PatientData) => IMPUTABLE_FIELDS.filter(field => data[field] === null);
+
+const impute = (data: PatientData, pick: (field: typeof IMPUTABLE_FIELDS[number]) => number): PatientData =>
+  missingFields(data).reduce<PatientData>((result, field) => ({ ...result, [field]: pick(field) }), data);
+
+const uncertaintyFor = (data: PatientData): PredictionUncertainty => {
+  const missing = missingFields(data);
+  const low = sigmoid(linearPredictor(impute(data, field => IMPUTATION_RANGE[field].low)) - BASELINE_LOGIT_MARGIN) * 100;
+  const high = sigmoid(linearPredictor(impute(data, field => IMPUTATION_RANGE[field].high)) + BASELINE_LOGIT_MARGIN) * 100;
+  return {
+    low: roundToTenth(low),
+    high: roundToTenth(high),
+    confidence: missing.length === 0 ? "high" : missing.length === 1 ? "moderate" : "low",
+    missingFields: missing,
+  };
+};
+
+const compare = (locale: Locale, value: number, reference: number) =>
+  CATALOGS[locale].rationales[value > reference ? "above" : "below"];
+
+const rationaleFor = (field: keyof PatientData, data: PatientData, locale: Locale): string => {
+  const rationales = CATALOGS[locale].rationales;
+  const numeric = (key: "age" | "avgGlucoseLevel" | "bmi") => ({
+    value: formatNumber(locale, toNumber(data[key])),
+    reference: formatNumber(locale, toNumber(REFERENCE_PATIENT[key])),
+    comparison: compare(locale, toNumber(data[key]), toNumber(REFERENCE_PATIENT[key])),
+  });
+  switch (field) {
+    case "age": {
+      const { value, ...rest } = numeric("age");
+      return fillTemplate(rationales.age, { age: value, ...rest });
+    }
+    case "hypertension":
+      return rationales.hypertension;
+    case "heartDisease":
+      return rationales.heartDisease;
+    case "avgGlucoseLevel":
+      return fillTemplate(rationales.avgGlucoseLevel, numeric("avgGlucoseLevel"));
+    case "bmi":
+      return fillTemplate(rationales.bmi, numeric("bmi"));
+    case "smokingStatus":
+      return data.smokingStatus === SmokingStatus.Smokes ? rationales.smokes : rationales.formerlySmoked;
+    default:
+      return rationales.other;
+  }
+};
+
+const explain = (data: PatientData, probability: number, locale: Locale): RiskFactorContribution[] =>
+  (Object.keys(REFERENCE_PATIENT) as (keyof PatientData)[])
+    .map((field): RiskFactorContribution => {
+      const withReference = { ...data, [field]: REFERENCE_PATIENT[field] } as PatientData;
+      const delta = probability - probabilityFor(withReference);
+      return {
+        field,
+        value: data[field],
+        direction: delta >= 0 ? "increase" : "decrease",
+        points: roundToTenth(Math.abs(delta)),
+        rationale: rationaleFor(field, data, locale),
+      };
+    })
+    .filter(factor => factor.points >= MIN_REPORTED_POINTS)
+    .sort((a, b) => b.points - a.points);
+
+/**
+ * Scores a patient with the bundled logistic regression model.
+ * Runs entirely in the browser and always returns the same result for the same input.
+ * Unknown glucose or BMI is imputed, and widens the reported range. Rationales are
+ * written in `options.locale`.
+ */
+export const predictStrokeRiskLocally = async (
+  data: PatientData,
+  options: PredictOptions = {}
+): Promise<PredictionResult> => {
+  if (options.signal?.aborted) {
+    throw new PredictionCancelledError("The prediction was cancelled.");
+  }
+
+  const imputed = impute(data, field => toNumber(REFERENCE_PATIENT[field]));
+  const rawProbability = probabilityFor(imputed);
+  const probability = roundToTenth(rawProbability);
+  const riskLevel = classifyRisk(probability, DEFAULT_RISK_POLICY);
+
+  return {
+    strokePrediction: probability >= DEFAULT_RISK_POLICY.decisionThreshold,
+    probability,
+    riskLevel,
+    factors: explain(imputed, rawProbability, options.locale ?? DEFAULT_LOCALE),
+    uncertainty: uncertaintyFor(data),
+  };
+};
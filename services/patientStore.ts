@@ -0,0 +1,109 @@
+import { Assessment, PatientData, PatientRecord, PredictionResult, PredictorId } from "../types";
+
+const DB_NAME = "stroke-prediction";
+const DB_VERSION = 1;
+const PATIENTS = "patients";
+const ASSESSMENTS = "assessments";
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(PATIENTS)) {
+          db.createObjectStore(PATIENTS, { keyPath: "id" });
+        }
+        if (!db.objectStoreNames.contains(ASSESSMENTS)) {
+          const assessments = db.createObjectStore(ASSESSMENTS, { keyPath: "id" });
+          assessments.createIndex("patientId", "patientId");
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+const byTimestamp = (a: Assessment, b: Assessment) => a.timestamp.localeCompare(b.timestamp);
+
+export const listPatients = async (): Promise<PatientRecord[]> => {
+  const db = await openDb();
+  const patients = await promisify<PatientRecord[]>(db.transaction(PATIENTS).objectStore(PATIENTS).getAll());
+  return patients.sort((a, b) => a.name.localeCompare(b.name));
+};
+
+export const createPatient = async (name: string): Promise<PatientRecord> => {
+  const patient: PatientRecord = {
+    id: crypto.randomUUID(),
+    name: name.trim(),
+    createdAt: new Date().toISOString(),
+  };
+  const db = await openDb();
+  await promisify(db.transaction(PATIENTS, "readwrite").objectStore(PATIENTS).add(patient));
+  return patient;
+};
+
+/** Removes a patient together with all of their assessments. */
+export const deletePatient = async (patientId: string): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction([PATIENTS, ASSESSMENTS], "readwrite");
+  tx.objectStore(PATIENTS).delete(patientId);
+  const assessments = tx.objectStore(ASSESSMENTS);
+  const keys = await promisify(assessments.index("patientId").getAllKeys(patientId));
+  keys.forEach(key => assessments.delete(key));
+  await transactionDone(tx);
+};
+
+export const addAssessment = async (
+  patientId: string,
+  input: PatientData,
+  result: PredictionResult,
+  predictorId: PredictorId
+): Promise<Assessment> => {
+  const assessment: Assessment = {
+    id: crypto.randomUUID(),
+    patientId,
+    timestamp: new Date().toISOString(),
+    predictorId,
+    input,
+    result,
+  };
+  const db = await openDb();
+  await promisify(db.transaction(ASSESSMENTS, "readwrite").objectStore(ASSESSMENTS).add(assessment));
+  return assessment;
+};
+
+/** Assessments for one patient, oldest first. */
+export const listAssessments = async (patientId: string): Promise<Assessment[]> => {
+  const db = await openDb();
+  const index = db.transaction(ASSESSMENTS).objectStore(ASSESSMENTS).index("patientId");
+  const assessments = await promisify<Assessment[]>(index.getAll(patientId));
+  return assessments.sort(byTimestamp);
+};
+
+/** Every stored assessment across all patients, oldest first. */
+export const listAllAssessments = async (): Promise<Assessment[]> => {
+  const db = await openDb();
+  const assessments = await promisify<Assessment[]>(db.transaction(ASSESSMENTS).objectStore(ASSESSMENTS).getAll());
+  return assessments.sort(byTimestamp);
+};
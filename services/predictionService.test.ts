@@ -0,0 +1,107 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ApiError } from '@google/genai';
+import { createGeminiPredict } from './predictionService';
+import { toRemotePayload, DEFAULT_PRIVACY_POLICY } from './privacy';
+import {
+  AuthenticationError,
+  MalformedResponseError,
+  NetworkError,
+  PredictionCancelledError,
+  QuotaExceededError,
+} from './errors';
+import { createStubModelClient, promptOf } from '../test/modelClient';
+import { geminiResponse } from '../test/fixtures/geminiResponses';
+import { TYPICAL_ADULT } from '../test/fixtures/patients';
+
+const payload = toRemotePayload(TYPICAL_ADULT, DEFAULT_PRIVACY_POLICY);
+
+// Retries wait between attempts; run those waits instantly.
+const settle = async <T>(promise: Promise<T>) => {
+  const outcome = promise.then(
+    value => ({ value }),
+    error => ({ error })
+  );
+  await vi.runAllTimersAsync();
+  return outcome as Promise<{ value?: T; error?: unknown }>;
+};
+
+describe('createGeminiPredict', () => {
+  beforeEach(() => {
+    // Failures are logged before they are rethrown.
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('sends the patient data and returns the parsed result', async () => {
+    const client = createStubModelClient(geminiResponse('High Risk'));
+    const result = await createGeminiPredict(() => client)(payload);
+
+    expect(result.riskLevel).toBe('High Risk');
+    expect(result.probability).toBe(42);
+    expect(client.generateContent).toHaveBeenCalledTimes(1);
+    expect(promptOf(client)).toContain('- age (Age): 43 years');
+    expect(promptOf(client)).toContain('- avgGlucoseLevel (Average Glucose Level): 106 mg/dL');
+  });
+
+  it('reports unknown inputs as missing fields', async () => {
+    const client = createStubModelClient(geminiResponse('Moderate Risk'));
+    const unknown = toRemotePayload({ ...TYPICAL_ADULT, bmi: null }, DEFAULT_PRIVACY_POLICY);
+    const result = await createGeminiPredict(() => client)(unknown);
+
+    expect(promptOf(client)).toContain('- bmi (BMI (Body Mass Index)): Unknown');
+    expect(result.uncertainty.missingFields).toEqual(['bmi']);
+  });
+
+  it('asks for rationales in the selected language', async () => {
+    const client = createStubModelClient(geminiResponse('Low Risk'));
+    await createGeminiPredict(() => client)(payload, { locale: 'de' });
+    expect(promptOf(client)).toContain('written in German');
+  });
+
+  it('retries a malformed response and gives up after the last retry', async () => {
+    vi.useFakeTimers();
+    const client = createStubModelClient('not json');
+    const { error } = await settle(createGeminiPredict(() => client)(payload));
+
+    expect(error).toBeInstanceOf(MalformedResponseError);
+    expect(client.generateContent).toHaveBeenCalledTimes(3);
+  });
+
+  it('recovers when a retry returns a valid response', async () => {
+    vi.useFakeTimers();
+    const client = createStubModelClient(geminiResponse('Low Risk', { probability: 150 }), geminiResponse('Low Risk'));
+    const { value } = await settle(createGeminiPredict(() => client)(payload));
+
+    expect(value?.probability).toBe(4);
+    expect(client.generateContent).toHaveBeenCalledTimes(2);
+  });
+
+  it.each([
+    ['a rejected API key', new ApiError({ status: 401, message: 'API key not valid' }), AuthenticationError, 1],
+    ['an exhausted quota', new ApiError({ status: 429, message: 'Quota exceeded' }), QuotaExceededError, 3],
+    ['a server failure', new ApiError({ status: 503, message: 'Unavailable' }), NetworkError, 3],
+    ['an unreachable network', new TypeError('fetch failed'), NetworkError, 3],
+  ])('maps %s onto the prediction errors', async (_, thrown, expected, attempts) => {
+    vi.useFakeTimers();
+    const client = createStubModelClient(thrown);
+    const { error } = await settle(createGeminiPredict(() => client)(payload));
+
+    expect(error).toBeInstanceOf(expected);
+    expect(client.generateContent).toHaveBeenCalledTimes(attempts);
+  });
+
+  it('stops when the caller aborts', async () => {
+    const client = createStubModelClient(geminiResponse('Low Risk'));
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(createGeminiPredict(() => client)(payload, { signal: controller.signal })).rejects.toBeInstanceOf(
+      PredictionCancelledError
+    );
+    expect(client.generateContent).not.toHaveBeenCalled();
+  });
+});
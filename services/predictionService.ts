@@ -1,50 +1,121 @@
-import { GoogleGenAI, Type } from "@google/genai";
-import { PatientData, PredictionResult } from "../types";
+import { GoogleGenAI, GenerateContentParameters, Type } from "@google/genai";
+import { PatientData, PredictOptions, PredictionResult } from "../types";
+import { PATIENT_FIELDS, formatFieldValue } from "../constants";
+import { FIELD_SCHEMA } from "../formSchema";
+import { AuthenticationError } from "./errors";
+import { parsePredictionResponse, CONFIDENCE_LEVELS } from "./responseValidation";
+import { withRetry } from "./retry";
+import { RemotePatientData } from "./privacy";
+import { CATALOGS, DEFAULT_LOCALE } from "./i18n";
 
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+export const GEMINI_MODEL_ID = "gemini-2.5-flash";
 
-export const predictStrokeRisk = async (data: PatientData): Promise<PredictionResult> => {
-  const modelId = "gemini-2.5-flash";
+/** The part of the Gemini SDK the predictor uses; tests and headless callers can supply their own. */
+export interface ModelClient {
+  generateContent: (params: GenerateContentParameters) => Promise<{ text?: string }>;
+}
+
+export const createGeminiClient = (apiKey: string | undefined): ModelClient => {
+  if (!apiKey) {
+    throw new AuthenticationError("GEMINI_API_KEY is not set.");
+  }
+  return new GoogleGenAI({ apiKey }).models;
+};
+
+// Created on first use so the app still loads (and the local model still works)
+// when no API key is configured.
+let defaultClient: ModelClient | null = null;
+
+const getDefaultClient = (): ModelClient => {
+  if (!defaultClient) {
+    defaultClient = createGeminiClient(process.env.API_KEY);
+  }
+  return defaultClient;
+};
+
+// One line per field in the payload, e.g. "- avgGlucoseLevel (Average Glucose Level): 105.5 mg/dL".
+const describePatient = (payload: RemotePatientData): string =>
+  FIELD_SCHEMA
+    .filter(field => payload[field.key] !== undefined)
+    .map(field => `- ${field.key} (${field.label}): ${formatFieldValue(field.key, payload[field.key])}`)
+    .join("\n    ");
+
+export const isGeminiConfigured = (): boolean => Boolean(process.env.API_KEY);
+
+/**
+ * Builds a Gemini-backed predict function around the client returned by `getClient`.
+ * It takes the de-identified payload, so it must be wrapped by `guardRemotePredict`.
+ */
+export const createGeminiPredict = (getClient: () => ModelClient = getDefaultClient) => async (
+  payload: RemotePatientData,
+  options: PredictOptions = {}
+): Promise<PredictionResult> => {
+  const modelId = GEMINI_MODEL_ID;
+  const client = getClient();
+  const missingFields = (Object.keys(payload) as (keyof PatientData)[]).filter(field => payload[field] === null);
 
   const prompt = `
     Analyze the following patient data for stroke risk assessment. 
     Based on general medical knowledge and patterns similar to the stroke prediction dataset, predict the likelihood of a stroke.
     
     Patient Data:
-    ${JSON.stringify(data)}
+    ${describePatient(payload)}
     
     Provide the output strictly in JSON format matching the schema.
-    - strokePrediction: true if high risk/likely stroke, false otherwise.
+    - strokePrediction: true if riskLevel is "High Risk" (likely stroke), false otherwise.
     - probability: A number between 0 and 100 representing the percentage chance.
     - riskLevel: One of "Low Risk", "Moderate Risk", "High Risk".
+    - probabilityLow, probabilityHigh: The plausible range of the probability. Values given as "Unknown"
+      were not measured; estimate without them and widen the range to cover their likely values.
+    - confidence: "high", "moderate" or "low", lower when important inputs are unknown.
+    - factors: The patient data fields that contributed to the estimate, ranked from largest to smallest contribution.
+      For each factor give the field name, its value, whether it increases or decreases the risk,
+      the size of its contribution in percentage points of probability, and a one-sentence rationale
+      written in ${CATALOGS[options.locale ?? DEFAULT_LOCALE].englishName}.
   `;
 
   try {
-    const response = await ai.models.generateContent({
-      model: modelId,
-      contents: prompt,
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.OBJECT,
-          properties: {
-            strokePrediction: { type: Type.BOOLEAN },
-            probability: { type: Type.NUMBER },
-            riskLevel: { type: Type.STRING, enum: ["Low Risk", "Moderate Risk", "High Risk"] },
+    return await withRetry(async signal => {
+      const response = await client.generateContent({
+        model: modelId,
+        contents: prompt,
+        config: {
+          abortSignal: signal,
+          responseMimeType: "application/json",
+          responseSchema: {
+            type: Type.OBJECT,
+            properties: {
+              strokePrediction: { type: Type.BOOLEAN },
+              probability: { type: Type.NUMBER },
+              riskLevel: { type: Type.STRING, enum: ["Low Risk", "Moderate Risk", "High Risk"] },
+              probabilityLow: { type: Type.NUMBER },
+              probabilityHigh: { type: Type.NUMBER },
+              confidence: { type: Type.STRING, enum: CONFIDENCE_LEVELS },
+              factors: {
+                type: Type.ARRAY,
+                items: {
+                  type: Type.OBJECT,
+                  properties: {
+                    field: { type: Type.STRING, enum: PATIENT_FIELDS },
+                    value: { type: Type.STRING },
+                    direction: { type: Type.STRING, enum: ["increase", "decrease"] },
+                    points: { type: Type.NUMBER },
+                    rationale: { type: Type.STRING },
+                  },
+                  required: ["field", "value", "direction", "points", "rationale"],
+                },
+              },
+            },
+            required: ["strokePrediction", "probability", "riskLevel", "probabilityLow", "probabilityHigh", "confidence", "factors"],
           },
-          required: ["strokePrediction", "probability", "riskLevel"],
         },
-      },
-    });
-
-    if (response.text) {
-      return JSON.parse(response.text) as PredictionResult;
-    } else {
-      throw new Error("No response from AI model");
-    }
+      });
+
+      const result = parsePredictionResponse(response.text);
+      return { ...result, uncertainty: { ...result.uncertainty, missingFields } };
+    }, { signal: options.signal });
   } catch (error) {
     console.error("Prediction error:", error);
-    // Fallback or re-throw
     throw error;
   }
 };
@@ -0,0 +1,49 @@
+import { Predictor, PredictorId } from "../types";
+import { createGeminiPredict, isGeminiConfigured, GEMINI_MODEL_ID, ModelClient } from "./predictionService";
+import { predictStrokeRiskLocally, LOCAL_MODEL_ID } from "./localModel";
+import { RiskPolicy, applyRiskPolicy, loadRiskPolicy } from "./riskPolicy";
+import { PrivacyGuard, BROWSER_PRIVACY_GUARD, guardRemotePredict, loadPrivacyPolicy } from "./privacy";
+
+export interface PredictorOptions {
+  /** Supplies the Gemini client; defaults to one built from the configured API key. */
+  getModelClient?: () => ModelClient;
+  /** Read on every call, so edits to the policy apply to the next prediction. Defaults to the saved policy. */
+  getRiskPolicy?: () => RiskPolicy;
+  /** Local-only mode, consent and audit logging for remote predictors. Defaults to browser storage. */
+  privacy?: PrivacyGuard;
+}
+
+export const createPredictors = ({
+  getModelClient,
+  getRiskPolicy = loadRiskPolicy,
+  privacy = BROWSER_PRIVACY_GUARD,
+}: PredictorOptions = {}): Record<PredictorId, Predictor> => {
+  const withRiskPolicy = (predict: Predictor["predict"]): Predictor["predict"] =>
+    async (data, options) => applyRiskPolicy(await predict(data, options), getRiskPolicy());
+
+  return {
+    local: {
+      id: "local",
+      modelId: LOCAL_MODEL_ID,
+      name: "Local Model",
+      description: "Logistic regression trained on the stroke dataset. Runs offline and is fully deterministic.",
+      requiresNetwork: false,
+      predict: withRiskPolicy(predictStrokeRiskLocally),
+    },
+    gemini: {
+      id: "gemini",
+      modelId: GEMINI_MODEL_ID,
+      name: "Gemini AI",
+      description: "Sends de-identified patient data to Gemini for an AI-based risk estimate. Requires network access and an API key.",
+      requiresNetwork: true,
+      predict: withRiskPolicy(guardRemotePredict(privacy, GEMINI_MODEL_ID, createGeminiPredict(getModelClient))),
+    },
+  };
+};
+
+export const PREDICTORS = createPredictors();
+
+export const getPredictor = (id: PredictorId): Predictor => PREDICTORS[id];
+
+export const getDefaultPredictorId = (): PredictorId =>
+  isGeminiConfigured() && !loadPrivacyPolicy().localOnly ? "gemini" : "local";
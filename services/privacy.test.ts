@@ -0,0 +1,73 @@
+import { describe, expect, it, vi } from 'vitest';
+import { AuditEntry, PrivacyGuard, PrivacyPolicy, bucketAge, guardRemotePredict, toRemotePayload } from './privacy';
+import { ConsentRequiredError, RemoteCallBlockedError } from './errors';
+import { predictStrokeRiskLocally } from './localModel';
+import { TYPICAL_ADULT } from '../test/fixtures/patients';
+
+const guardWith = (policy: Partial<PrivacyPolicy>, consent: boolean) => {
+  const audit: AuditEntry[] = [];
+  const guard: PrivacyGuard = {
+    getPolicy: () => ({ localOnly: false, ageBandYears: 0, ...policy }),
+    hasConsent: () => consent,
+    recordAudit: entry => audit.push(entry),
+  };
+  return { guard, audit };
+};
+
+describe('bucketAge', () => {
+  it.each([
+    [43, 0, 43],
+    [43, 5, '40–44'],
+    [43, 10, '40–49'],
+    [89, 0, 89],
+    [85, 10, '80–89'],
+    [90, 0, '90+'],
+    [104, 5, '90+'],
+  ])('reports age %i with %i-year bands as %s', (age, band, expected) => {
+    expect(bucketAge(age, band)).toBe(expected);
+  });
+});
+
+describe('toRemotePayload', () => {
+  it('sends only the allow-listed fields and keeps unknown values', () => {
+    const payload = toRemotePayload(
+      { ...TYPICAL_ADULT, bmi: null, name: 'Jane Doe' } as typeof TYPICAL_ADULT,
+      { localOnly: false, ageBandYears: 10 }
+    );
+    expect(payload).not.toHaveProperty('name');
+    expect(payload.age).toBe('40–49');
+    expect(payload.bmi).toBeNull();
+    expect(payload).not.toHaveProperty('systolicBp');
+  });
+});
+
+describe('guardRemotePredict', () => {
+  const send = () => vi.fn((_payload: unknown) => predictStrokeRiskLocally(TYPICAL_ADULT));
+
+  it('blocks every call in local-only mode', async () => {
+    const { guard, audit } = guardWith({ localOnly: true }, true);
+    const remote = send();
+    await expect(guardRemotePredict(guard, 'model', remote)(TYPICAL_ADULT)).rejects.toBeInstanceOf(RemoteCallBlockedError);
+    expect(remote).not.toHaveBeenCalled();
+    expect(audit).toEqual([]);
+  });
+
+  it('requires consent', async () => {
+    const { guard, audit } = guardWith({}, false);
+    const remote = send();
+    await expect(guardRemotePredict(guard, 'model', remote)(TYPICAL_ADULT)).rejects.toBeInstanceOf(ConsentRequiredError);
+    expect(remote).not.toHaveBeenCalled();
+    expect(audit).toEqual([]);
+  });
+
+  it('logs exactly what it sends', async () => {
+    const { guard, audit } = guardWith({ ageBandYears: 5 }, true);
+    const remote = send();
+    await guardRemotePredict(guard, 'model', remote)({ ...TYPICAL_ADULT, age: 93 });
+
+    expect(audit).toHaveLength(1);
+    expect(audit[0].modelId).toBe('model');
+    expect(audit[0].payload.age).toBe('90+');
+    expect(remote).toHaveBeenCalledWith(audit[0].payload, undefined);
+  });
+});
@@ -0,0 +1,182 @@
+import { PatientData, PredictOptions, PredictionResult, Predictor } from "../types";
+import { ConsentRequiredError, RemoteCallBlockedError } from "./errors";
+
+/**
+ * What may leave the device when a remote model is used. Stored per browser, like the
+ * risk policy; the headless API reads it from the environment instead.
+ */
+export interface PrivacyPolicy {
+  /** Refuse every remote model call; only the local model can be used. */
+  localOnly: boolean;
+  /** Width of the age bands sent to remote models, in years. 0 sends the exact age. */
+  ageBandYears: number;
+}
+
+export const DEFAULT_PRIVACY_POLICY: PrivacyPolicy = {
+  localOnly: false,
+  ageBandYears: 0,
+};
+
+export const AGE_BAND_OPTIONS = [0, 5, 10];
+
+/**
+ * The only fields sent to remote models. Listed explicitly rather than derived from the
+ * form schema, so a field added to the form is never sent until it has been reviewed here.
+ */
+export const REMOTE_FIELDS: (keyof PatientData)[] = [
+  "gender",
+  "age",
+  "hypertension",
+  "heartDisease",
+  "everMarried",
+  "workType",
+  "residenceType",
+  "avgGlucoseLevel",
+  "bmi",
+  "smokingStatus",
+  "systolicBp",
+  "antihypertensiveTreatment",
+  "diabetes",
+  "atrialFibrillation",
+  "congestiveHeartFailure",
+  "vascularDisease",
+  "priorStroke",
+  "leftVentricularHypertrophy",
+];
+
+// HIPAA Safe Harbor: ages over 89 are always reported as a single band.
+const OLDEST_EXACT_AGE = 89;
+
+/**
+ * The de-identified feature set a remote model receives; `age` may be a band such as "65–69"
+ * and unknown measurements are null.
+ */
+export type RemotePatientData = Partial<Record<keyof PatientData, string | number | boolean | null>>;
+
+export interface AuditEntry {
+  timestamp: string;
+  modelId: string;
+  payload: RemotePatientData;
+}
+
+/** Where a remote predictor gets its privacy decisions from. */
+export interface PrivacyGuard {
+  getPolicy: () => PrivacyPolicy;
+  hasConsent: () => boolean;
+  recordAudit: (entry: AuditEntry) => void;
+}
+
+export const bucketAge = (age: number, bandYears: number): string | number => {
+  if (age > OLDEST_EXACT_AGE) return `${OLDEST_EXACT_AGE + 1}+`;
+  if (bandYears <= 0) return age;
+  const from = Math.floor(age / bandYears) * bandYears;
+  return `${from}–${Math.min(from + bandYears - 1, OLDEST_EXACT_AGE)}`;
+};
+
+/** Copies the allow-listed fields, drops unrecorded ones and bands the age as the policy requires. */
+export const toRemotePayload = (data: PatientData, policy: PrivacyPolicy): RemotePatientData => {
+  const payload: RemotePatientData = {};
+  REMOTE_FIELDS.forEach(field => {
+    const value = data[field];
+    if (value === undefined || value === "") return;
+    payload[field] = field === "age" && typeof value === "number" ? bucketAge(value, policy.ageBandYears) : value;
+  });
+  return payload;
+};
+
+/**
+ * Puts the privacy checks in front of a remote model: local-only mode and missing consent
+ * reject before anything is sent, and every payload is logged before it leaves.
+ */
+export const guardRemotePredict = (
+  guard: PrivacyGuard,
+  modelId: string,
+  send: (payload: RemotePatientData, options?: PredictOptions) => Promise<PredictionResult>
+): Predictor["predict"] => async (data, options) => {
+  const policy = guard.getPolicy();
+  if (policy.localOnly) {
+    throw new RemoteCallBlockedError("Local-only mode is on, so remote models cannot be used.");
+  }
+  if (!guard.hasConsent()) {
+    throw new ConsentRequiredError("Sending patient data to a remote model needs consent for this session.");
+  }
+  const payload = toRemotePayload(data, policy);
+  guard.recordAudit({ timestamp: new Date().toISOString(), modelId, payload });
+  return send(payload, options);
+};
+
+// Browser storage. Every read is guarded, so the module also loads under Node.
+
+const POLICY_KEY = "stroke-prediction.privacy-policy";
+const CONSENT_KEY = "stroke-prediction.remote-consent";
+const AUDIT_KEY = "stroke-prediction.audit-log";
+
+// Oldest entries are dropped beyond this, to stay well inside the localStorage quota.
+export const MAX_AUDIT_ENTRIES = 1000;
+
+export const loadPrivacyPolicy = (): PrivacyPolicy => {
+  try {
+    const stored = globalThis.localStorage?.getItem(POLICY_KEY);
+    if (!stored) return DEFAULT_PRIVACY_POLICY;
+    const policy: PrivacyPolicy = { ...DEFAULT_PRIVACY_POLICY, ...JSON.parse(stored) };
+    return typeof policy.localOnly === "boolean" && AGE_BAND_OPTIONS.includes(policy.ageBandYears)
+      ? policy
+      : DEFAULT_PRIVACY_POLICY;
+  } catch {
+    return DEFAULT_PRIVACY_POLICY;
+  }
+};
+
+export const savePrivacyPolicy = (policy: PrivacyPolicy): void => {
+  localStorage.setItem(POLICY_KEY, JSON.stringify(policy));
+};
+
+/** Consent lasts until the tab is closed, so it is asked for again in every new session. */
+export const hasRemoteConsent = (): boolean => {
+  try {
+    return Boolean(globalThis.sessionStorage?.getItem(CONSENT_KEY));
+  } catch {
+    return false;
+  }
+};
+
+export const grantRemoteConsent = (): void => {
+  sessionStorage.setItem(CONSENT_KEY, new Date().toISOString());
+};
+
+export const revokeRemoteConsent = (): void => {
+  sessionStorage.removeItem(CONSENT_KEY);
+};
+
+/** Logged payloads, oldest first. */
+export const listAuditLog = (): AuditEntry[] => {
+  try {
+    const stored = globalThis.localStorage?.getItem(AUDIT_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch {
+    return [];
+  }
+};
+
+export const appendAuditEntry = (entry: AuditEntry): void => {
+  const entries = [...listAuditLog(), entry].slice(-MAX_AUDIT_ENTRIES);
+  localStorage.setItem(AUDIT_KEY, JSON.stringify(entries));
+};
+
+export const clearAuditLog = (): void => {
+  localStorage.removeItem(AUDIT_KEY);
+};
+
+export const BROWSER_PRIVACY_GUARD: PrivacyGuard = {
+  getPolicy: loadPrivacyPolicy,
+  hasConsent: hasRemoteConsent,
+  recordAudit: appendAuditEntry,
+};
+
+/** Whether `predictor` can run now, or the reason it cannot. */
+export const remoteAccessProblem = (predictor: Predictor<string>, guard: PrivacyGuard = BROWSER_PRIVACY_GUARD) => {
+  if (!predictor.requiresNetwork) return null;
+  if (guard.getPolicy().localOnly) return "local-only" as const;
+  if (!guard.hasConsent()) return "consent" as const;
+  return null;
+};
@@ -0,0 +1,242 @@
+import { Locale, PatientData, PredictionResult, Predictor } from "../types";
+import { FORM_SECTIONS } from "../constants";
+import {
+  CATALOGS,
+  DEFAULT_LOCALE,
+  describeUncertainty,
+  fieldLabel,
+  fillTemplate,
+  formatNumber,
+  formatPercent,
+  formatValue,
+  predictorName,
+  riskLevelLabel,
+  sectionTitle,
+  translate,
+} from "./i18n";
+import { downloadFile } from "./download";
+import { RISK_LEVEL_STYLES, riskColorHex } from "./riskPolicy";
+
+export interface ReportInput {
+  data: PatientData;
+  result: PredictionResult;
+  predictor: Predictor;
+  generatedAt: Date;
+  patientName?: string;
+  /** Language of the report; defaults to English. */
+  locale?: Locale;
+}
+
+const escapeHtml = (value: string) =>
+  value.replace(/[&<>"']/g, char => `&#${char.charCodeAt(0)};`);
+
+const reportFileName = ({ patientName, generatedAt }: ReportInput, extension: string) => {
+  const name = (patientName ?? "patient").replace(/[^a-z0-9]+/gi, "-").replace(/^-|-$/g, "").toLowerCase();
+  return `stroke-risk-report-${name}-${generatedAt.toISOString().slice(0, 10)}.${extension}`;
+};
+
+const factorPoints = (locale: Locale, { direction, points }: PredictionResult["factors"][number], minus: string) =>
+  translate(locale, "points", { points: `${direction === "increase" ? "+" : minus}${formatNumber(locale, points, 1)}` });
+
+/** The "Generated …" and "Prediction engine: …" lines under the report title. */
+const reportMeta = ({ predictor, generatedAt, locale = DEFAULT_LOCALE }: ReportInput) => {
+  const { intlLocale, report } = CATALOGS[locale];
+  return {
+    generated: fillTemplate(report.generated, { date: generatedAt.toLocaleString(intlLocale) }),
+    engine: fillTemplate(report.engine, { name: predictorName(locale, predictor.id), modelId: predictor.modelId }),
+  };
+};
+
+/** A standalone, print-optimised HTML document for the assessment. */
+export const buildReportHtml = (input: ReportInput): string => {
+  const { data, result, patientName, locale = DEFAULT_LOCALE } = input;
+  const texts = CATALOGS[locale].report;
+  const meta = reportMeta(input);
+  const riskColor = riskColorHex(result.riskLevel);
+  const patient = patientName
+    ? `${fillTemplate(escapeHtml(texts.patient), { name: `<strong>${escapeHtml(patientName)}</strong>` })} · `
+    : "";
+
+  const sections = FORM_SECTIONS.map(section => `
+      <section>
+        <h2>${escapeHtml(sectionTitle(locale, section.id))}</h2>
+        <table>
+          ${section.fields.map(field => `
+          <tr><th>${escapeHtml(fieldLabel(locale, field))}</th><td>${escapeHtml(formatValue(locale, field, data[field]))}</td></tr>`).join("")}
+        </table>
+      </section>`).join("");
+
+  const factors = result.factors.length === 0 ? "" : `
+      <section>
+        <h2>${escapeHtml(translate(locale, "contributingFactors"))}</h2>
+        <table>
+          ${result.factors.map(factor => `
+          <tr>
+            <th>${escapeHtml(fieldLabel(locale, factor.field))}</th>
+            <td class="points">${escapeHtml(factorPoints(locale, factor, "−"))}</td>
+            <td>${escapeHtml(factor.rationale)}</td>
+          </tr>`).join("")}
+        </table>
+      </section>`;
+
+  return `<!DOCTYPE html>
+<html lang="${CATALOGS[locale].intlLocale}">
+<head>
+  <meta charset="UTF-8" />
+  <title>${escapeHtml(texts.documentTitle)}${patientName ? ` – ${escapeHtml(patientName)}` : ""}</title>
+  <style>
+    body { font-family: 'Inter', Arial, sans-serif; color: #1e293b; max-width: 760px; margin: 32px auto; padding: 0 24px; font-size: 13px; }
+    header { border-bottom: 2px solid #0d9488; padding-bottom: 12px; margin-bottom: 20px; }
+    h1 { font-size: 22px; margin: 0 0 4px; color: #0f766e; }
+    h2 { font-size: 14px; text-transform: uppercase; letter-spacing: 0.05em; color: #0f766e; border-bottom: 1px solid #e2e8f0; padding-bottom: 4px; margin: 20px 0 8px; }
+    .meta { color: #64748b; font-size: 12px; }
+    .result { display: flex; gap: 24px; border: 1px solid #e2e8f0; border-radius: 8px; padding: 16px; margin-bottom: 8px; }
+    .result div { flex: 1; }
+    .label { color: #64748b; font-size: 11px; text-transform: uppercase; letter-spacing: 0.05em; }
+    .value { font-size: 20px; font-weight: 700; margin-top: 4px; }
+    .risk { color: ${riskColor}; }
+    .uncertainty { color: #64748b; font-size: 12px; margin: 0 0 8px; }
+    table { width: 100%; border-collapse: collapse; }
+    th, td { text-align: left; padding: 4px 8px 4px 0; vertical-align: top; border-bottom: 1px solid #f1f5f9; }
+    th { width: 40%; font-weight: 500; color: #475569; }
+    td.points { width: 70px; font-weight: 700; white-space: nowrap; }
+    .disclaimer { margin-top: 28px; padding-top: 12px; border-top: 1px solid #e2e8f0; font-size: 11px; color: #64748b; }
+    .actions { margin-bottom: 16px; }
+    @media print {
+      body { margin: 0; max-width: none; }
+      .actions { display: none; }
+      section { break-inside: avoid; }
+    }
+  </style>
+</head>
+<body>
+  <div class="actions"><button onclick="window.print()">${escapeHtml(texts.print)}</button></div>
+  <header>
+    <h1>${escapeHtml(texts.title)}</h1>
+    <div class="meta">
+      ${patient}${escapeHtml(meta.generated)}<br />
+      ${escapeHtml(meta.engine)}
+    </div>
+  </header>
+
+  <div class="result">
+    <div><div class="label">${escapeHtml(translate(locale, "riskLevel"))}</div><div class="value risk">${escapeHtml(riskLevelLabel(locale, result.riskLevel))}</div></div>
+    <div><div class="label">${escapeHtml(translate(locale, "strokeProbability"))}</div><div class="value">${escapeHtml(formatPercent(locale, result.probability))}</div></div>
+    <div><div class="label">${escapeHtml(texts.strokePrediction)}</div><div class="value">${escapeHtml(result.strokePrediction ? texts.yes : texts.no)}</div></div>
+  </div>
+  <p class="uncertainty">${escapeHtml(describeUncertainty(result.uncertainty, locale))}.</p>
+  ${sections}
+  ${factors}
+
+  <p class="disclaimer"><strong>${escapeHtml(translate(locale, "disclaimerLabel"))}</strong> ${escapeHtml(translate(locale, "disclaimer"))}</p>
+</body>
+</html>`;
+};
+
+/** Opens the HTML report in a new tab, ready for printing. */
+export const openPrintableReport = (input: ReportInput) => {
+  const url = URL.createObjectURL(new Blob([buildReportHtml(input)], { type: "text/html" }));
+  const reportWindow = window.open(url, "_blank");
+  if (!reportWindow) {
+    // Pop-ups are blocked; fall back to downloading the file.
+    downloadFile(reportFileName(input, "html"), buildReportHtml(input), "text/html");
+  }
+  setTimeout(() => URL.revokeObjectURL(url), 60000);
+};
+
+/** Renders the report as an A4 PDF and downloads it. jsPDF is loaded on first use. */
+export const downloadReportPdf = async (input: ReportInput) => {
+  const { jsPDF } = await import("jspdf");
+  const { data, result, patientName, locale = DEFAULT_LOCALE } = input;
+  const texts = CATALOGS[locale].report;
+  const meta = reportMeta(input);
+
+  const doc = new jsPDF({ unit: "mm", format: "a4" });
+  const margin = 18;
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const contentWidth = pageWidth - margin * 2;
+  let y = margin;
+
+  const ensureSpace = (height: number) => {
+    if (y + height > pageHeight - margin) {
+      doc.addPage();
+      y = margin;
+    }
+  };
+
+  const heading = (text: string) => {
+    ensureSpace(12);
+    y += 4;
+    doc.setFont("helvetica", "bold").setFontSize(10).setTextColor(15, 118, 110);
+    doc.text(text.toUpperCase(), margin, y);
+    y += 1.5;
+    doc.setDrawColor(226, 232, 240).line(margin, y, pageWidth - margin, y);
+    y += 5;
+  };
+
+  const row = (label: string, value: string) => {
+    const lines: string[] = doc.splitTextToSize(value, contentWidth * 0.6);
+    ensureSpace(lines.length * 5);
+    doc.setFont("helvetica", "normal").setFontSize(10).setTextColor(71, 85, 105);
+    doc.text(label, margin, y);
+    doc.setTextColor(30, 41, 59);
+    doc.text(lines, margin + contentWidth * 0.4, y);
+    y += lines.length * 5;
+  };
+
+  doc.setFont("helvetica", "bold").setFontSize(18).setTextColor(15, 118, 110);
+  doc.text(texts.title, margin, y);
+  y += 7;
+  doc.setFont("helvetica", "normal").setFontSize(9).setTextColor(100, 116, 139);
+  if (patientName) {
+    doc.text(fillTemplate(texts.patient, { name: patientName }), margin, y);
+    y += 4.5;
+  }
+  doc.text(meta.generated, margin, y);
+  y += 4.5;
+  doc.text(meta.engine, margin, y);
+  y += 4;
+  doc.setDrawColor(13, 148, 136).setLineWidth(0.6).line(margin, y, pageWidth - margin, y);
+  doc.setLineWidth(0.2);
+  y += 8;
+
+  doc.setFont("helvetica", "normal").setFontSize(8).setTextColor(100, 116, 139);
+  doc.text(translate(locale, "riskLevel").toUpperCase(), margin, y);
+  doc.text(translate(locale, "strokeProbability").toUpperCase(), margin + contentWidth / 3, y);
+  doc.text(texts.strokePrediction.toUpperCase(), margin + (contentWidth * 2) / 3, y);
+  y += 7;
+  doc.setFont("helvetica", "bold").setFontSize(16);
+  doc.setTextColor(...RISK_LEVEL_STYLES[result.riskLevel].rgb);
+  doc.text(riskLevelLabel(locale, result.riskLevel), margin, y);
+  doc.setTextColor(30, 41, 59);
+  doc.text(formatPercent(locale, result.probability), margin + contentWidth / 3, y);
+  doc.text(result.strokePrediction ? texts.yes : texts.no, margin + (contentWidth * 2) / 3, y);
+  y += 6;
+  doc.setFont("helvetica", "normal").setFontSize(9).setTextColor(100, 116, 139);
+  doc.text(`${describeUncertainty(result.uncertainty, locale)}.`, margin, y);
+  y += 4;
+
+  FORM_SECTIONS.forEach(section => {
+    heading(sectionTitle(locale, section.id));
+    section.fields.forEach(field => row(fieldLabel(locale, field), formatValue(locale, field, data[field])));
+  });
+
+  if (result.factors.length > 0) {
+    heading(translate(locale, "contributingFactors"));
+    result.factors.forEach(factor => {
+      row(`${fieldLabel(locale, factor.field)} (${factorPoints(locale, factor, "-")})`, factor.rationale);
+    });
+  }
+
+  const disclaimer: string[] = doc.splitTextToSize(
+    `${translate(locale, "disclaimerLabel")} ${translate(locale, "disclaimer")}`,
+    contentWidth
+  );
+  ensureSpace(disclaimer.length * 4 + 8);
+  y += 6;
+  doc.setFont("helvetica", "italic").setFontSize(8).setTextColor(100, 116, 139);
+  doc.text(disclaimer, margin, y);
+
+  doc.save(reportFileName(input, "pdf"));
+};
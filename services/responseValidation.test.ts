@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { parsePredictionResponse } from './responseValidation';
+import { MalformedResponseError } from './errors';
+import { geminiResponse } from '../test/fixtures/geminiResponses';
+
+describe('parsePredictionResponse', () => {
+  it('returns a valid response as a PredictionResult', () => {
+    expect(parsePredictionResponse(geminiResponse('Moderate Risk'))).toEqual({
+      strokePrediction: false,
+      probability: 15,
+      riskLevel: 'Moderate Risk',
+      // Sorted by size.
+      factors: [
+        { field: 'age', value: '58', direction: 'increase', points: 6, rationale: 'Risk rises with age.' },
+        { field: 'hypertension', value: 'Yes', direction: 'increase', points: 4.5, rationale: 'Raised blood pressure.' },
+      ],
+      uncertainty: { low: 11, high: 19, confidence: 'moderate', missingFields: [] },
+    });
+  });
+
+  it('accepts a response without factors', () => {
+    expect(parsePredictionResponse(geminiResponse('Low Risk', { factors: undefined })).factors).toEqual([]);
+  });
+
+  it('accepts the probability bounds', () => {
+    const lowest = geminiResponse('Low Risk', { probability: 0, probabilityLow: 0 });
+    const highest = geminiResponse('High Risk', { probability: 100, probabilityHigh: 100 });
+    expect(parsePredictionResponse(lowest).probability).toBe(0);
+    expect(parsePredictionResponse(highest).probability).toBe(100);
+  });
+
+  it.each([
+    ['an empty response', undefined, 'No response from AI model'],
+    ['text that is not JSON', 'Sorry, I cannot help with that.', 'not valid JSON'],
+    ['a JSON array', '[]', 'not a JSON object'],
+    ['a missing strokePrediction', geminiResponse('Low Risk', { strokePrediction: undefined }), 'strokePrediction must be a boolean'],
+    ['a probability as text', geminiResponse('Low Risk', { probability: '4' }), 'probability must be a number'],
+    ['a probability above 100', geminiResponse('High Risk', { probability: 120 }), 'between 0 and 100'],
+    ['a negative probability', geminiResponse('Low Risk', { probability: -1 }), 'between 0 and 100'],
+    ['an unknown risk level', geminiResponse('Low Risk', { riskLevel: 'Very Low' }), 'riskLevel must be one of'],
+    ['a prediction contradicting the risk level', geminiResponse('Low Risk', { strokePrediction: true }), 'contradicts'],
+    ['a missing range', geminiResponse('Low Risk', { probabilityLow: undefined }), 'probabilityLow and probabilityHigh'],
+    ['a range not containing the probability', geminiResponse('Low Risk', { probabilityHigh: 3 }), 'does not contain'],
+    ['an unknown confidence', geminiResponse('Low Risk', { confidence: 'certain' }), 'confidence must be one of'],
+    ['factors that are not a list', geminiResponse('Low Risk', { factors: {} }), 'factors must be an array'],
+    [
+      'a factor for an unknown field',
+      geminiResponse('Low Risk', { factors: [{ field: 'cholesterol', value: '5', direction: 'increase', points: 1 }] }),
+      'not a patient field',
+    ],
+    [
+      'a factor without a direction',
+      geminiResponse('Low Risk', { factors: [{ field: 'age', value: '43', points: 1 }] }),
+      'direction must be',
+    ],
+    [
+      'a factor without points',
+      geminiResponse('Low Risk', { factors: [{ field: 'age', value: '43', direction: 'increase' }] }),
+      'points must be a number',
+    ],
+  ])('rejects %s', (_, text, message) => {
+    expect(() => parsePredictionResponse(text)).toThrow(MalformedResponseError);
+    expect(() => parsePredictionResponse(text)).toThrow(message);
+  });
+});
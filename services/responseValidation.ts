@@ -0,0 +1,107 @@
+import { Confidence, PatientData, PredictionResult, RiskFactorContribution, RiskLevel } from "../types";
+import { PATIENT_FIELDS } from "../constants";
+import { MalformedResponseError } from "./errors";
+import { RISK_LEVELS } from "./riskPolicy";
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === "number" && Number.isFinite(value);
+
+export const CONFIDENCE_LEVELS: Confidence[] = ["high", "moderate", "low"];
+
+const validateFactor = (factor: unknown, index: number): RiskFactorContribution => {
+  if (!isRecord(factor)) {
+    throw new MalformedResponseError(`factors[${index}] is not an object.`);
+  }
+  if (!PATIENT_FIELDS.includes(factor.field as keyof PatientData)) {
+    throw new MalformedResponseError(`factors[${index}].field "${String(factor.field)}" is not a patient field.`);
+  }
+  if (factor.direction !== "increase" && factor.direction !== "decrease") {
+    throw new MalformedResponseError(`factors[${index}].direction must be "increase" or "decrease".`);
+  }
+  if (!isFiniteNumber(factor.points)) {
+    throw new MalformedResponseError(`factors[${index}].points must be a number.`);
+  }
+  if (!["string", "number", "boolean"].includes(typeof factor.value)) {
+    throw new MalformedResponseError(`factors[${index}].value is missing.`);
+  }
+
+  return {
+    field: factor.field as RiskFactorContribution["field"],
+    value: factor.value as RiskFactorContribution["value"],
+    direction: factor.direction,
+    points: Math.abs(factor.points),
+    rationale: typeof factor.rationale === "string" ? factor.rationale : "",
+  };
+};
+
+/**
+ * Checks a parsed model response against the PredictionResult contract:
+ * probability within 0–100, a known risk level, a stroke prediction that
+ * agrees with it (true exactly when the risk is high), and a probability range
+ * around the probability with a confidence level. Factors are optional.
+ * `missingFields` is left empty for the caller, which knows the inputs.
+ * Throws MalformedResponseError describing the first violation found.
+ */
+export const validatePredictionResult = (payload: unknown): PredictionResult => {
+  if (!isRecord(payload)) {
+    throw new MalformedResponseError("The response is not a JSON object.");
+  }
+
+  const { strokePrediction, probability, riskLevel, probabilityLow, probabilityHigh, confidence, factors = [] } = payload;
+
+  if (typeof strokePrediction !== "boolean") {
+    throw new MalformedResponseError("strokePrediction must be a boolean.");
+  }
+  if (!isFiniteNumber(probability) || probability < 0 || probability > 100) {
+    throw new MalformedResponseError(`probability must be a number between 0 and 100, got ${JSON.stringify(probability)}.`);
+  }
+  if (!RISK_LEVELS.includes(riskLevel as RiskLevel)) {
+    throw new MalformedResponseError(`riskLevel must be one of ${RISK_LEVELS.join(", ")}, got ${JSON.stringify(riskLevel)}.`);
+  }
+  if (strokePrediction !== (riskLevel === "High Risk")) {
+    throw new MalformedResponseError(`strokePrediction (${strokePrediction}) contradicts riskLevel "${riskLevel}".`);
+  }
+  if (!isFiniteNumber(probabilityLow) || !isFiniteNumber(probabilityHigh) || probabilityLow < 0 || probabilityHigh > 100) {
+    throw new MalformedResponseError("probabilityLow and probabilityHigh must be numbers between 0 and 100.");
+  }
+  if (probabilityLow > probability || probabilityHigh < probability) {
+    throw new MalformedResponseError(`The range ${probabilityLow}–${probabilityHigh} does not contain probability ${probability}.`);
+  }
+  if (!CONFIDENCE_LEVELS.includes(confidence as Confidence)) {
+    throw new MalformedResponseError(`confidence must be one of ${CONFIDENCE_LEVELS.join(", ")}, got ${JSON.stringify(confidence)}.`);
+  }
+  if (!Array.isArray(factors)) {
+    throw new MalformedResponseError("factors must be an array.");
+  }
+
+  return {
+    strokePrediction,
+    probability,
+    riskLevel: riskLevel as RiskLevel,
+    factors: factors.map(validateFactor).sort((a, b) => b.points - a.points),
+    uncertainty: {
+      low: probabilityLow,
+      high: probabilityHigh,
+      confidence: confidence as Confidence,
+      missingFields: [],
+    },
+  };
+};
+
+/** Parses the raw model text and validates it. */
+export const parsePredictionResponse = (text: string | undefined): PredictionResult => {
+  if (!text) {
+    throw new MalformedResponseError("No response from AI model");
+  }
+
+  let payload: unknown;
+  try {
+    payload = JSON.parse(text);
+  } catch (error) {
+    throw new MalformedResponseError("The response is not valid JSON.", { cause: error });
+  }
+
+  return validatePredictionResult(payload);
+};
@@ -0,0 +1,69 @@
+import { PredictionCancelledError, TimeoutError, toPredictionError } from "./errors";
+
+export interface RetryOptions {
+  /** Retries after the first attempt. */
+  retries?: number;
+  /** Delay before the first retry; doubled for each further retry. */
+  baseDelayMs?: number;
+  /** Time limit for each attempt. */
+  timeoutMs?: number;
+  signal?: AbortSignal;
+}
+
+export const delay = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new PredictionCancelledError("The prediction was cancelled."));
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new PredictionCancelledError("The prediction was cancelled."));
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+
+/**
+ * Runs `attempt` with a per-attempt timeout, retrying retryable failures with
+ * exponential backoff. The signal handed to `attempt` aborts on timeout or when
+ * the caller's signal aborts. All failures are rethrown as PredictionErrors.
+ */
+export const withRetry = async <T>(
+  attempt: (signal: AbortSignal) => Promise<T>,
+  { retries = 2, baseDelayMs = 500, timeoutMs = 30000, signal }: RetryOptions = {}
+): Promise<T> => {
+  for (let attemptNumber = 0; ; attemptNumber++) {
+    if (signal?.aborted) {
+      throw new PredictionCancelledError("The prediction was cancelled.");
+    }
+
+    const controller = new AbortController();
+    let timedOut = false;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, timeoutMs);
+    const forwardAbort = () => controller.abort();
+    signal?.addEventListener("abort", forwardAbort, { once: true });
+
+    try {
+      return await attempt(controller.signal);
+    } catch (error) {
+      const predictionError = timedOut
+        ? new TimeoutError(`No response within ${timeoutMs / 1000} seconds.`, { cause: error })
+        : toPredictionError(error);
+
+      if (!predictionError.retryable || attemptNumber >= retries) {
+        throw predictionError;
+      }
+      await delay(baseDelayMs * 2 ** attemptNumber, signal);
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", forwardAbort);
+    }
+  }
+};
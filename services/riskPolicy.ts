@@ -0,0 +1,100 @@
+import { Locale, PredictionResult, RiskLevel } from "../types";
+import { CATALOGS, DEFAULT_LOCALE, fillTemplate } from "./i18n";
+
+/**
+ * How a predicted probability (in percent) becomes a risk level and a yes/no
+ * stroke prediction. Applied to every predictor's output, so the bands mean
+ * the same thing whichever engine produced the probability.
+ */
+export interface RiskPolicy {
+  /** Probabilities at or above this are at least Moderate Risk. */
+  moderateThreshold: number;
+  /** Probabilities at or above this are High Risk. */
+  highThreshold: number;
+  /** Probabilities at or above this set `strokePrediction`. */
+  decisionThreshold: number;
+}
+
+export type RiskPolicyErrors = Partial<Record<keyof RiskPolicy, string>>;
+
+export const RISK_LEVELS: RiskLevel[] = ["Low Risk", "Moderate Risk", "High Risk"];
+
+// The cut-offs the local model was tuned with.
+export const DEFAULT_RISK_POLICY: RiskPolicy = {
+  moderateThreshold: 10,
+  highThreshold: 25,
+  decisionThreshold: 25,
+};
+
+export interface RiskLevelStyle {
+  textClass: string;
+  barClass: string;
+  rgb: [number, number, number];
+}
+
+export const RISK_LEVEL_STYLES: Record<RiskLevel, RiskLevelStyle> = {
+  "Low Risk": { textClass: "text-green-700", barClass: "bg-green-500", rgb: [22, 163, 74] },
+  "Moderate Risk": { textClass: "text-yellow-700", barClass: "bg-yellow-500", rgb: [202, 138, 4] },
+  "High Risk": { textClass: "text-red-700", barClass: "bg-red-500", rgb: [220, 38, 38] },
+};
+
+export const riskColorHex = (riskLevel: RiskLevel) =>
+  `#${RISK_LEVEL_STYLES[riskLevel].rgb.map(c => c.toString(16).padStart(2, "0")).join("")}`;
+
+const STORAGE_KEY = "stroke-prediction.risk-policy";
+
+const POLICY_KEYS: (keyof RiskPolicy)[] = ["moderateThreshold", "highThreshold", "decisionThreshold"];
+
+export const validateRiskPolicy = (policy: RiskPolicy, locale: Locale = DEFAULT_LOCALE): RiskPolicyErrors => {
+  const errors: RiskPolicyErrors = {};
+  const messages = CATALOGS[locale].riskPolicy;
+
+  POLICY_KEYS.forEach(key => {
+    const value = policy[key];
+    const label = messages.labels[key];
+    if (typeof value !== "number" || Number.isNaN(value)) {
+      errors[key] = fillTemplate(messages.required, { label });
+    } else if (value <= 0 || value > 100) {
+      errors[key] = fillTemplate(messages.range, { label });
+    }
+  });
+
+  if (!errors.moderateThreshold && !errors.highThreshold && policy.moderateThreshold >= policy.highThreshold) {
+    errors.highThreshold = messages.order;
+  }
+
+  return errors;
+};
+
+/** The saved policy, or the default when nothing valid is stored or storage is unavailable. */
+export const loadRiskPolicy = (): RiskPolicy => {
+  try {
+    const stored = globalThis.localStorage?.getItem(STORAGE_KEY);
+    if (!stored) return DEFAULT_RISK_POLICY;
+    const policy: RiskPolicy = { ...DEFAULT_RISK_POLICY, ...JSON.parse(stored) };
+    return Object.keys(validateRiskPolicy(policy)).length === 0 ? policy : DEFAULT_RISK_POLICY;
+  } catch {
+    return DEFAULT_RISK_POLICY;
+  }
+};
+
+export const saveRiskPolicy = (policy: RiskPolicy): void => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(policy));
+};
+
+export const resetRiskPolicy = (): void => {
+  localStorage.removeItem(STORAGE_KEY);
+};
+
+export const classifyRisk = (probability: number, policy: RiskPolicy): RiskLevel => {
+  if (probability >= policy.highThreshold) return "High Risk";
+  if (probability >= policy.moderateThreshold) return "Moderate Risk";
+  return "Low Risk";
+};
+
+/** Re-derives `riskLevel` and `strokePrediction` from the probability, replacing whatever the predictor chose. */
+export const applyRiskPolicy = (result: PredictionResult, policy: RiskPolicy): PredictionResult => ({
+  ...result,
+  riskLevel: classifyRisk(result.probability, policy),
+  strokePrediction: result.probability >= policy.decisionThreshold,
+});
@@ -0,0 +1,99 @@
+import { Locale, PatientData, PredictionResult, Predictor, SmokingStatus } from "../types";
+import { CATALOGS, DEFAULT_LOCALE, fillTemplate, formatNumber } from "./i18n";
+
+// Risk factors a patient can realistically change through treatment or lifestyle.
+export type ModifiableField = "smokingStatus" | "bmi" | "avgGlucoseLevel" | "hypertension";
+
+export const MODIFIABLE_FIELDS: ModifiableField[] = ["smokingStatus", "bmi", "avgGlucoseLevel", "hypertension"];
+
+export type ScenarioChanges = Partial<Pick<PatientData, ModifiableField>>;
+
+/** Suggested scenarios by what they change, and custom ones; names come from the catalog's `scenarios`. */
+export type ScenarioKind = "quitSmoking" | "reduceBmi" | "controlGlucose" | "controlBp" | "allChanges" | "custom";
+
+export interface Scenario {
+  id: string;
+  kind: ScenarioKind;
+  /** Numbers custom scenarios in the order they were added. */
+  number?: number;
+  changes: ScenarioChanges;
+}
+
+export interface ScenarioOutcome {
+  scenario: Scenario;
+  data: PatientData;
+  result: PredictionResult;
+  /** Change in probability against the baseline, in percentage points. */
+  delta: number;
+}
+
+export const TARGET_BMI = 25;
+export const TARGET_GLUCOSE = 100;
+
+/** Applies a scenario's changes to a copy of the patient; the baseline is never modified. */
+export const applyScenario = (baseline: PatientData, scenario: Scenario): PatientData => ({
+  ...baseline,
+  ...scenario.changes,
+});
+
+/**
+ * Builds the standard counselling scenarios that apply to this patient:
+ * quitting smoking, reaching a BMI of 25, controlling glucose and controlling blood pressure,
+ * followed by all of them combined.
+ */
+export const suggestScenarios = (baseline: PatientData): Scenario[] => {
+  const scenarios: Scenario[] = [];
+
+  if (baseline.smokingStatus === SmokingStatus.Smokes) {
+    scenarios.push({ id: "quit-smoking", kind: "quitSmoking", changes: { smokingStatus: SmokingStatus.FormerlySmoked } });
+  }
+  if (typeof baseline.bmi === "number" && baseline.bmi > TARGET_BMI) {
+    scenarios.push({ id: "reduce-bmi", kind: "reduceBmi", changes: { bmi: TARGET_BMI } });
+  }
+  if (typeof baseline.avgGlucoseLevel === "number" && baseline.avgGlucoseLevel > TARGET_GLUCOSE) {
+    scenarios.push({ id: "control-glucose", kind: "controlGlucose", changes: { avgGlucoseLevel: TARGET_GLUCOSE } });
+  }
+  if (baseline.hypertension) {
+    scenarios.push({ id: "control-bp", kind: "controlBp", changes: { hypertension: false } });
+  }
+
+  if (scenarios.length > 1) {
+    scenarios.push({
+      id: "all-changes",
+      kind: "allChanges",
+      changes: Object.assign({}, ...scenarios.map(s => s.changes)),
+    });
+  }
+
+  return scenarios;
+};
+
+/** The scenario's name in `locale`, e.g. "BMI down to 25" or "Custom 3". */
+export const scenarioName = (scenario: Scenario, locale: Locale = DEFAULT_LOCALE): string =>
+  fillTemplate(CATALOGS[locale].scenarios[scenario.kind], {
+    bmi: formatNumber(locale, TARGET_BMI),
+    number: scenario.number ?? "",
+  });
+
+/** Re-scores every scenario one after another with the given predictor. */
+export const runScenarios = async (
+  baseline: PatientData,
+  baselineResult: PredictionResult,
+  scenarios: Scenario[],
+  predictor: Predictor
+): Promise<ScenarioOutcome[]> => {
+  const outcomes: ScenarioOutcome[] = [];
+
+  for (const scenario of scenarios) {
+    const data = applyScenario(baseline, scenario);
+    const result = await predictor.predict(data);
+    outcomes.push({
+      scenario,
+      data,
+      result,
+      delta: Math.round((result.probability - baselineResult.probability) * 10) / 10,
+    });
+  }
+
+  return outcomes;
+};
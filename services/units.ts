@@ -0,0 +1,35 @@
+export type MeasurementSystem = "metric" | "imperial";
+
+// Molar mass of glucose (180.16 g/mol) / 10.
+export const MG_DL_PER_MMOL_L = 18.016;
+
+export interface BodyMeasurements {
+  system: MeasurementSystem;
+  /** Metric: centimetres. Imperial: feet, with the remainder in `heightInches`. */
+  height: number | "";
+  heightInches: number | "";
+  /** Metric: kilograms. Imperial: pounds. */
+  weight: number | "";
+}
+
+const CM_PER_INCH = 2.54;
+const KG_PER_LB = 0.45359237;
+
+export const round = (value: number, decimals: number) => {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+};
+
+/** BMI (kg/m², one decimal) from height and weight, or null until both are entered. */
+export const calculateBmi = ({ system, height, heightInches, weight }: BodyMeasurements): number | null => {
+  if (height === "" || weight === "") return null;
+
+  const heightM = system === "metric"
+    ? height / 100
+    : ((height * 12 + (heightInches === "" ? 0 : heightInches)) * CM_PER_INCH) / 100;
+  const weightKg = system === "metric" ? weight : weight * KG_PER_LB;
+
+  // `!(x > 0)` also rejects NaN from unreadable input.
+  if (!(heightM > 0) || !(weightKg > 0)) return null;
+  return round(weightKg / (heightM * heightM), 1);
+};
@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { PatientData } from '../types';
+import { validatePatientData, isValid } from './validation';
+import { INVALID_PATIENTS, SCORED_PATIENTS, TYPICAL_ADULT } from '../test/fixtures/patients';
+
+const errorsFor = (changes: Partial<PatientData>, units = {}) =>
+  validatePatientData({ ...TYPICAL_ADULT, ...changes }, { units });
+
+describe('validatePatientData', () => {
+  it.each(SCORED_PATIENTS)('accepts the $name fixture', ({ data }) => {
+    expect(isValid(validatePatientData(data))).toBe(true);
+  });
+
+  it.each(INVALID_PATIENTS)('rejects $name', ({ data, errors }) => {
+    const result = validatePatientData(data);
+    expect(Object.keys(result).sort()).toEqual([...errors].sort());
+  });
+
+  describe.each([
+    { field: 'age', min: 0, max: 120, step: 1 },
+    { field: 'avgGlucoseLevel', min: 30, max: 600, step: 0.1 },
+    { field: 'bmi', min: 10, max: 100, step: 0.1 },
+  ] as const)('$field range', ({ field, min, max, step }) => {
+    it('accepts both bounds', () => {
+      expect(errorsFor({ [field]: min })[field]).toBeUndefined();
+      expect(errorsFor({ [field]: max })[field]).toBeUndefined();
+    });
+
+    it('rejects values just outside them', () => {
+      expect(errorsFor({ [field]: min - step })[field]).toBeDefined();
+      expect(errorsFor({ [field]: max + step })[field]).toBeDefined();
+    });
+  });
+
+  it('uses the field-specific messages', () => {
+    expect(errorsFor({ age: 121 }).age).toBe('Please enter a valid age (0-120).');
+    expect(errorsFor({ bmi: 101 }).bmi).toBe('Value must be between 10 and 100.');
+    expect(errorsFor({ avgGlucoseLevel: 601 }).avgGlucoseLevel).toBe('Value must be between 30 and 600 mg/dL.');
+    expect(errorsFor({ bmi: '' }).bmi).toBe('Enter a BMI or mark it as unknown.');
+  });
+
+  it('checks glucose against the range of the selected unit', () => {
+    const mmol = { avgGlucoseLevel: 'mmol/L' };
+    expect(errorsFor({ avgGlucoseLevel: 1.7 }, mmol).avgGlucoseLevel).toBeUndefined();
+    expect(errorsFor({ avgGlucoseLevel: 33.3 }, mmol).avgGlucoseLevel).toBeUndefined();
+    expect(errorsFor({ avgGlucoseLevel: 100 }, mmol).avgGlucoseLevel).toBe('Value must be between 1.7 and 33.3 mmol/L.');
+  });
+
+  it('accepts unknown glucose and BMI but not an unknown age', () => {
+    expect(isValid(errorsFor({ avgGlucoseLevel: null, bmi: null }))).toBe(true);
+    expect(errorsFor({ age: null as unknown as '' }).age).toBe('Age is required.');
+  });
+
+  it('tells unreadable input apart from missing input', () => {
+    expect(errorsFor({ bmi: NaN }).bmi).toBe('BMI (Body Mass Index) must be a number, e.g. 28.4.');
+  });
+
+  it('leaves the optional clinical details optional', () => {
+    expect(isValid(errorsFor({ systolicBp: '', diabetes: undefined }))).toBe(true);
+    expect(errorsFor({ systolicBp: 300 }).systolicBp).toBeDefined();
+  });
+
+  it('skips a cross-field rule while one of its fields has its own error', () => {
+    const errors = errorsFor({ workType: 'children' as PatientData['workType'], age: 200 });
+    expect(errors.age).toBeDefined();
+    expect(errors.workType).toBeUndefined();
+  });
+
+  it('writes the messages in the requested language', () => {
+    const data = { ...TYPICAL_ADULT, age: 121, bmi: NaN };
+    expect(validatePatientData(data, { locale: 'de' })).toEqual({
+      age: 'Bitte ein gültiges Alter eingeben (0–120).',
+      bmi: 'BMI (Body-Mass-Index) muss eine Zahl sein, z. B. 28,4.',
+    });
+    expect(validatePatientData({ ...TYPICAL_ADULT, avgGlucoseLevel: 700 }, { locale: 'es' }).avgGlucoseLevel).toBe(
+      'El valor debe estar entre 30 y 600 mg/dL.'
+    );
+  });
+});
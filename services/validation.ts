@@ -0,0 +1,79 @@
+import { Locale, PatientData } from "../types";
+import {
+  FIELD_SCHEMA,
+  CROSS_FIELD_RULES,
+  FieldSchema,
+  SelectedUnits,
+  getUnit,
+} from "../formSchema";
+import { CATALOGS, DEFAULT_LOCALE, fieldLabel, fillTemplate, formatNumber } from "./i18n";
+
+export type ValidationErrors = Partial<Record<keyof PatientData, string>>;
+
+export interface ValidationOptions {
+  /** Units the numeric values are expressed in; ranges follow them. Defaults to canonical units. */
+  units?: SelectedUnits;
+  /** Language of the messages. Defaults to English. */
+  locale?: Locale;
+}
+
+const validateField = (field: FieldSchema, data: PatientData, units: SelectedUnits, locale: Locale): string | undefined => {
+  const value = data[field.key];
+  const { fields, validation } = CATALOGS[locale];
+  const label = fieldLabel(locale, field.key);
+
+  switch (field.type) {
+    case "number": {
+      if (value === null && field.allowUnknown) return undefined;
+      // NaN is text the number input could not read, e.g. "12,5,0".
+      if (typeof value === "number" && Number.isNaN(value)) return fillTemplate(validation.number, { label });
+      if (value === "" || typeof value !== "number") {
+        return field.required ? fillTemplate(fields[field.key]?.required ?? validation.required, { label }) : undefined;
+      }
+      const { min, max, unit } = getUnit(field, units);
+      if (value < min || value > max) {
+        return fillTemplate(fields[field.key]?.range ?? validation.range, {
+          min: formatNumber(locale, min),
+          max: formatNumber(locale, max),
+          unit,
+        });
+      }
+      return undefined;
+    }
+    case "enum":
+      return field.options.some(option => option.value === value)
+        ? undefined
+        : fillTemplate(validation.option, { label, labelLower: label.toLowerCase() });
+    case "boolean":
+      if (value === undefined && !field.required) return undefined;
+      return typeof value === "boolean" ? undefined : fillTemplate(validation.yesNo, { label });
+  }
+};
+
+/**
+ * Validates patient data against the field schema: required values, unit-aware
+ * ranges and enum membership first, then the cross-field consistency rules for
+ * any rule whose fields all passed on their own.
+ */
+export const validatePatientData = (data: PatientData, options: ValidationOptions = {}): ValidationErrors => {
+  const errors: ValidationErrors = {};
+  const units = options.units ?? {};
+  const locale = options.locale ?? DEFAULT_LOCALE;
+
+  FIELD_SCHEMA.forEach(field => {
+    const message = validateField(field, data, units, locale);
+    if (message) errors[field.key] = message;
+  });
+
+  const fieldErrors = { ...errors };
+  CROSS_FIELD_RULES.forEach(rule => {
+    if (errors[rule.field] || rule.dependsOn.some(key => fieldErrors[key])) return;
+    const message = rule.check(data);
+    if (message) errors[rule.field] = CATALOGS[locale].rules[rule.id] ?? message;
+  });
+
+  return errors;
+};
+
+export const isValid = (errors: ValidationErrors): boolean =>
+  Object.values(errors).every(message => !message);
@@ -0,0 +1,14 @@
+import axe from 'axe-core';
+import { expect } from 'vitest';
+
+/**
+ * Runs axe-core's WCAG 2.1 A and AA rules over `container` and fails with each violated rule
+ * and the elements breaking it. jsdom computes no styles, so colour contrast is not checked here.
+ */
+export const expectNoAxeViolations = async (container: Element) => {
+  const { violations } = await axe.run(container, {
+    runOnly: { type: 'tag', values: ['wcag2a', 'wcag2aa', 'wcag21a', 'wcag21aa'] },
+    rules: { 'color-contrast': { enabled: false } },
+  });
+  expect(violations.map(v => `${v.id}: ${v.nodes.map(node => node.target.join(' ')).join(', ')}`)).toEqual([]);
+};
@@ -0,0 +1,46 @@
+// Rows in the Kaggle stroke dataset layout, with the `id` and `stroke` columns of the original.
+export const DATASET_CSV = `id,gender,age,hypertension,heart_disease,ever_married,work_type,Residence_type,avg_glucose_level,bmi,smoking_status,stroke
+9046,Male,67,0,1,Yes,Private,Urban,228.69,36.6,formerly smoked,1
+51676,Female,61,0,0,Yes,Self-employed,Rural,202.21,N/A,never smoked,1
+31112,Male,80,0,1,Yes,Private,Rural,105.92,32.5,never smoked,1
+60182,Female,49,0,0,Yes,Private,Urban,171.23,34.4,smokes,0
+1665,Female,79,1,0,Yes,Self-employed,Rural,174.12,24,never smoked,0
+56669,Male,81,0,0,Yes,Private,Urban,186.21,29,formerly smoked,0
+53882,Male,74,1,1,Yes,Private,Rural,70.09,27.4,never smoked,1
+10434,Female,69,0,0,No,Private,Urban,94.39,22.8,never smoked,0
+27419,Female,59,0,0,Yes,Private,Rural,76.15,N/A,Unknown,0
+60491,Female,78,0,0,Yes,Private,Urban,58.57,24.2,Unknown,0
+12109,Female,81,1,0,Yes,Private,Rural,80.43,29.7,never smoked,1
+12095,Female,61,0,1,Yes,Govt_job,Rural,120.46,36.8,smokes,1
+12175,Female,54,0,0,Yes,Private,Urban,104.51,27.3,smokes,0
+8213,Male,78,0,1,Yes,Private,Urban,219.84,N/A,Unknown,1
+5317,Female,79,0,1,Yes,Private,Urban,214.09,28.2,never smoked,0
+58202,Female,50,1,0,Yes,Self-employed,Rural,167.41,30.9,never smoked,0
+56112,Male,64,0,1,Yes,Private,Urban,191.61,37.5,smokes,0
+34120,Male,75,1,0,Yes,Private,Urban,221.29,25.8,smokes,0
+27458,Female,60,0,0,No,Private,Urban,89.22,37.8,never smoked,0
+25226,Male,57,0,1,No,Govt_job,Urban,217.08,N/A,Unknown,0
+70630,Female,71,0,0,Yes,Govt_job,Rural,193.94,22.4,smokes,1
+13861,Female,52,1,0,Yes,Self-employed,Urban,233.29,48.9,never smoked,0
+68794,Female,79,0,0,Yes,Self-employed,Urban,228.7,26.6,never smoked,1
+64778,Male,82,0,1,Yes,Private,Rural,208.3,32.5,Unknown,1
+4219,Male,71,0,0,Yes,Private,Urban,102.87,27.2,formerly smoked,0
+70822,Female,80,0,0,Yes,Self-employed,Rural,104.12,23.5,never smoked,0
+38047,Female,65,0,0,Yes,Private,Rural,100.98,28.2,formerly smoked,1
+61843,Male,58,0,0,Yes,Private,Rural,189.84,N/A,Unknown,0
+54827,Male,69,0,1,Yes,Self-employed,Urban,195.23,28.3,smokes,1
+69160,Male,59,0,0,Yes,Private,Rural,211.78,N/A,formerly smoked,0
+43717,Female,57,1,0,Yes,Private,Urban,212.08,44.2,smokes,0
+28674,Female,74,1,0,Yes,Self-employed,Urban,231.61,34.6,formerly smoked,1
+10710,Female,2,0,0,No,children,Urban,70.42,16.9,Unknown,0
+22938,Male,30,0,0,Yes,Private,Rural,85.11,24.3,never smoked,0
+64317,Female,17,0,0,No,Private,Urban,95.12,19.8,never smoked,0
+`;
+
+/** Two rows validation rejects (age out of range; unknown work type) and one without a label. */
+export const FLAWED_CSV = `id,gender,age,hypertension,heart_disease,ever_married,work_type,Residence_type,avg_glucose_level,bmi,smoking_status,stroke
+1,Male,150,0,0,Yes,Private,Urban,100,25,never smoked,0
+2,Female,50,0,0,Yes,Farmer,Urban,100,25,never smoked,0
+3,Female,50,0,0,Yes,Private,Urban,100,25,never smoked,
+4,Female,50,0,0,Yes,Private,Urban,100,25,never smoked,0
+`;
@@ -0,0 +1,49 @@
+import { RiskLevel } from '../../types';
+
+/** The JSON Gemini is asked for, as parsed. */
+export interface GeminiResponse {
+  strokePrediction: boolean;
+  probability: number;
+  riskLevel: RiskLevel;
+  probabilityLow: number;
+  probabilityHigh: number;
+  confidence: string;
+  factors: { field: string; value: string; direction: string; points: number; rationale: string }[];
+}
+
+const RESPONSES: Record<RiskLevel, GeminiResponse> = {
+  'Low Risk': {
+    strokePrediction: false,
+    probability: 4,
+    riskLevel: 'Low Risk',
+    probabilityLow: 2.5,
+    probabilityHigh: 6,
+    confidence: 'high',
+    factors: [{ field: 'age', value: '43', direction: 'decrease', points: 1.2, rationale: 'Younger than most stroke patients.' }],
+  },
+  'Moderate Risk': {
+    strokePrediction: false,
+    probability: 15,
+    riskLevel: 'Moderate Risk',
+    probabilityLow: 11,
+    probabilityHigh: 19,
+    confidence: 'moderate',
+    factors: [
+      { field: 'hypertension', value: 'Yes', direction: 'increase', points: 4.5, rationale: 'Raised blood pressure.' },
+      { field: 'age', value: '58', direction: 'increase', points: 6, rationale: 'Risk rises with age.' },
+    ],
+  },
+  'High Risk': {
+    strokePrediction: true,
+    probability: 42,
+    riskLevel: 'High Risk',
+    probabilityLow: 35,
+    probabilityHigh: 50,
+    confidence: 'high',
+    factors: [{ field: 'age', value: '78', direction: 'increase', points: 20, rationale: 'Advanced age.' }],
+  },
+};
+
+/** A valid response text for `riskLevel`, with `overrides` applied, e.g. to make it malformed. */
+export const geminiResponse = (riskLevel: RiskLevel, overrides: Record<string, unknown> = {}): string =>
+  JSON.stringify({ ...RESPONSES[riskLevel], ...overrides });
@@ -0,0 +1,117 @@
+import {
+  Confidence,
+  Gender,
+  PatientData,
+  ResidenceType,
+  RiskLevel,
+  SmokingStatus,
+  WorkType,
+} from '../../types';
+
+export interface ScoredPatientFixture {
+  name: string;
+  data: PatientData;
+  /** What the local model returns under the default risk policy. Update deliberately when the model changes. */
+  expected: { probability: number; riskLevel: RiskLevel; confidence: Confidence };
+}
+
+export interface InvalidPatientFixture {
+  name: string;
+  data: PatientData;
+  /** Fields validation must reject; no others. */
+  errors: (keyof PatientData)[];
+}
+
+export const TYPICAL_ADULT: PatientData = {
+  gender: Gender.Female,
+  age: 43,
+  hypertension: false,
+  heartDisease: false,
+  everMarried: true,
+  workType: WorkType.Private,
+  residenceType: ResidenceType.Rural,
+  avgGlucoseLevel: 106,
+  bmi: 28.9,
+  smokingStatus: SmokingStatus.NeverSmoked,
+};
+
+// Representative patients across the age range and every risk level.
+export const SCORED_PATIENTS: ScoredPatientFixture[] = [
+  {
+    name: 'child',
+    data: {
+      ...TYPICAL_ADULT,
+      age: 8,
+      everMarried: false,
+      workType: WorkType.Children,
+      avgGlucoseLevel: 90,
+      bmi: 17.5,
+      smokingStatus: SmokingStatus.Unknown,
+    },
+    expected: { probability: 0.1, riskLevel: 'Low Risk', confidence: 'high' },
+  },
+  {
+    name: 'typical adult',
+    data: TYPICAL_ADULT,
+    expected: { probability: 1.6, riskLevel: 'Low Risk', confidence: 'high' },
+  },
+  {
+    name: 'middle-aged man with hypertension',
+    data: {
+      ...TYPICAL_ADULT,
+      gender: Gender.Male,
+      age: 58,
+      hypertension: true,
+      residenceType: ResidenceType.Urban,
+      avgGlucoseLevel: 140,
+      bmi: 31,
+      smokingStatus: SmokingStatus.FormerlySmoked,
+    },
+    expected: { probability: 12.3, riskLevel: 'Moderate Risk', confidence: 'high' },
+  },
+  {
+    name: 'elderly smoker with heart disease',
+    data: {
+      ...TYPICAL_ADULT,
+      gender: Gender.Male,
+      age: 78,
+      hypertension: true,
+      heartDisease: true,
+      workType: WorkType.SelfEmployed,
+      residenceType: ResidenceType.Urban,
+      avgGlucoseLevel: 228.7,
+      bmi: 32.5,
+      smokingStatus: SmokingStatus.Smokes,
+    },
+    expected: { probability: 55.9, riskLevel: 'High Risk', confidence: 'high' },
+  },
+  {
+    name: 'elderly patient without labs',
+    data: {
+      ...TYPICAL_ADULT,
+      age: 81,
+      hypertension: true,
+      workType: WorkType.SelfEmployed,
+      avgGlucoseLevel: null,
+      bmi: null,
+    },
+    expected: { probability: 26.1, riskLevel: 'High Risk', confidence: 'low' },
+  },
+];
+
+export const INVALID_PATIENTS: InvalidPatientFixture[] = [
+  { name: 'missing age', data: { ...TYPICAL_ADULT, age: '' }, errors: ['age'] },
+  { name: 'age out of range', data: { ...TYPICAL_ADULT, age: 121 }, errors: ['age'] },
+  { name: 'glucose not entered', data: { ...TYPICAL_ADULT, avgGlucoseLevel: '' }, errors: ['avgGlucoseLevel'] },
+  { name: 'unreadable BMI', data: { ...TYPICAL_ADULT, bmi: NaN }, errors: ['bmi'] },
+  {
+    name: 'adult with work type children',
+    data: { ...TYPICAL_ADULT, workType: WorkType.Children, everMarried: false },
+    errors: ['workType'],
+  },
+  {
+    name: 'married child',
+    data: { ...TYPICAL_ADULT, age: 12, workType: WorkType.Children },
+    errors: ['everMarried'],
+  },
+];
@@ -0,0 +1,23 @@
+import { vi } from 'vitest';
+import { ModelClient } from '../services/predictionService';
+
+type Reply = string | Error;
+
+/**
+ * A ModelClient that answers from a script instead of calling Gemini: each call takes the
+ * next reply (the response text, or an error to throw) and the last reply repeats.
+ * `generateContent` is a mock, so tests can inspect the prompts that were sent.
+ */
+export const createStubModelClient = (...replies: Reply[]) => {
+  let calls = 0;
+  const generateContent = vi.fn<ModelClient['generateContent']>(async () => {
+    const reply = replies[Math.min(calls++, replies.length - 1)];
+    if (reply instanceof Error) throw reply;
+    return { text: reply };
+  });
+  return { generateContent } satisfies ModelClient;
+};
+
+/** The prompt of the `call`-th request (0-based). */
+export const promptOf = (client: ReturnType<typeof createStubModelClient>, call = 0): string =>
+  String(client.generateContent.mock.calls[call][0].contents);
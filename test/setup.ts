@@ -0,0 +1,11 @@
+import '@testing-library/jest-dom/vitest';
+import 'fake-indexeddb/auto';
+import { afterEach } from 'vitest';
+import { cleanup } from '@testing-library/react';
+
+// Browser storage holds the risk policy, privacy settings, consent and language; start every test clean.
+afterEach(() => {
+  cleanup();
+  globalThis.localStorage?.clear();
+  globalThis.sessionStorage?.clear();
+});
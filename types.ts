@@ -32,13 +32,86 @@ export interface PatientData {
   everMarried: boolean;
   workType: WorkType;
   residenceType: ResidenceType;
-  avgGlucoseLevel: number | '';
-  bmi: number | '';
+  // null when the value is explicitly unknown, e.g. no recent labs; '' while not yet entered.
+  avgGlucoseLevel: number | '' | null;
+  bmi: number | '' | null;
   smokingStatus: SmokingStatus;
+  // Optional details used by the clinical risk scores; undefined when not recorded.
+  systolicBp?: number | '';
+  antihypertensiveTreatment?: boolean;
+  diabetes?: boolean;
+  atrialFibrillation?: boolean;
+  congestiveHeartFailure?: boolean;
+  vascularDisease?: boolean;
+  priorStroke?: boolean;
+  leftVentricularHypertrophy?: boolean;
+}
+
+export type RiskLevel = 'Low Risk' | 'Moderate Risk' | 'High Risk';
+
+export interface RiskFactorContribution {
+  field: keyof PatientData;
+  value: string | number | boolean;
+  direction: 'increase' | 'decrease';
+  /** Size of the contribution in percentage points of stroke probability. */
+  points: number;
+  rationale: string;
+}
+
+export type Confidence = 'high' | 'moderate' | 'low';
+
+export interface PredictionUncertainty {
+  /** Lower end of the plausible probability range, in percent. */
+  low: number;
+  /** Upper end of the plausible probability range, in percent. */
+  high: number;
+  confidence: Confidence;
+  /** Inputs that were unknown, and so imputed or left out. */
+  missingFields: (keyof PatientData)[];
 }
 
 export interface PredictionResult {
   strokePrediction: boolean;
   probability: number;
-  riskLevel: 'Low Risk' | 'Moderate Risk' | 'High Risk';
+  riskLevel: RiskLevel;
+  /** Contributing factors, ranked by the size of their contribution. */
+  factors: RiskFactorContribution[];
+  uncertainty: PredictionUncertainty;
+}
+
+export type PredictorId = 'local' | 'gemini';
+
+/** Languages with a translation catalog in locales/. */
+export type Locale = 'en' | 'de' | 'es';
+
+export interface PredictOptions {
+  /** Aborts the prediction; the promise then rejects with PredictionCancelledError. */
+  signal?: AbortSignal;
+  /** Language of the factor rationales. Defaults to English. */
+  locale?: Locale;
+}
+
+export interface Predictor<Id extends string = PredictorId> {
+  id: Id;
+  /** Identifier of the underlying model, recorded in reports. */
+  modelId: string;
+  name: string;
+  description: string;
+  requiresNetwork: boolean;
+  predict: (data: PatientData, options?: PredictOptions) => Promise<PredictionResult>;
+}
+
+export interface PatientRecord {
+  id: string;
+  name: string;
+  createdAt: string;
+}
+
+export interface Assessment {
+  id: string;
+  patientId: string;
+  timestamp: string;
+  predictorId: PredictorId;
+  input: PatientData;
+  result: PredictionResult;
 }